@@ -1,2 +1,13 @@
 import { log } from "@/log";
 log.error = log.warn = log.info = () => {};
+
+// jsdom doesn't implement `AbortSignal.throwIfAborted` yet.
+if (!("throwIfAborted" in AbortSignal.prototype)) {
+    Object.assign(AbortSignal.prototype, {
+        throwIfAborted(this: AbortSignal) {
+            if (this.aborted) {
+                throw this.reason;
+            }
+        },
+    });
+}
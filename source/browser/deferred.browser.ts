@@ -0,0 +1,29 @@
+import { log } from "$/log.browser";
+import { reconcile } from "$/reconcile.browser";
+
+/**
+ * Replaces the fallback content of the `hy-deferred` element with the given id with the deferred
+ * content that the server streamed in a `template` element at the end of the response. The deferred
+ * content is reconciled with the fallback content so that, e.g., input elements that are part of
+ * both retain their state.
+ */
+export function resolveDeferred(id: string) {
+    const template = document.getElementById(`${id}-content`);
+    const deferred = document.getElementById(id);
+
+    if (!template || template.tagName.toLowerCase() !== "template") {
+        throw new Error(`Content of deferred element '${id}' not found.`);
+    }
+
+    template.remove();
+
+    // The deferred element might have been removed in the meantime, e.g., by a frame update.
+    if (!deferred || deferred.tagName.toLowerCase() !== "hy-deferred") {
+        log.warn(`Deferred element '${id}' not found.`);
+        return;
+    }
+
+    const newDeferred = deferred.cloneNode() as Element;
+    newDeferred.append((template as HTMLTemplateElement).content);
+    reconcile(deferred, newDeferred);
+}
@@ -0,0 +1,35 @@
+/** @jest-environment jsdom */
+
+import { resolveDeferred } from "@/browser/deferred.browser";
+
+describe("deferred", () => {
+    it("swaps in the deferred content", () => {
+        document.body.innerHTML =
+            '<hy-deferred id="d1"><p>loading</p><input value="a"></hy-deferred>' +
+            '<template id="d1-content"><p>content</p><input value="b"></template>';
+        const input = document.querySelector("input");
+
+        resolveDeferred("d1");
+
+        expect(document.body.innerHTML).toBe(
+            '<hy-deferred id="d1"><p>content</p><input value="b"></hy-deferred>',
+        );
+        expect(document.querySelector("input")).toBe(input);
+    });
+
+    it("ignores deferred elements that have been removed in the meantime", () => {
+        document.body.innerHTML = '<template id="d2-content"><p>content</p></template>';
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+        resolveDeferred("d2");
+
+        expect(document.body.innerHTML).toBe("");
+        expect(warn).toHaveBeenCalledWith("Deferred element 'd2' not found.");
+        warn.mockRestore();
+    });
+
+    it("throws if the deferred content is missing", () => {
+        document.body.innerHTML = '<hy-deferred id="d3">loading</hy-deferred>';
+        expect(() => resolveDeferred("d3")).toThrow("Content of deferred element 'd3' not found.");
+    });
+});
@@ -5,6 +5,7 @@ import {
     rootFrameId,
     updateFrame,
 } from "$/frame.browser";
+import type { HttpMethod } from "@/http/http-context";
 
 export type SubmissionOptions = {
     /** The URL that should be submitted to. */
@@ -37,24 +38,28 @@ export async function submitForm({
     let submissionSuccessful = false;
     const formFrameId = getFormFrameId(form);
 
-    await updateFrame(formFrameId, async (frame, signal) => {
-        response = await fetchFrame(frame, href, {
-            method: "POST",
-            body: createFormRequestBody(form, additionalData),
-            signal,
-        });
-
-        // If the server returned an error, update the form's frame with all of the validation errors
-        // found by the server. Otherwise, don't update the form's frame but the selected target frame
-        // down below. Note that we explicitly do this update outside of this `updateFrame` call to
-        // prevent a deadlock, as the inner `updateFrame` would wait for the outer `updateFrame` to
-        // complete when canceling frame child updates, but the outer `updateFrame` would also wait
-        // for the inner `updateFrame`, hence a deadlock.
-        submissionSuccessful = response.status < 300;
-        return submissionSuccessful
-            ? undefined
-            : await extractFrameFromResponse(frame, response, signal);
-    });
+    await updateFrame(
+        formFrameId,
+        async (frame, signal) => {
+            response = await fetchFrame(frame, href, {
+                method: "POST",
+                body: createFormRequestBody(form, additionalData),
+                signal,
+            });
+
+            // If the server returned an error, update the form's frame with all of the validation
+            // errors found by the server. Otherwise, don't update the form's frame but the selected
+            // target frame down below. Note that we explicitly do this update outside of this
+            // `updateFrame` call to prevent a deadlock, as the inner `updateFrame` would wait for
+            // the outer `updateFrame` to complete when canceling frame child updates, but the outer
+            // `updateFrame` would also wait for the inner `updateFrame`, hence a deadlock.
+            submissionSuccessful = response.status < 300;
+            return submissionSuccessful
+                ? undefined
+                : await extractFrameFromResponse(frame, response, signal);
+        },
+        { trigger: form },
+    );
 
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
     if (submissionSuccessful) {
@@ -66,8 +71,10 @@ export async function submitForm({
                 ?.parentElement?.closest("hy-frame")
                 ?.getAttribute("id") ?? rootFrameId;
 
-        await updateFrame(frameId, (frame, signal) =>
-            extractFrameFromResponse(frame, response, signal),
+        await updateFrame(
+            frameId,
+            (frame, signal) => extractFrameFromResponse(frame, response, signal),
+            { trigger: form },
         );
 
         // Only update the history if so configured. If nothing is specified, update the history by default
@@ -84,6 +91,8 @@ export async function submitForm({
 export type UpdateFormOptions = {
     /** The URL that should be used to render the updated form. */
     readonly href: string;
+    /** The HTTP method that should be used for the request to the server. Defaults to `POST`. */
+    readonly httpMethod?: Exclude<HttpMethod, "GET">;
     /** The form element that should be updated. */
     readonly form: HTMLFormElement;
     /**
@@ -96,6 +105,8 @@ export type UpdateFormOptions = {
     readonly markFieldsAsTouched?: "none" | "all" | "existing";
     /** URL-encoded additional route parameters that should be sent along with the form. */
     readonly additionalData?: string;
+    /** The element that triggered the update, which is marked as loading during the request. */
+    readonly trigger?: Element;
 };
 
 /**
@@ -105,29 +116,35 @@ export type UpdateFormOptions = {
  */
 export async function updateForm({
     href,
+    httpMethod = "POST",
     form,
     additionalData,
     markFieldsAsTouched,
+    trigger,
 }: UpdateFormOptions): Promise<"valid" | "invalid"> {
     let validationState: "valid" | "invalid" = undefined!;
 
-    await updateFrame(getFormFrameId(form), async (frame, signal) => {
-        const response = await fetchFrame(frame, href, {
-            method: "POST",
-            body: createFormRequestBody(form, additionalData),
-            signal,
-            headers: { "x-hy-validate-form": "true" },
-        });
-
-        validationState = response.status < 300 ? "valid" : "invalid";
-        const newFrame = await extractFrameFromResponse(frame, response, signal);
-
-        if (markFieldsAsTouched === "existing") {
-            forEachFormField(form, markAsTouched);
-        }
-
-        return newFrame;
-    });
+    await updateFrame(
+        getFormFrameId(form),
+        async (frame, signal) => {
+            const response = await fetchFrame(frame, href, {
+                method: httpMethod,
+                body: createFormRequestBody(form, additionalData),
+                signal,
+                headers: { "x-hy-validate-form": "true" },
+            });
+
+            validationState = response.status < 300 ? "valid" : "invalid";
+            const newFrame = await extractFrameFromResponse(frame, response, signal);
+
+            if (markFieldsAsTouched === "existing") {
+                forEachFormField(form, markAsTouched);
+            }
+
+            return newFrame;
+        },
+        { trigger },
+    );
 
     if (markFieldsAsTouched === "all") {
         forEachFormField(form, markAsTouched);
@@ -244,12 +261,37 @@ export function interceptForms() {
 
 /**
  * Assembles the body of a form request, submitting the form data in a special `$form` variable
- * understood by the server. Also supports sending additional route data in the body.
+ * understood by the server. Also supports sending additional route data in the body. Forms with
+ * selected files are sent as `multipart/form-data`, as files can't be URL encoded.
  */
 function createFormRequestBody(form: HTMLFormElement, additionalData?: string) {
+    // The CSRF token rendered into the form for native form submissions is not part of the form's
+    // state; HyTTS sends it via an HTTP header instead. File inputs without a selected file yield an
+    // empty, unnamed file that the server ignores, so they're omitted instead of requiring a
+    // multipart request.
+    const formData = [...new FormData(form)].filter(
+        ([name, value]) =>
+            name !== "$csrf" &&
+            (typeof value === "string" || value.name !== "" || value.size !== 0),
+    );
+
+    if (formData.some(([, value]) => typeof value !== "string")) {
+        const multipartData = new FormData();
+
+        for (const [name, value] of formData) {
+            multipartData.append("$form." + name, value);
+        }
+
+        for (const [name, value] of new URLSearchParams(additionalData)) {
+            multipartData.append(name, value);
+        }
+
+        return multipartData;
+    }
+
     const params = new URLSearchParams();
 
-    for (const [name, value] of new FormData(form)) {
+    for (const [name, value] of formData) {
         params.append("$form." + name, value as string);
     }
 
@@ -1,4 +1,5 @@
 import { log } from "$/log.browser";
+import { endProgress, startProgress } from "$/progress.browser";
 import { reconcile } from "$/reconcile.browser";
 
 /** The well-known id of the root frame, right below the document's body. */
@@ -10,6 +11,26 @@ export const rootFrameId = "root";
  */
 export type FrameId = string;
 
+/** Configures the loading state shown while a frame update is in progress. */
+export type FrameUpdateOptions = {
+    /**
+     * The element that triggered the update, e.g., a link, a button, or a form, which is marked as
+     * loading together with the frame.
+     */
+    readonly trigger?: Element;
+    /**
+     * If `true`, the frame's content is replaced by its loading placeholder, if it has one, until
+     * the update completes. The original content is restored if the update doesn't change the
+     * frame.
+     */
+    readonly showPlaceholder?: boolean;
+    /**
+     * If `true`, the update happens in the background, e.g., for periodic refreshes: Neither the
+     * frame nor the triggering element are marked as loading and the progress bar isn't shown.
+     */
+    readonly background?: boolean;
+};
+
 /**
  * Updates the contents of the frame with the element returned by the given callback. Ensures that
  * only one update can be in-flight concurrently for the frame. If a new update is issued before a
@@ -17,14 +38,21 @@ export type FrameId = string;
  * on the frame anymore and the new update is started immediately. After a successful update, all
  * pending updates for any of the frame's transitive child frames are aborted.
  *
+ * While the update is in progress, the frame and the triggering element have the `aria-busy` and
+ * `data-hy-loading` attributes, so that they can be styled accordingly, unless the update happens
+ * in the background. Additionally, the bubbling `hy:frame-update-start` and `hy:frame-update-end`
+ * events are raised on the frame, the latter carrying the update's error, if any, in its details.
+ *
  * @param frameId The id of the frame that should be updated.
  * @param getFrameElement A callback that returns the HTML element the frame should be updated with.
  *   If `undefined` is returned, the frame's content remains unmodified. The callback should use the
  *   given `AbortSignal` to abort the update as soon as possible once a newer update is started.
+ * @param options Configures the loading state shown while the update is in progress.
  */
 export function updateFrame(
     frameId: FrameId,
     getFrameElement: (frame: Element, abortSignal: AbortSignal) => Promise<Element | undefined>,
+    options?: FrameUpdateOptions,
 ): Promise<void> {
     const frame = document.getElementById(frameId);
     if (!frame || frame.tagName.toLowerCase() !== "hy-frame") {
@@ -48,15 +76,45 @@ export function updateFrame(
             (childFrame) => childFrame !== frame && frame.contains(childFrame),
         );
 
-        const newFrame = await getFrameElement(frame, abortController.signal);
+        const trigger = options?.trigger;
+        let restoreContent = options?.showPlaceholder ? showLoadingPlaceholder(frame) : undefined;
+        let error: unknown = undefined;
+
+        if (!options?.background) {
+            setLoadingState(frame, trigger, true);
+        }
+
+        frame.dispatchEvent(
+            new CustomEvent("hy:frame-update-start", { bubbles: true, detail: { trigger } }),
+        );
+
+        try {
+            const newFrame = await getFrameElement(frame, abortController.signal);
+
+            // Once the new frame content is available, reconcile the changes from the new frame and
+            // abort all child frame updates so that we reach a steady state again.
+            if (newFrame) {
+                abortController.signal.throwIfAborted();
 
-        // Once the new frame content is available, reconcile the changes from the new frame and abort
-        // all child frame updates so that we reach a steady state again.
-        if (newFrame) {
-            abortController.signal.throwIfAborted();
+                reconcile(frame, newFrame);
+                restoreContent = undefined;
+                await Promise.all(childFrames.map(abortPreviousUpdate));
+            }
+        } catch (e: unknown) {
+            error = e;
+            throw e;
+        } finally {
+            restoreContent?.();
+            if (!options?.background) {
+                setLoadingState(frame, trigger, false);
+            }
 
-            reconcile(frame, newFrame);
-            await Promise.all(childFrames.map(abortPreviousUpdate));
+            frame.dispatchEvent(
+                new CustomEvent("hy:frame-update-end", {
+                    bubbles: true,
+                    detail: { trigger, error },
+                }),
+            );
         }
     })();
 
@@ -64,6 +122,84 @@ export function updateFrame(
     return updateFramePromise;
 }
 
+/**
+ * Invokes `callback` for all frames that have the given attribute, both for the frames currently
+ * within the DOM and for frames that are added to the DOM or that get the attribute later on, e.g.,
+ * due to frame updates. The callback might be invoked multiple times for the same frame.
+ */
+export function observeFrames(attribute: string, callback: (frame: Element) => void) {
+    const selector = `hy-frame[${attribute}]`;
+    const observe = (root: Element | Document) => {
+        const frames = [...root.querySelectorAll(selector)];
+        if (root instanceof Element && root.matches(selector)) {
+            frames.push(root);
+        }
+
+        frames.forEach(callback);
+    };
+
+    new MutationObserver((mutations) => {
+        for (const mutation of mutations) {
+            if (mutation.type === "attributes" && mutation.target instanceof Element) {
+                observe(mutation.target);
+            }
+
+            mutation.addedNodes.forEach((node) => {
+                if (node instanceof Element) {
+                    observe(node);
+                }
+            });
+        }
+    }).observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributeFilter: [attribute],
+    });
+
+    observe(document);
+}
+
+/**
+ * Marks the frame and the element that triggered the frame's update as loading or not loading and
+ * updates the global progress indication accordingly.
+ */
+function setLoadingState(frame: Element, trigger: Element | undefined, isLoading: boolean) {
+    for (const element of trigger ? [frame, trigger] : [frame]) {
+        if (isLoading) {
+            element.setAttribute("aria-busy", "true");
+            element.setAttribute("data-hy-loading", "");
+        } else {
+            element.removeAttribute("aria-busy");
+            element.removeAttribute("data-hy-loading");
+        }
+    }
+
+    if (isLoading) {
+        startProgress();
+    } else {
+        endProgress();
+    }
+}
+
+/**
+ * Replaces the frame's content by the content of its loading placeholder template, if there is one.
+ * Returns a function that restores the original content.
+ */
+function showLoadingPlaceholder(frame: Element) {
+    const placeholder = [...frame.children].find(
+        (child) =>
+            child instanceof HTMLTemplateElement && child.hasAttribute("data-hy-placeholder"),
+    );
+
+    if (!(placeholder instanceof HTMLTemplateElement)) {
+        return undefined;
+    }
+
+    const content = [...frame.childNodes];
+    frame.replaceChildren(placeholder, placeholder.content.cloneNode(true));
+    return () => frame.replaceChildren(...content);
+}
+
 /**
  * Maps an element representing a frame to the abort controller of the last frame update. Using a
  * weak map ensures that there are no memory leaks when the frame element is eventually removed from
@@ -95,18 +231,37 @@ async function abortPreviousUpdate(frame: Element) {
 
 /**
  * Wraps the `fetch` function, raising the `hy:fetch-error` event on the frame if the browser seems
- * to be unable to reach the server (no internet connection, server is down, ...).
+ * to be unable to reach the server (no internet connection, server is down, ...). GET responses
+ * carrying an ETag or a last modification date are cached, so that the server can answer subsequent
+ * requests for the same frame and URL with a "304 - not modified" status code, in which case the
+ * cached response is reused.
  */
 export async function fetchFrame(frame: Element, url: string, fetchOptions: RequestInit) {
+    const isGetRequest = !fetchOptions.method || fetchOptions.method === "GET";
+    const cacheKey = `${frame.getAttribute("id")}:${url}`;
+    const cachedResponse = isGetRequest ? frameResponseCache.get(cacheKey) : undefined;
+
+    // The session's CSRF token is rendered into the document's head by the `CsrfToken` component.
+    const csrfToken = isGetRequest
+        ? undefined
+        : document.querySelector<HTMLMetaElement>('meta[name="hy-csrf-token"]')?.content;
+
+    let response: Response;
     try {
-        return await fetch(url, {
+        response = await fetch(url, {
             ...fetchOptions,
+            // Frame responses must not end up in the browser's HTTP cache, as the browser would
+            // otherwise confuse them with full page responses for the same URL.
+            ...(isGetRequest ? { cache: "no-store" } : {}),
             headers: {
                 ...fetchOptions.headers,
                 // see https://cheatsheetseries.owasp.org/cheatsheets/Cross-Site_Request_Forgery_Prevention_Cheat_Sheet.html#use-of-custom-request-headers
                 "x-hy": "true",
                 "x-hy-frame-id": frame.getAttribute("id") ?? "error: unknown frame id",
-                ...(!fetchOptions.method || fetchOptions.method === "GET"
+                ...(csrfToken ? { "x-hy-csrf": csrfToken } : {}),
+                ...getConditionalRequestHeaders(cachedResponse),
+                // For `FormData` bodies, the browser sets the multipart content type and boundary.
+                ...(isGetRequest || fetchOptions.body instanceof FormData
                     ? {}
                     : { "content-type": "application/x-www-form-urlencoded" }),
             },
@@ -127,6 +282,82 @@ export async function fetchFrame(frame: Element, url: string, fetchOptions: Requ
         // Rethrow the error to abort the frame update.
         throw error;
     }
+
+    return isGetRequest ? await cacheFrameResponse(cacheKey, cachedResponse, response) : response;
+}
+
+type CachedFrameResponse = {
+    readonly html: string;
+    readonly headers: Headers;
+    readonly cspNonce: string | undefined;
+};
+
+/**
+ * Caches the most recent responses of frame GET requests that can be revalidated, with the least
+ * recently used ones being evicted first.
+ */
+const frameResponseCache = new Map<string, CachedFrameResponse>();
+const maxCachedFrameResponses = 50;
+
+function getConditionalRequestHeaders(cachedResponse: CachedFrameResponse | undefined) {
+    const etag = cachedResponse?.headers.get("etag");
+    const lastModified = cachedResponse?.headers.get("last-modified");
+
+    return {
+        ...(etag ? { "if-none-match": etag } : {}),
+        ...(lastModified ? { "if-modified-since": lastModified } : {}),
+    };
+}
+
+/**
+ * Replaces a "304 - not modified" response with the cached response, or updates the cache with the
+ * given response, if it can be revalidated later on. The cached HTML still carries the CSP nonce of
+ * the request it was originally rendered for, which is replaced by the nonce of the current
+ * request, so that the replayed HTML is the same as if the server had sent it again.
+ */
+async function cacheFrameResponse(
+    cacheKey: string,
+    cachedResponse: CachedFrameResponse | undefined,
+    response: Response,
+) {
+    frameResponseCache.delete(cacheKey);
+
+    if (response.status === 304 && cachedResponse) {
+        const cspNonce = getCspNonce(response.headers);
+        const html =
+            cachedResponse.cspNonce && cspNonce
+                ? cachedResponse.html.replaceAll(cachedResponse.cspNonce, cspNonce)
+                : cachedResponse.html;
+
+        frameResponseCache.set(cacheKey, { ...cachedResponse, html, cspNonce });
+        return new Response(html, { status: 200, headers: cachedResponse.headers });
+    }
+
+    if (
+        response.status === 200 &&
+        !response.redirected &&
+        (response.headers.has("etag") || response.headers.has("last-modified"))
+    ) {
+        frameResponseCache.set(cacheKey, {
+            html: await response.clone().text(),
+            headers: response.headers,
+            cspNonce: getCspNonce(response.headers),
+        });
+
+        if (frameResponseCache.size > maxCachedFrameResponses) {
+            frameResponseCache.delete(frameResponseCache.keys().next().value);
+        }
+    }
+
+    return response;
+}
+
+/** Extracts the request's CSP nonce from the response's content security policy, if any. */
+function getCspNonce(headers: Headers) {
+    const policy =
+        headers.get("content-security-policy") ??
+        headers.get("content-security-policy-report-only");
+    return policy?.match(/'nonce-([^']+)'/)?.[1];
 }
 
 /**
@@ -0,0 +1,206 @@
+/** @jest-environment jsdom */
+
+import { fetchFrame, updateFrame } from "@/browser/frame.browser";
+import { createFrame } from "@/dom/frame";
+import { ProgressBar } from "@/dom/progress-bar";
+import { renderToString } from "@/jsx/jsx-runtime";
+
+describe("frame", () => {
+    function parseFrame(html: string) {
+        const template = document.createElement("template");
+        template.innerHTML = html;
+        return template.content.firstElementChild!;
+    }
+
+    function createUpdate(html: string) {
+        let resolve: () => void = undefined!;
+        let reject: (error: unknown) => void = undefined!;
+        const promise = new Promise<void>((res, rej) => {
+            resolve = res;
+            reject = rej;
+        });
+
+        return {
+            getFrameElement: async () => {
+                await promise;
+                return parseFrame(html);
+            },
+            resolve,
+            reject,
+        };
+    }
+
+    /** Starts the frame update, waiting for the frame to be marked as loading. */
+    async function startUpdate(...args: Parameters<typeof updateFrame>) {
+        const started = new Promise((resolve) =>
+            document.addEventListener("hy:frame-update-start", resolve, { once: true }),
+        );
+        const promise = updateFrame(...args);
+        await started;
+        return { promise };
+    }
+
+    it("marks the frame and the triggering element as loading", async () => {
+        document.body.innerHTML = '<button>go</button><hy-frame id="f1">old</hy-frame>';
+        const frame = document.getElementById("f1")!;
+        const button = document.querySelector("button")!;
+        const events: string[] = [];
+        frame.addEventListener("hy:frame-update-start", (e) =>
+            events.push(`start ${(e as CustomEvent).detail.trigger === button}`),
+        );
+        document.addEventListener("hy:frame-update-end", (e) =>
+            events.push(`end ${(e as CustomEvent).detail.error}`),
+        );
+
+        const update = createUpdate('<hy-frame id="f1">new</hy-frame>');
+        const { promise } = await startUpdate("f1", update.getFrameElement, { trigger: button });
+
+        expect(frame.getAttribute("aria-busy")).toBe("true");
+        expect(frame.hasAttribute("data-hy-loading")).toBe(true);
+        expect(button.getAttribute("aria-busy")).toBe("true");
+        expect(button.hasAttribute("data-hy-loading")).toBe(true);
+        expect(events).toStrictEqual(["start true"]);
+
+        update.resolve();
+        await promise;
+
+        expect(frame.outerHTML).toBe('<hy-frame id="f1">new</hy-frame>');
+        expect(button.outerHTML).toBe("<button>go</button>");
+        expect(events).toStrictEqual(["start true", "end undefined"]);
+
+        const failingUpdate = createUpdate("");
+        const failingPromise = updateFrame("f1", failingUpdate.getFrameElement);
+        failingUpdate.reject(new Error("failed"));
+        await expect(failingPromise).rejects.toThrow("failed");
+
+        expect(frame.hasAttribute("aria-busy")).toBe(false);
+        expect(events).toStrictEqual([
+            "start true",
+            "end undefined",
+            "start false",
+            "end Error: failed",
+        ]);
+    });
+
+    it("shows the frame's loading placeholder", async () => {
+        const Frame = createFrame("f2");
+        document.body.innerHTML = await renderToString(
+            <Frame loadingPlaceholder={<p>loading</p>}>
+                <p>old</p>
+            </Frame>,
+        );
+        const frame = document.getElementById("f2")!;
+        const placeholder = '<template data-hy-placeholder="true"><p>loading</p></template>';
+
+        const update = createUpdate(`<hy-frame id="f2">${placeholder}<p>new</p></hy-frame>`);
+        const { promise } = await startUpdate("f2", update.getFrameElement, {
+            showPlaceholder: true,
+        });
+        expect(frame.innerHTML).toBe(`${placeholder}<p>loading</p>`);
+
+        update.resolve();
+        await promise;
+        expect(frame.innerHTML).toBe(`${placeholder}<p>new</p>`);
+
+        const unchangedPromise = updateFrame(
+            "f2",
+            async () => {
+                expect(frame.innerHTML).toBe(`${placeholder}<p>loading</p>`);
+                return Promise.resolve(undefined);
+            },
+            { showPlaceholder: true },
+        );
+        await unchangedPromise;
+        expect(frame.innerHTML).toBe(`${placeholder}<p>new</p>`);
+
+        await updateFrame("f2", async () => {
+            expect(frame.innerHTML).toBe(`${placeholder}<p>new</p>`);
+            return Promise.resolve(undefined);
+        });
+    });
+
+    it("replaces the CSP nonce of cached frame responses", async () => {
+        // jsdom implements neither `fetch` nor `Response`, so we have to simulate them.
+        window.Response = class {
+            public readonly status: number;
+            public readonly redirected = false;
+            public readonly headers: Map<string, string>;
+
+            public constructor(
+                private readonly body: string | null,
+                init?: { status?: number; headers?: Record<string, string> | Map<string, string> },
+            ) {
+                this.status = init?.status ?? 200;
+                this.headers = new Map(
+                    init?.headers instanceof Map
+                        ? init.headers
+                        : Object.entries(init?.headers ?? {}),
+                );
+            }
+
+            public text() {
+                return Promise.resolve(this.body ?? "");
+            }
+
+            public clone() {
+                return this;
+            }
+        } as unknown as typeof Response;
+
+        const responses = [
+            new Response('<script nonce="n1"></script>', {
+                headers: { etag: '"v1"', "content-security-policy": "script-src 'nonce-n1'" },
+            }),
+            new Response(null, {
+                status: 304,
+                headers: { etag: '"v1"', "content-security-policy": "script-src 'nonce-n2'" },
+            }),
+        ];
+        const requestHeaders: unknown[] = [];
+        window.fetch = (_, init) => {
+            requestHeaders.push(init?.headers);
+            return Promise.resolve(responses.shift()!);
+        };
+
+        const frame = parseFrame('<hy-frame id="f5"></hy-frame>');
+        expect(await (await fetchFrame(frame, "/f5", {})).text()).toBe(
+            '<script nonce="n1"></script>',
+        );
+        expect(await (await fetchFrame(frame, "/f5", {})).text()).toBe(
+            '<script nonce="n2"></script>',
+        );
+        expect(requestHeaders[1]).toMatchObject({ "if-none-match": '"v1"' });
+    });
+
+    it("shows the progress bar after the configured delay", async () => {
+        jest.useFakeTimers();
+        try {
+            document.head.innerHTML = await renderToString(<ProgressBar delay={100} />);
+            document.body.innerHTML =
+                '<hy-frame id="f3">old</hy-frame><hy-frame id="f4"></hy-frame>';
+
+            const update = createUpdate('<hy-frame id="f3">new</hy-frame>');
+            const otherUpdate = createUpdate('<hy-frame id="f4">new</hy-frame>');
+            const { promise } = await startUpdate("f3", update.getFrameElement);
+            const { promise: otherPromise } = await startUpdate("f4", otherUpdate.getFrameElement);
+
+            jest.advanceTimersByTime(99);
+            expect(document.querySelector("hy-progress-bar")).toBeNull();
+            jest.advanceTimersByTime(1);
+            expect(document.querySelector("hy-progress-bar")?.getAttribute("role")).toBe(
+                "progressbar",
+            );
+
+            update.resolve();
+            await promise;
+            expect(document.querySelector("hy-progress-bar")).not.toBeNull();
+
+            otherUpdate.resolve();
+            await otherPromise;
+            expect(document.querySelector("hy-progress-bar")).toBeNull();
+        } finally {
+            jest.useRealTimers();
+            document.head.innerHTML = "";
+        }
+    });
+});
@@ -0,0 +1,48 @@
+import { extractFrameFromResponse, fetchFrame, observeFrames, updateFrame } from "$/frame.browser";
+
+/**
+ * Maps each frame to the `src` URL it has been loaded from. A frame is loaded only once per URL, so
+ * that a route that accidentally renders the frame with the same `src` again doesn't lead to an
+ * endless loop of frame updates.
+ */
+const loadedSources = new WeakMap<Element, string>();
+
+/**
+ * Loads the content of all frames with a `data-hy-src` attribute. Frames with a `data-hy-eager`
+ * attribute are loaded immediately, all others once they become visible within the viewport. Frames
+ * added to the DOM later on, e.g., by frame updates, are loaded as well.
+ */
+export function loadFrameSources() {
+    const intersectionObserver = new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+            if (entry.isIntersecting || !entry.target.isConnected) {
+                intersectionObserver.unobserve(entry.target);
+            }
+
+            if (entry.isIntersecting) {
+                loadFrame(entry.target);
+            }
+        }
+    });
+
+    observeFrames("data-hy-src", (frame) => {
+        if (frame.hasAttribute("data-hy-eager")) {
+            loadFrame(frame);
+        } else {
+            intersectionObserver.observe(frame);
+        }
+    });
+}
+
+function loadFrame(frame: Element) {
+    const src = frame.getAttribute("data-hy-src");
+    if (!src || !frame.isConnected || loadedSources.get(frame) === src) {
+        return;
+    }
+
+    loadedSources.set(frame, src);
+    void updateFrame(frame.id, async (frame, signal) => {
+        const response = await fetchFrame(frame, src, { signal });
+        return await extractFrameFromResponse(frame, response, signal);
+    });
+}
@@ -0,0 +1,107 @@
+/** @jest-environment jsdom */
+
+import { loadFrameSources } from "@/browser/lazy-frame.browser";
+import { createFrame } from "@/dom/frame";
+import { renderToString } from "@/jsx/jsx-runtime";
+import { getHrefs, type Href } from "@/routing/href";
+import { routes } from "@/routing/router";
+
+describe("lazy-frame", () => {
+    const LazyFrame = createFrame("lazy");
+    const EagerFrame = createFrame("eager");
+    const rs = routes({
+        "GET /lazy": () => <>lazy</>,
+        "GET /eager": () => <>eager</>,
+    });
+    const href = getHrefs<typeof rs>();
+
+    // jsdom implements neither `IntersectionObserver` nor `fetch`, so we have to simulate them.
+    const observedElements = new Set<Element>();
+    let intersect: (element: Element) => void = undefined!;
+    const requestedUrls: string[] = [];
+
+    window.IntersectionObserver = class {
+        public constructor(callback: IntersectionObserverCallback) {
+            intersect = (target) =>
+                callback(
+                    [{ target, isIntersecting: true } as IntersectionObserverEntry],
+                    this as unknown as IntersectionObserver,
+                );
+        }
+
+        public observe(element: Element) {
+            observedElements.add(element);
+        }
+
+        public unobserve(element: Element) {
+            observedElements.delete(element);
+        }
+    } as unknown as typeof IntersectionObserver;
+
+    window.fetch = (url) => {
+        requestedUrls.push(String(url));
+        const id = String(url).slice(1);
+        return Promise.resolve({
+            status: 200,
+            redirected: false,
+            headers: { get: () => "text/html", has: () => false },
+            text: () => Promise.resolve(`<hy-frame id="${id}">loaded ${id}</hy-frame>`),
+        } as unknown as Response);
+    };
+
+    loadFrameSources();
+
+    async function render(src: Href<"GET">, loading: "lazy" | "eager") {
+        const Frame = loading === "lazy" ? LazyFrame : EagerFrame;
+        const html = await renderToString(
+            <Frame src={src} loading={loading}>
+                loading
+            </Frame>,
+        );
+        document.body.insertAdjacentHTML("beforeend", html);
+        // Wait for the mutation observer to be notified.
+        await Promise.resolve();
+        return document.getElementById(loading)!;
+    }
+
+    async function waitForUpdate(frame: Element) {
+        await new Promise((resolve) =>
+            frame.addEventListener("hy:frame-update-end", resolve, { once: true }),
+        );
+    }
+
+    it("renders the frame's source", async () => {
+        expect(
+            await renderToString(
+                <EagerFrame src={href("GET /eager")} loading="eager">
+                    loading
+                </EagerFrame>,
+            ),
+        ).toBe('<hy-frame id="eager" data-hy-src="/eager" data-hy-eager="true">loading</hy-frame>');
+    });
+
+    it("loads lazy frames once they become visible", async () => {
+        const frame = await render(href("GET /lazy"), "lazy");
+        expect(observedElements.has(frame)).toBe(true);
+        expect(requestedUrls).toStrictEqual([]);
+
+        const updated = waitForUpdate(frame);
+        intersect(frame);
+        await updated;
+
+        expect(requestedUrls).toStrictEqual(["/lazy"]);
+        expect(observedElements.has(frame)).toBe(false);
+        expect(frame.outerHTML).toBe('<hy-frame id="lazy">loaded lazy</hy-frame>');
+    });
+
+    it("loads eager frames immediately", async () => {
+        requestedUrls.length = 0;
+        const updated = waitForUpdate(document.body);
+        const frame = await render(href("GET /eager"), "eager");
+        await updated;
+
+        expect(requestedUrls).toStrictEqual(["/eager"]);
+        expect(observedElements.has(frame)).toBe(false);
+        expect(frame.outerHTML).toBe('<hy-frame id="eager">loaded eager</hy-frame>');
+    });
+});
@@ -1,7 +1,10 @@
+import { resolveDeferred } from "$/deferred.browser";
 import { addEventListener } from "$/events.browser";
 import { interceptForms, submitForm } from "$/form.browser";
 import { updateFrame } from "$/frame.browser";
+import { loadFrameSources } from "$/lazy-frame.browser";
 import { interceptClicks, interceptHistoryChanges, navigateTo } from "$/navigation.browser";
+import { refreshFrames } from "$/refresh.browser";
 
 export function initialize() {
     (window as any).hy = externalApi;
@@ -9,6 +12,8 @@ export function initialize() {
     interceptClicks();
     interceptForms();
     interceptHistoryChanges();
+    loadFrameSources();
+    refreshFrames();
 }
 
 export const externalApi = {
@@ -16,4 +21,5 @@ export const externalApi = {
     updateFrame,
     addEventListener,
     submitForm,
+    resolveDeferred,
 } as const;
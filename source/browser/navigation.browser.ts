@@ -27,6 +27,8 @@ export type NavigationOptions = {
     readonly updateHistory?: boolean;
     /** Selects the frame that should be updated. */
     readonly frameId: FrameId;
+    /** The element that triggered the navigation, which is marked as loading during the request. */
+    readonly trigger?: Element;
 };
 
 /**
@@ -58,21 +60,28 @@ export async function navigateTo({
     updateHistory,
     historyHref,
     frameId,
+    trigger,
 }: NavigationOptions): Promise<void> {
     // Only update the history if so configured. If nothing is specified, update the history by default
     // for the root frame, but not for all other frames.
     updateHistory ??= frameId === rootFrameId;
 
     let response: Response = undefined!;
-    await updateFrame(frameId, async (frame, signal) => {
-        response = await fetchFrame(frame, href, {
-            method: httpMethod,
-            body: httpMethod === "GET" ? undefined : bodyParams,
-            signal,
-        });
-
-        return await extractFrameFromResponse(frame, response, signal);
-    });
+    await updateFrame(
+        frameId,
+        async (frame, signal) => {
+            response = await fetchFrame(frame, href, {
+                method: httpMethod,
+                body: httpMethod === "GET" ? undefined : bodyParams,
+                signal,
+            });
+
+            return await extractFrameFromResponse(frame, response, signal);
+        },
+        // Loading placeholders are only shown for GET requests, where the frame's content is
+        // expected to be replaced.
+        { trigger, showPlaceholder: httpMethod === "GET" },
+    );
 
     if (updateHistory) {
         history.pushState(null, "", historyHref ?? (response.redirected ? response.url : href));
@@ -87,9 +96,9 @@ export type DomNavigationOptions = {
      */
     readonly hyFrame?: FrameId;
     /**
-     * The URL of the route that should be navigated to. This is required for buttons and optional
-     * for anchors, whose `href` attribute takes precedence. Specified on the target element with
-     * the `data-hy-url` attribute.
+     * The URL of the route that should be navigated to. This is required for buttons not updating a
+     * form and optional for anchors, whose `href` attribute takes precedence. Specified on the
+     * target element with the `data-hy-url` attribute.
      */
     readonly hyUrl?: string;
     /**
@@ -151,8 +160,14 @@ export function interceptClicks() {
         e.preventDefault();
 
         const method = options.hyMethod;
+        // Buttons updating a form, such as the buttons modifying form arrays, use the form's
+        // validation route if they don't specify a URL of their own.
         const href =
-            (target instanceof HTMLAnchorElement ? target.href : undefined) ?? options.hyUrl;
+            (target instanceof HTMLAnchorElement ? target.href : undefined) ??
+            options.hyUrl ??
+            (options.hyForm
+                ? document.getElementById(options.hyForm)?.dataset.hyValidate
+                : undefined);
 
         if (!href) {
             throw new Error("Unknown navigation URL.");
@@ -168,6 +183,7 @@ export function interceptClicks() {
                     frameId: options.hyFrame,
                     href,
                     httpMethod: "GET",
+                    trigger: target,
                     updateHistory:
                         // We have to explicitly pass through the `undefined` so that the root frame
                         // logic kicks in.
@@ -177,6 +193,9 @@ export function interceptClicks() {
                 });
                 break;
             case "POST":
+            case "PUT":
+            case "PATCH":
+            case "DELETE":
                 if (options.hyForm) {
                     const form = document.getElementById(options.hyForm);
                     if (!form || !(form instanceof HTMLFormElement)) {
@@ -185,18 +204,21 @@ export function interceptClicks() {
 
                     void updateForm({
                         href,
+                        httpMethod: method,
                         form,
                         additionalData: options.hyBody,
                         markFieldsAsTouched: options.hyMarkAsTouched,
+                        trigger: target,
                     });
                 } else {
                     void navigateTo({
                         frameId: options.hyFrame,
                         href,
-                        httpMethod: "POST",
+                        httpMethod: method,
                         bodyParams: options.hyBody,
                         updateHistory: !!options.hyUpdateHistory,
                         historyHref: options.hyUpdateHistory,
+                        trigger: target,
                     });
                 }
                 break;
@@ -0,0 +1,58 @@
+/** The number of frame updates that are currently in progress. */
+let pendingUpdates = 0;
+let showTimeout: ReturnType<typeof setTimeout> | undefined = undefined;
+let progressBar: HTMLElement | undefined = undefined;
+
+/**
+ * Notes that a frame update has started. If the document's head contains the `hy-progress-bar` meta
+ * tag, the progress bar is shown once updates have been in progress for the configured delay.
+ */
+export function startProgress() {
+    if (pendingUpdates++ !== 0) {
+        return;
+    }
+
+    const delay = document.querySelector<HTMLMetaElement>('meta[name="hy-progress-bar"]')?.content;
+    if (delay !== undefined) {
+        showTimeout = setTimeout(showProgressBar, Number(delay));
+    }
+}
+
+/** Notes that a frame update has ended, hiding the progress bar once no updates are left. */
+export function endProgress() {
+    if (--pendingUpdates !== 0) {
+        return;
+    }
+
+    clearTimeout(showTimeout);
+    showTimeout = undefined;
+    progressBar?.remove();
+    progressBar = undefined;
+}
+
+/**
+ * Shows the progress bar at the top of the viewport. The bar is styled via the CSSOM, as inline
+ * `style` attributes are typically forbidden by the content security policy. Its color can be
+ * changed via the `--hy-progress-bar-color` CSS variable.
+ */
+function showProgressBar() {
+    progressBar = document.createElement("hy-progress-bar");
+    progressBar.setAttribute("role", "progressbar");
+    progressBar.setAttribute("aria-label", "Loading");
+    Object.assign(progressBar.style, {
+        position: "fixed",
+        top: "0",
+        left: "0",
+        zIndex: "2147483647",
+        height: "3px",
+        width: "0",
+        background: "var(--hy-progress-bar-color, #2563eb)",
+        transition: "width 10s cubic-bezier(0.1, 0.8, 0.2, 1)",
+    });
+
+    // The bar is added outside of the root frame so that it isn't affected by reconciliation. We
+    // have to force a layout before changing the width, as the transition wouldn't start otherwise.
+    document.body.append(progressBar);
+    progressBar.getBoundingClientRect();
+    progressBar.style.width = "90%";
+}
@@ -0,0 +1,76 @@
+import { extractFrameFromResponse, fetchFrame, observeFrames, updateFrame } from "$/frame.browser";
+
+/** The maximum exponent of the back-off factor applied to the interval after failed refreshes. */
+const maxBackOffExponent = 5;
+
+/** Contains all frames that are currently refreshed periodically. */
+const refreshedFrames = new WeakSet<Element>();
+
+/**
+ * Periodically refreshes all frames with a `data-hy-refresh-src` attribute, using the number of
+ * seconds given by the `data-hy-refresh-interval` attribute. Frames are refreshed until they're
+ * removed from the DOM or until they no longer have the attributes. Refreshes happen in the
+ * background, so the frames aren't marked as loading.
+ */
+export function refreshFrames() {
+    observeFrames("data-hy-refresh-src", startRefreshing);
+}
+
+function startRefreshing(frame: Element) {
+    if (refreshedFrames.has(frame)) {
+        return;
+    }
+
+    refreshedFrames.add(frame);
+    let failedRefreshes = 0;
+
+    const scheduleRefresh = () => {
+        const interval = Number(frame.getAttribute("data-hy-refresh-interval"));
+        if (!frame.isConnected || !frame.hasAttribute("data-hy-refresh-src") || !(interval > 0)) {
+            refreshedFrames.delete(frame);
+            return;
+        }
+
+        const backOffFactor = 2 ** Math.min(failedRefreshes, maxBackOffExponent);
+        setTimeout(() => void refresh(), interval * backOffFactor * 1000);
+    };
+
+    const refresh = async () => {
+        const src = frame.getAttribute("data-hy-refresh-src");
+        if (src && frame.isConnected && !document.hidden && !isEditingForm(frame)) {
+            const state = { fetchFailed: false };
+            const onFetchError = () => (state.fetchFailed = true);
+            frame.addEventListener("hy:fetch-error", onFetchError);
+
+            try {
+                // `updateFrame` aborts the refresh if the frame is updated in some other way in the
+                // meantime, so that an outdated refresh can never overwrite newer content.
+                await updateFrame(
+                    frame.id,
+                    async (frame, signal) => {
+                        const response = await fetchFrame(frame, src, { signal });
+                        return await extractFrameFromResponse(frame, response, signal);
+                    },
+                    { background: true },
+                );
+            } catch {
+                // Errors are already reported via the `hy:fetch-error` event, and aborted refreshes
+                // are expected; in either case, we simply try again later on.
+            } finally {
+                frame.removeEventListener("hy:fetch-error", onFetchError);
+            }
+
+            failedRefreshes = state.fetchFailed ? failedRefreshes + 1 : 0;
+        }
+
+        scheduleRefresh();
+    };
+
+    scheduleRefresh();
+}
+
+/** Checks whether the user is currently editing a form field within the frame. */
+function isEditingForm(frame: Element) {
+    const element = document.activeElement;
+    return !!element && frame.contains(element) && !!element.closest("form");
+}
@@ -0,0 +1,144 @@
+/** @jest-environment jsdom */
+
+import { refreshFrames } from "@/browser/refresh.browser";
+import { createFrame } from "@/dom/frame";
+import { renderToString } from "@/jsx/jsx-runtime";
+import type { JsxNode } from "@/jsx/jsx-types";
+import { getHrefs } from "@/routing/href";
+import { routes } from "@/routing/router";
+
+describe("refresh", () => {
+    const Frame = createFrame("status");
+    const rs = routes({ "GET /status": () => <>status</> });
+    const href = getHrefs<typeof rs>();
+
+    // jsdom doesn't implement `fetch`, so we have to simulate it.
+    let version = 0;
+    let isOffline = false;
+    window.fetch = () => {
+        if (isOffline) {
+            return Promise.reject(new TypeError("offline"));
+        }
+
+        const html = `<hy-frame id="status" data-hy-refresh-src="/status" data-hy-refresh-interval="1">${++version}</hy-frame>`;
+        return Promise.resolve({
+            status: 200,
+            redirected: false,
+            headers: { get: () => "text/html", has: () => false },
+            text: () => Promise.resolve(html),
+        } as unknown as Response);
+    };
+
+    refreshFrames();
+
+    async function render(children: JsxNode) {
+        version = 0;
+        document.body.innerHTML = await renderToString(
+            <Frame refresh={{ href: href("GET /status"), interval: 1 }}>{children}</Frame>,
+        );
+        // Wait for the mutation observer to be notified.
+        await Promise.resolve();
+        return document.getElementById("status")!;
+    }
+
+    async function runTest(test: () => Promise<void>) {
+        jest.useFakeTimers();
+        try {
+            await test();
+        } finally {
+            document.body.innerHTML = "";
+            await jest.runOnlyPendingTimersAsync();
+            jest.useRealTimers();
+        }
+    }
+
+    it("renders the refresh options", async () => {
+        expect(
+            await renderToString(
+                <Frame refresh={{ href: href("GET /status"), interval: 5 }}>0</Frame>,
+            ),
+        ).toBe(
+            '<hy-frame id="status" data-hy-refresh-src="/status" data-hy-refresh-interval="5">0</hy-frame>',
+        );
+    });
+
+    it("refreshes the frame periodically until it is removed", () =>
+        runTest(async () => {
+            const frame = await render("0");
+
+            await jest.advanceTimersByTimeAsync(999);
+            expect(frame.textContent).toBe("0");
+            await jest.advanceTimersByTimeAsync(1);
+            expect(frame.textContent).toBe("1");
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(frame.textContent).toBe("2");
+
+            frame.remove();
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(version).toBe(2);
+        }));
+
+    it("refreshes the frame without marking it as loading", () =>
+        runTest(async () => {
+            const frame = await render("0");
+            const loadingStates: boolean[] = [];
+            frame.addEventListener("hy:frame-update-start", () =>
+                loadingStates.push(frame.hasAttribute("aria-busy")),
+            );
+
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(frame.textContent).toBe("1");
+            expect(loadingStates).toStrictEqual([false]);
+            expect(frame.hasAttribute("data-hy-loading")).toBe(false);
+        }));
+
+    it("pauses while the tab is hidden or a form field is edited", () =>
+        runTest(async () => {
+            const frame = await render(
+                <form>
+                    <input />
+                </form>,
+            );
+
+            Object.defineProperty(document, "hidden", { value: true, configurable: true });
+            await jest.advanceTimersByTimeAsync(3000);
+            expect(version).toBe(0);
+
+            Object.defineProperty(document, "hidden", { value: false, configurable: true });
+            frame.querySelector("input")!.focus();
+            await jest.advanceTimersByTimeAsync(3000);
+            expect(version).toBe(0);
+
+            frame.querySelector("input")!.blur();
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(version).toBe(1);
+        }));
+
+    it("backs off while the server is unreachable", () =>
+        runTest(async () => {
+            const frame = await render("0");
+            const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+            const fetchErrors: unknown[] = [];
+            frame.addEventListener("hy:fetch-error", (e) => fetchErrors.push(e));
+
+            isOffline = true;
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(fetchErrors).toHaveLength(1);
+            await jest.advanceTimersByTimeAsync(1999);
+            expect(fetchErrors).toHaveLength(1);
+            await jest.advanceTimersByTimeAsync(1);
+            expect(fetchErrors).toHaveLength(2);
+
+            isOffline = false;
+            await jest.advanceTimersByTimeAsync(4000);
+            expect(frame.textContent).toBe("1");
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(frame.textContent).toBe("2");
+
+            // The next update of the frame logs the error of the previous, failed update.
+            expect(warn).toHaveBeenCalledWith(
+                "An error occurred in an aborted frame update: TypeError: offline",
+            );
+            warn.mockRestore();
+        }));
+});
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { Cache, CacheStoreProvider, LruCacheStore } from "@/dom/cache";
+import { useCsrfToken } from "@/http/http-context";
+import { createBrowserScript, Script } from "@/jsx/browser-script";
+import { CspNonceContext, useCspNonce } from "@/jsx/csp-nonce";
+import { renderToString } from "@/jsx/jsx-runtime";
+import type { PropsWithChildren } from "@/jsx/jsx-types";
+import { UniqueNameProvider, useUniqueName } from "@/jsx/unique-name";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { route, Router, routes } from "@/routing/router";
+
+describe("cache", () => {
+    function createCounter() {
+        let renderCount = 0;
+        return () => <>{++renderCount}</>;
+    }
+
+    it("reuses the cached HTML until it expires", async () => {
+        const store = new LruCacheStore();
+        const Counter = createCounter();
+        const render = (cacheKey: string, vary: unknown[] = [], ttl = 60) =>
+            renderToString(
+                <CacheStoreProvider store={store}>
+                    <Cache cacheKey={cacheKey} ttl={ttl} vary={vary}>
+                        <Counter />
+                    </Cache>
+                </CacheStoreProvider>,
+            );
+
+        expect(await render("a")).toBe("1");
+        expect(await render("a")).toBe("1");
+        expect(await render("b")).toBe("2");
+        expect(await render("a", ["user"])).toBe("3");
+        expect(await render("a", ["user"])).toBe("3");
+        expect(await render("c", [], 0)).toBe("4");
+        expect(await render("c", [], 0)).toBe("5");
+    });
+
+    it("evicts the least recently used fragments", async () => {
+        const store = new LruCacheStore(2);
+        const Counter = createCounter();
+        const render = (cacheKey: string) =>
+            renderToString(
+                <CacheStoreProvider store={store}>
+                    <Cache cacheKey={cacheKey} ttl={60}>
+                        <Counter />
+                    </Cache>
+                </CacheStoreProvider>,
+            );
+
+        expect(await render("a")).toBe("1");
+        expect(await render("b")).toBe("2");
+        expect(await render("a")).toBe("1");
+        expect(await render("c")).toBe("3");
+        expect(await render("a")).toBe("1");
+        expect(await render("b")).toBe("4");
+    });
+
+    it("replaces the CSP nonce and unique names of the cached HTML", async () => {
+        const store = new LruCacheStore();
+        const Root = (props: PropsWithChildren<{ nonce: string; namespace: string }>) => (
+            <CacheStoreProvider store={store}>
+                <CspNonceContext value={props.nonce}>
+                    <UniqueNameProvider namespace={props.namespace}>
+                        <Name />|{props.children}
+                    </UniqueNameProvider>
+                </CspNonceContext>
+            </CacheStoreProvider>
+        );
+        const Name = () => <>{useUniqueName()}</>;
+        const Content = () => (
+            <>
+                {useUniqueName()}|{useUniqueName()}|{useCspNonce()}|
+                <Script script={createBrowserScript(() => alert("a"))} />
+            </>
+        );
+        const render = (nonce: string, namespace: string) =>
+            renderToString(
+                <Root nonce={nonce} namespace={namespace}>
+                    <Cache cacheKey="key" ttl={60}>
+                        <Content />
+                    </Cache>
+                </Root>,
+            );
+
+        const html = await render("n1", "a");
+        expect(html).toMatch(
+            /^\$a\$0\|\$a\$1\$cache\$0\|\$a\$1\$cache\$1\|n1\|<script nonce="n1">/,
+        );
+
+        const otherHtml = await render("n2", "b");
+        expect(otherHtml).toBe(html.replaceAll("$a$", "$b$").replaceAll("n1", "n2"));
+    });
+
+    it("caches the HTML of routes", async () => {
+        const store = new LruCacheStore();
+        const Counter = createCounter();
+        const rs = routes({
+            "GET /": route(z.object({}), Counter, { cache: { ttl: 60 } }),
+            "GET /csrf": route(z.object({}), () => <>{useCsrfToken()}</>, { cache: { ttl: 60 } }),
+            "GET /uncached": route(z.object({}), Counter),
+        });
+        const handler = createFetchHandler(
+            <CacheStoreProvider store={store}>
+                <Router routes={rs} />
+            </CacheStoreProvider>,
+            undefined,
+            { csrf: true },
+        );
+        const fetch = async (url: string, headers?: Record<string, string>, method = "GET") =>
+            (await handler(new Request(`http://localhost${url}`, { method, headers }))).text();
+
+        expect(await fetch("/")).toBe("1");
+        expect(await fetch("/")).toBe("1");
+        expect(await fetch("/?a=1")).toBe("2");
+        expect(await fetch("/", { "x-hy": "true" })).toBe("3");
+        expect(await fetch("/", { "x-hy": "true", "x-hy-frame-id": "f" })).toBe("4");
+        expect(await fetch("/", { "x-hy": "true", "x-hy-frame-id": "f" })).toBe("4");
+        expect(await fetch("/uncached")).toBe("5");
+        expect(await fetch("/uncached")).toBe("6");
+
+        for (let i = 0; i < 2; ++i) {
+            const response = await handler(new Request("http://localhost/csrf"));
+            const csrfToken = /^hy-csrf=([^;]+)/.exec(response.headers.get("set-cookie")!)![1];
+            expect(await response.text()).toBe(csrfToken);
+        }
+    });
+
+    it("collects the script hashes of cached HTML", async () => {
+        const rs = routes({
+            "GET /": route(
+                z.object({}),
+                () => <Script script={createBrowserScript(() => alert("cached"))} />,
+                { cache: { ttl: 60 } },
+            ),
+        });
+        const handler = createFetchHandler(
+            <CacheStoreProvider store={new LruCacheStore()}>
+                <Router routes={rs} />
+            </CacheStoreProvider>,
+            undefined,
+            { csp: { scriptHashes: true } },
+        );
+
+        const response = await handler(new Request("http://localhost/"));
+        const cachedResponse = await handler(new Request("http://localhost/"));
+
+        expect(response.headers.get("content-security-policy")).toContain("'sha256-");
+        expect(cachedResponse.headers.get("content-security-policy")).toBe(
+            response.headers.get("content-security-policy"),
+        );
+        expect(await cachedResponse.text()).toBe(await response.text());
+    });
+});
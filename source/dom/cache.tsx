@@ -0,0 +1,180 @@
+import { randomBytes } from "node:crypto";
+import { CsrfTokenOverride, useCsrfToken } from "@/http/http-context";
+import { BrowserScriptRenderer } from "@/jsx/browser-script";
+import { createContext, useContext, useContextOrDefault } from "@/jsx/context";
+import { CspInlineScriptsContext, CspNonceContext } from "@/jsx/csp-nonce";
+import { type JsxElement, type PropsWithChildren, toJsxExpression } from "@/jsx/jsx-types";
+import { renderChildren } from "@/jsx/render-children";
+import { runOutsideOfStream } from "@/jsx/stream-writer";
+import { UniqueNamespace, useNestedUniqueNamespace } from "@/jsx/unique-name";
+
+/**
+ * The cached HTML of a {@link Cache} component. Request-specific values such as the CSP nonce are
+ * replaced by placeholders derived from the fragment's `token`.
+ */
+export type CachedFragment = {
+    /** The rendered HTML, including the scripts of all event handlers. */
+    readonly html: string;
+    /** The inline scripts contained in the HTML when CSP script hashes are used. */
+    readonly scripts: readonly string[];
+    /** The random token the placeholders of request-specific values are derived from. */
+    readonly token: string;
+};
+
+/** Stores the HTML rendered by {@link Cache} components. */
+export type CacheStore = {
+    /** Gets the fragment cached for the given `key` or `undefined` if it's missing or expired. */
+    readonly get: (key: string) => Promise<CachedFragment | undefined>;
+    /** Caches the given `fragment` under the given `key` for `ttl` seconds. */
+    readonly set: (key: string, fragment: CachedFragment, ttl: number) => Promise<void>;
+};
+
+/**
+ * Stores the cached fragments in the server's memory, evicting the least recently used fragment
+ * once the maximum number of entries is exceeded. Fragments cannot be shared between multiple
+ * server instances.
+ */
+export class LruCacheStore implements CacheStore {
+    private readonly fragments = new Map<string, { fragment: CachedFragment; expiresAt: number }>();
+
+    /** @param maxEntries The maximum number of fragments that are kept in memory. */
+    public constructor(private readonly maxEntries = 1000) {}
+
+    public get(key: string) {
+        const entry = this.fragments.get(key);
+        this.fragments.delete(key);
+
+        if (!entry || entry.expiresAt <= Date.now()) {
+            return Promise.resolve(undefined);
+        }
+
+        // Reinserting the entry marks it as the most recently used one.
+        this.fragments.set(key, entry);
+        return Promise.resolve(entry.fragment);
+    }
+
+    public set(key: string, fragment: CachedFragment, ttl: number) {
+        this.fragments.delete(key);
+        this.fragments.set(key, { fragment, expiresAt: Date.now() + ttl * 1000 });
+
+        for (const oldestKey of this.fragments.keys()) {
+            if (this.fragments.size <= this.maxEntries) {
+                break;
+            }
+
+            this.fragments.delete(oldestKey);
+        }
+
+        return Promise.resolve();
+    }
+}
+
+const CacheStoreContext = createContext<CacheStore>({
+    name: "cache store",
+    default: { value: new LruCacheStore() },
+});
+
+export type CacheStoreProviderProps = PropsWithChildren<{ readonly store: CacheStore }>;
+
+/**
+ * Provides the store for all {@link Cache} components rendered by the children. By default, an
+ * {@link LruCacheStore} shared by the entire process is used.
+ */
+export function CacheStoreProvider({ store, children }: CacheStoreProviderProps) {
+    return <CacheStoreContext value={store}>{children}</CacheStoreContext>;
+}
+
+export type CacheProps = PropsWithChildren<{
+    /** Identifies the cached HTML. The key must be unique within the cache store. */
+    readonly cacheKey: string;
+    /** The number of seconds the HTML is cached. */
+    readonly ttl: number;
+    /**
+     * Additional JSON-serializable values the HTML depends on, e.g., the current user or the values
+     * of some contexts. The cached HTML is only reused if all values are the same.
+     */
+    readonly vary?: readonly unknown[];
+}>;
+
+/**
+ * Caches the HTML rendered by the children, so that subsequent renders within the time-to-live
+ * reuse the cached HTML instead of rendering the children again. The cached HTML is shared between
+ * all requests, so the children's HTML must only depend on the `cacheKey` and the `vary` values.
+ * The current request's CSP nonce, CSRF token, and unique names are handled automatically, though.
+ *
+ * The children are not rendered when the cached HTML is reused, so they must not have any side
+ * effects such as setting HTTP headers, cookies, or status codes, or redirecting. The children are
+ * always rendered completely before their HTML is sent, even when streaming, as if there were no
+ * stream at all.
+ */
+export function Cache({ cacheKey, ttl, vary = [], children }: CacheProps): JsxElement {
+    const store = useContext(CacheStoreContext);
+    const key = JSON.stringify([cacheKey, ...vary]);
+    const values: RequestSpecificValues = {
+        nonce: useContextOrDefault(CspNonceContext, undefined),
+        csrfToken: useCsrfToken(),
+        namespace: useNestedUniqueNamespace("cache"),
+    };
+    const collectScript = useContextOrDefault(CspInlineScriptsContext, undefined);
+
+    return toJsxExpression(async () => {
+        const fragment = (await store.get(key)) ?? (await renderFragment());
+        const replace = (text: string) => replacePlaceholders(text, fragment.token, values);
+        fragment.scripts.forEach((script) => collectScript?.(replace(script)));
+        return replace(fragment.html);
+    });
+
+    async function renderFragment() {
+        const token = randomBytes(16).toString("hex");
+        const placeholders = getPlaceholders(token);
+        const scripts: string[] = [];
+
+        // Event handlers of the children must be emitted together with the children themselves,
+        // as the cached HTML is reused within different frames.
+        let element = <BrowserScriptRenderer>{children}</BrowserScriptRenderer>;
+        if (collectScript) {
+            element = (
+                <CspInlineScriptsContext value={(script) => scripts.push(script)}>
+                    {element}
+                </CspInlineScriptsContext>
+            );
+        }
+        if (values.nonce !== undefined) {
+            element = <CspNonceContext value={placeholders.nonce}>{element}</CspNonceContext>;
+        }
+        if (values.namespace !== undefined) {
+            element = (
+                <UniqueNamespace namespace={placeholders.namespace}>{element}</UniqueNamespace>
+            );
+        }
+
+        const html = await runOutsideOfStream(() =>
+            renderChildren(
+                <CsrfTokenOverride token={placeholders.csrfToken}>{element}</CsrfTokenOverride>,
+            ),
+        );
+
+        const fragment = { html, scripts, token };
+        await store.set(key, fragment, ttl);
+        return fragment;
+    }
+}
+
+type RequestSpecificValues = Readonly<
+    Record<"nonce" | "csrfToken" | "namespace", string | undefined>
+>;
+
+function getPlaceholders(token: string) {
+    return { nonce: `hy${token}nonce`, csrfToken: `hy${token}csrf`, namespace: `hy${token}ns` };
+}
+
+function replacePlaceholders(text: string, token: string, values: RequestSpecificValues) {
+    return Object.entries(getPlaceholders(token)).reduce(
+        (text, [name, placeholder]) =>
+            text.replaceAll(
+                placeholder,
+                values[name as keyof RequestSpecificValues] ?? placeholder,
+            ),
+        text,
+    );
+}
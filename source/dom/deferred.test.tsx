@@ -0,0 +1,122 @@
+import { Deferred } from "@/dom/deferred";
+import { CspNonceContext } from "@/jsx/csp-nonce";
+import { ErrorBoundary } from "@/jsx/error-boundary";
+import { renderToStream, renderToString } from "@/jsx/jsx-runtime";
+import type { JsxElement, PropsWithChildren } from "@/jsx/jsx-types";
+import { UniqueNameProvider } from "@/jsx/unique-name";
+
+describe("deferred", () => {
+    const Slow = async (props: PropsWithChildren<{ ms: number }>) => {
+        await new Promise((resolve) => setTimeout(resolve, props.ms));
+        return <>{props.children}</>;
+    };
+
+    function Root(props: PropsWithChildren) {
+        return (
+            <CspNonceContext value="nonce">
+                <UniqueNameProvider namespace="t">{props.children}</UniqueNameProvider>
+            </CspNonceContext>
+        );
+    }
+
+    function content(id: string, html: string) {
+        return (
+            `<template id="${id}-content">${html}</template>` +
+            `<script nonce="nonce">hy.resolveDeferred("${id}")</script>`
+        );
+    }
+
+    async function readStream(element: JsxElement) {
+        const chunks: string[] = [];
+        const reader = renderToStream(element).getReader();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            chunks.push(chunk.value);
+        }
+        return chunks.join("");
+    }
+
+    it("renders its children in place when not streaming", async () => {
+        expect(
+            await renderToString(
+                <Root>
+                    <div>
+                        <Deferred fallback="loading">
+                            <Slow ms={0}>content</Slow>
+                        </Deferred>
+                    </div>
+                </Root>,
+            ),
+        ).toBe("<div>content</div>");
+    });
+
+    it("renders the fallback and streams its children in the order of completion", async () => {
+        expect(
+            await readStream(
+                <Root>
+                    <div>
+                        <Deferred fallback="loading 1">
+                            <Slow ms={20}>content 1</Slow>
+                        </Deferred>
+                        <Deferred fallback={<span>loading 2</span>}>
+                            <Slow ms={0}>content 2</Slow>
+                        </Deferred>
+                    </div>
+                </Root>,
+            ),
+        ).toBe(
+            '<div><hy-deferred id="$t$0">loading 1</hy-deferred>' +
+                '<hy-deferred id="$t$1"><span>loading 2</span></hy-deferred></div>' +
+                content("$t$1", "content 2") +
+                content("$t$0", "content 1"),
+        );
+    });
+
+    it("streams nested deferred children after their enclosing deferred children", async () => {
+        expect(
+            await readStream(
+                <Root>
+                    <Deferred fallback="loading outer">
+                        <Slow ms={20}>
+                            outer
+                            <Deferred fallback="loading inner">inner</Deferred>
+                        </Slow>
+                    </Deferred>
+                </Root>,
+            ),
+        ).toBe(
+            '<hy-deferred id="$t$0">loading outer</hy-deferred>' +
+                content("$t$0", 'outer<hy-deferred id="$t$1">loading inner</hy-deferred>') +
+                content("$t$1", "inner"),
+        );
+    });
+
+    it("defers its children even within an error boundary", async () => {
+        expect(
+            await readStream(
+                <Root>
+                    <ErrorBoundary ErrorView={() => <>error</>}>
+                        <Deferred fallback="loading">
+                            <Slow ms={0}>content</Slow>
+                        </Deferred>
+                    </ErrorBoundary>
+                </Root>,
+            ),
+        ).toBe('<hy-deferred id="$t$0">loading</hy-deferred>' + content("$t$0", "content"));
+    });
+
+    it("errors the stream if its children throw", async () => {
+        const Throw = () => {
+            throw new Error("test-error");
+        };
+
+        await expect(
+            readStream(
+                <Root>
+                    <Deferred fallback="loading">
+                        <Throw />
+                    </Deferred>
+                </Root>,
+            ),
+        ).rejects.toThrow("test-error");
+    });
+});
@@ -0,0 +1,48 @@
+import { BrowserScriptRenderer } from "@/jsx/browser-script";
+import { renderInlineScript } from "@/jsx/csp-nonce";
+import type { ErrorBoundary } from "@/jsx/error-boundary";
+import { escapeString } from "@/jsx/escape-string";
+import type { renderToStream } from "@/jsx/jsx-runtime";
+import type { JsxElement, JsxNode, PropsWithChildren } from "@/jsx/jsx-types";
+import { renderChildren } from "@/jsx/render-children";
+import { getStreamDeferrer } from "@/jsx/stream-writer";
+import { useUniqueName } from "@/jsx/unique-name";
+
+export type DeferredProps = PropsWithChildren<{
+    /** The placeholder that is shown until the children have been rendered. */
+    readonly fallback: JsxNode;
+}>;
+
+/**
+ * When rendering to a stream via {@link renderToStream}, immediately renders the `fallback` and
+ * renders the children concurrently. Once the children have been rendered, they're sent at the end
+ * of the same response and the browser swaps them in using reconciliation. That way, slow parts of
+ * a page don't delay the rest of the page and don't require separate frame requests.
+ *
+ * When not rendering to a stream, for instance for frame updates, the children are rendered in
+ * place and the `fallback` is never shown.
+ *
+ * Errors thrown by the children are not caught by any {@link ErrorBoundary} surrounding the
+ * `Deferred` component, as the surrounding HTML has typically already been sent to the browser by
+ * the time the error is thrown. Instead, wrap the children in their own error boundary.
+ */
+export function Deferred({ fallback, children }: DeferredProps): JsxElement {
+    const defer = getStreamDeferrer();
+    if (!defer) {
+        return <>{children}</>;
+    }
+
+    const id = useUniqueName();
+    const script = renderInlineScript(`hy.resolveDeferred(${JSON.stringify(id)})`);
+
+    defer(async () => {
+        // Event handlers of the children must be emitted together with the children themselves,
+        // as the enclosing frame's scripts have already been sent.
+        const html = await renderChildren(
+            <BrowserScriptRenderer>{children}</BrowserScriptRenderer>,
+        );
+        return `<template id="${escapeString(`${id}-content`, true)}">${html}</template>` + script;
+    });
+
+    return <hy-deferred id={id}>{fallback}</hy-deferred>;
+}
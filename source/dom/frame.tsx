@@ -1,13 +1,14 @@
 import { BrowserScriptRenderer } from "@/jsx/browser-script";
 import { createContext, useContext } from "@/jsx/context";
-import type { JsxComponent, PropsWithChildren } from "@/jsx/jsx-types";
+import type { JsxComponent, JsxNode, PropsWithChildren } from "@/jsx/jsx-types";
 import { UniqueNameProvider } from "@/jsx/unique-name";
+import type { Href } from "@/routing/href";
 
 /**
  * A frame is a regular JSX component that can be rendered anywhere within the component tree and
  * also allows access to some additional metadata.
  */
-export type Frame = JsxComponent<PropsWithChildren> & FrameMetadata;
+export type Frame = JsxComponent<FrameProps> & FrameMetadata;
 
 /** Contains additional metadata about a frame. */
 export type FrameMetadata = {
@@ -20,8 +21,40 @@ export type FrameMetadata = {
 
 export type FrameProps = PropsWithChildren<{
     readonly class?: string;
+    /**
+     * The content that replaces the frame's children while the frame is being updated by a GET
+     * request, e.g., a skeleton or a spinner. The placeholder is static HTML, so it cannot have any
+     * event handlers. While any update is in progress, the frame has the `aria-busy` and
+     * `data-hy-loading` attributes regardless of whether a placeholder is given.
+     */
+    readonly loadingPlaceholder?: JsxNode;
+    /**
+     * If given, the frame's content is loaded by the browser via the given request once the page
+     * has been loaded, so that expensive parts of a page don't delay the rest of it. Until then,
+     * the frame's children are shown. The route must render the same frame without a `src`.
+     */
+    readonly src?: Href<"GET">;
+    /**
+     * Determines when the frame's `src` is loaded: `lazy` waits until the frame becomes visible
+     * within the viewport, whereas `eager` loads it immediately. Defaults to `lazy`.
+     */
+    readonly loading?: "lazy" | "eager";
+    /** If given, the browser periodically refreshes the frame's content. */
+    readonly refresh?: FrameRefreshOptions;
 }>;
 
+/**
+ * Configures the periodic refresh of a frame. Refreshes are paused while the browser tab is hidden
+ * or while the user is editing a form field within the frame. If the server can't be reached, the
+ * interval is doubled with each failed refresh, up to a maximum of 32 times the interval.
+ */
+export type FrameRefreshOptions = {
+    /** The request that renders the frame's refreshed content. */
+    readonly href: Href<"GET">;
+    /** The number of seconds between two refreshes. */
+    readonly interval: number;
+};
+
 /**
  * Creates a new `Frame` instance with the given id. This function is typically invoked in a
  * top-level declaration of a module so that the frame can be used in a type-safe way within the
@@ -34,7 +67,17 @@ export type FrameProps = PropsWithChildren<{
 export function createFrame(frameId: string): Frame {
     const frame = (props: FrameProps) => {
         return (
-            <hy-frame id={frameId} class={props.class}>
+            <hy-frame
+                id={frameId}
+                class={props.class}
+                data-hy-src={props.src?.url}
+                data-hy-eager={props.src && props.loading === "eager" ? true : undefined}
+                data-hy-refresh-src={props.refresh?.href.url}
+                data-hy-refresh-interval={props.refresh?.interval}
+            >
+                {props.loadingPlaceholder !== undefined && (
+                    <template data-hy-placeholder>{props.loadingPlaceholder}</template>
+                )}
                 <FrameContext value={frame}>
                     <UniqueNameProvider namespace={frameId}>
                         <BrowserScriptRenderer>{props.children}</BrowserScriptRenderer>
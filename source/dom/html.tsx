@@ -1,9 +1,7 @@
-import { renderToString } from "@/jsx/jsx-runtime";
 import { type JSX, type JsxElement, toJsxExpression } from "@/jsx/jsx-types";
+import { renderChildren } from "@/jsx/render-children";
 
 /** Renders the `<html>` element and prefixes the HTML output with a `DOCTYPE` declaration. */
 export function Html(props: JSX.HTMLAttributes<HTMLHtmlElement>): JsxElement {
-    return toJsxExpression(
-        async () => "<!DOCTYPE html>" + (await renderToString(<html {...props} />)),
-    );
+    return toJsxExpression(() => renderChildren(<html {...props} />, "<!DOCTYPE html>"));
 }
@@ -0,0 +1,16 @@
+export type ProgressBarProps = {
+    /**
+     * The number of milliseconds a frame update must be in progress before the progress bar is
+     * shown, so that it doesn't flicker for fast updates. Defaults to 200ms.
+     */
+    readonly delay?: number;
+};
+
+/**
+ * Shows a progress bar at the top of the viewport while frame updates are in progress. To enable
+ * the progress bar, place this component into your document's head. The color of the bar can be
+ * changed via the `--hy-progress-bar-color` CSS variable.
+ */
+export function ProgressBar({ delay = 200 }: ProgressBarProps) {
+    return <meta name="hy-progress-bar" content={String(delay)} />;
+}
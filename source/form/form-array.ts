@@ -0,0 +1,118 @@
+import { randomUUID } from "node:crypto";
+import get from "lodash/get";
+import set from "lodash/set";
+import { z } from "zod";
+import { HttpError } from "@/http/http-error";
+
+/**
+ * An operation on an array within the form state that is sent by the browser in the `$formArray`
+ * variable of the request body, e.g., when the user clicks a button to add another row to a form
+ * array.
+ */
+export const formArrayOperationSchema = z.object({
+    operation: z.enum(["add", "remove", "move"]),
+    path: z.string(),
+    index: z.number().int().nonnegative().optional(),
+    to: z.number().int().nonnegative().optional(),
+    item: z.unknown(),
+});
+
+export type FormArrayOperation = z.output<typeof formArrayOperationSchema>;
+
+/**
+ * Identifies the items of all form arrays so that they can be reconciled in the browser even when
+ * they're moved around. The keys are stored in the same structure as the arrays themselves and are
+ * sent back by the browser in the `$keys` variable of the form's data.
+ */
+export type FormArrayKeys = Record<string, unknown>;
+
+/**
+ * Applies the given `operation` to both the unparsed, raw form state and the form array keys. The
+ * raw form state is modified before it is parsed, so that the items are re-indexed before the form
+ * is validated, hence all validation errors are reported for the items' new indices.
+ */
+export function applyFormArrayOperation(
+    state: Record<string, unknown>,
+    keys: FormArrayKeys,
+    operation: FormArrayOperation,
+) {
+    // The path is sent by the browser, so we can't trust it to not attempt prototype pollution.
+    if (
+        !/^[\w$]+(\.[\w$]+)*$/.test(operation.path) ||
+        operation.path.split(".").some((segment) => forbiddenSegments.includes(segment))
+    ) {
+        throw new HttpError("BadRequest", `Invalid form array path '${operation.path}'.`);
+    }
+
+    const items = toArray(get(state, operation.path));
+    const itemKeys = getFormArrayKeys(keys, operation.path, items.length);
+
+    switch (operation.operation) {
+        case "add": {
+            const index = ensureIndex(operation.index ?? items.length, items.length + 1);
+            items.splice(index, 0, operation.item);
+            itemKeys.splice(index, 0, randomUUID());
+            break;
+        }
+        case "remove": {
+            const index = ensureIndex(operation.index, items.length);
+            items.splice(index, 1);
+            itemKeys.splice(index, 1);
+            break;
+        }
+        case "move": {
+            const index = ensureIndex(operation.index, items.length);
+            const to = ensureIndex(operation.to, items.length);
+            items.splice(to, 0, ...items.splice(index, 1));
+            itemKeys.splice(to, 0, ...itemKeys.splice(index, 1));
+            break;
+        }
+        default: {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const switchGuard: never = operation.operation;
+            throw new Error("Unknown form array operation.");
+        }
+    }
+
+    set(state, operation.path, items);
+    set(keys, operation.path, itemKeys);
+
+    function ensureIndex(index: number | undefined, length: number) {
+        if (index === undefined || index >= length) {
+            throw new HttpError("BadRequest", "Invalid form array index.");
+        }
+
+        return index;
+    }
+}
+
+/**
+ * Gets the keys of the items of the form array at the given `path`, generating new keys for all
+ * items that don't have one yet. The keys are stored so that subsequent lookups are consistent.
+ */
+export function getFormArrayKeys(keys: FormArrayKeys, path: string, length: number): string[] {
+    const itemKeys = toArray(get(keys, path))
+        .slice(0, length)
+        .map((key) => (typeof key === "string" && key !== "" ? key : randomUUID()));
+
+    while (itemKeys.length < length) {
+        itemKeys.push(randomUUID());
+    }
+
+    set(keys, path, itemKeys);
+    return itemKeys;
+}
+
+const forbiddenSegments = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Converts the given value into an array. Empty arrays aren't sent by the browser at all, whereas
+ * arrays with more items than supported by the URL parser are parsed as objects.
+ */
+function toArray(value: unknown): unknown[] {
+    return Array.isArray(value)
+        ? [...value]
+        : value && typeof value === "object"
+          ? Object.values(value)
+          : [];
+}
@@ -0,0 +1,445 @@
+import { z } from "zod";
+import { createForm, type FormContext, type SomeFormSchema } from "@/form/form";
+import { HttpResponse } from "@/http/http-context";
+import { renderToString } from "@/jsx/jsx-runtime";
+import type { JsxComponent } from "@/jsx/jsx-types";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { Router, routes } from "@/routing/router";
+import { zLocalDate } from "@/serialization/date-time";
+
+function renderForm<Schema extends SomeFormSchema>(
+    schema: Schema,
+    body: string,
+    fields: JsxComponent<{ form: FormContext<Schema> }>,
+) {
+    return renderToString(
+        <HttpResponse
+            value={{
+                method: "POST",
+                requestPath: [""],
+                searchParams: "",
+                requestBody: body,
+                redirect: () => {},
+                getHeader: (header) => (header === "x-hy" ? "true" : undefined),
+                setHeader: () => {},
+                setStatusCode: () => {},
+            }}
+        >
+            <Router
+                routes={routes({
+                    "POST /": () => createForm("f", schema, fields).update((s) => s),
+                })}
+            />
+        </HttpResponse>,
+    );
+}
+
+describe("form fields", () => {
+    const schema = z.object({
+        name: z.string().min(3),
+        description: z.string(),
+        birthday: zLocalDate().optional(),
+        color: z.enum(["red", "green"]),
+        size: z.enum(["s", "m", "l"]),
+        accepted: z.boolean(),
+    });
+
+    const render = (body: string, fields: JsxComponent<{ form: FormContext<typeof schema> }>) =>
+        renderForm(schema, body, fields);
+
+    it("renders inputs and textareas bound to form state properties", async () => {
+        expect(
+            await render(
+                "$form.name=abcd&$form.description=a<b&$form.birthday=2024-01-02&$form.color=red&$form.size=s",
+                ({ form }) => (
+                    <>
+                        <form.Input property={(s) => s.name} class="c" />
+                        <form.Input property="birthday" type="date" />
+                        <form.Textarea property={(s) => s.description} />
+                    </>
+                ),
+            ),
+        ).toBe(
+            '<hy-frame id="f@frame">' +
+                '<input class="c" id="f-name" name="name" value="abcd">' +
+                '<input type="date" id="f-birthday" name="birthday" value="2024-01-02">' +
+                '<textarea id="f-description" name="description">a&lt;b</textarea>' +
+                "</hy-frame>",
+        );
+    });
+
+    it("renders selects, checkboxes, and radio groups bound to form state properties", async () => {
+        const options = [
+            { value: "s", label: "Small" },
+            { value: "m", label: "Medium", disabled: true },
+            { value: "l", label: "Large" },
+        ];
+
+        expect(
+            await render(
+                "$form.name=abcd&$form.description=&$form.color=green&$form.size=l&$form.accepted=true",
+                ({ form }) => (
+                    <>
+                        <form.Select
+                            property={(s) => s.color}
+                            options={[
+                                { value: "red", label: "Red" },
+                                { value: "green", label: "Green" },
+                            ]}
+                        />
+                        <form.Checkbox property={(s) => s.accepted} />
+                        <form.RadioGroup property={(s) => s.size} options={options} />
+                    </>
+                ),
+            ),
+        ).toBe(
+            '<hy-frame id="f@frame">' +
+                '<select id="f-color" name="color">' +
+                '<option value="red">Red</option>' +
+                '<option value="green" selected="true">Green</option>' +
+                "</select>" +
+                '<input id="f-accepted" name="accepted" type="checkbox" value="true" checked="true">' +
+                '<div id="f-size" role="radiogroup">' +
+                '<label><input type="radio" id="f-size-0" name="size" value="s">Small</label>' +
+                '<label><input type="radio" id="f-size-1" name="size" value="m" disabled="true">Medium</label>' +
+                '<label><input type="radio" id="f-size-2" name="size" value="l" checked="true">Large</label>' +
+                "</div>" +
+                "</hy-frame>",
+        );
+    });
+
+    it("marks invalid fields and links their error messages", async () => {
+        expect(
+            await render(
+                "$form.name=ab&$form.description=&$form.color=red&$form.size=s",
+                ({ form }) => (
+                    <>
+                        <form.Input property={(s) => s.name} aria-describedby="hint" />
+                        <form.Checkbox property={(s) => s.accepted} />
+                    </>
+                ),
+            ),
+        ).toBe(
+            '<hy-frame id="f@frame">' +
+                '<input aria-describedby="hint f-name-error" id="f-name" name="name" aria-invalid="true" value="ab">' +
+                '<span id="f-name-error" data-hy-field-error="true">' +
+                "String must contain at least 3 character(s)" +
+                "</span>" +
+                '<input id="f-accepted" name="accepted" type="checkbox" value="true">' +
+                "</hy-frame>",
+        );
+    });
+
+    // eslint-disable-next-line jest/expect-expect
+    it("only binds fields to properties of matching types", () => {
+        createForm("f", schema, ({ form }) => (
+            <>
+                {/* @ts-expect-error */}
+                <form.Checkbox property={(s) => s.name} />
+                {/* @ts-expect-error */}
+                <form.Input property={(s) => s.accepted} />
+                {/* @ts-expect-error */}
+                <form.Select property={(s) => s.accepted} options={[]} />
+            </>
+        ));
+    });
+});
+
+describe("form unions", () => {
+    const schema = z.object({
+        payment: z.discriminatedUnion("type", [
+            z.object({ type: z.literal("card"), cardNumber: z.string().min(4) }),
+            z.object({ type: z.literal("invoice"), due: zLocalDate() }),
+        ]),
+    });
+
+    it("binds fields to properties of the active union option", async () => {
+        expect(
+            await renderForm(
+                schema,
+                "$form.payment.type=card&$form.payment.cardNumber=12",
+                ({ form }) => (
+                    <>
+                        <form.Select
+                            property={(s) => s.payment.type}
+                            options={[
+                                { value: "card", label: "Card" },
+                                { value: "invoice", label: "Invoice" },
+                            ]}
+                        />
+                        <form.Input property={(s) => s.payment.cardNumber} />
+                    </>
+                ),
+            ),
+        ).toBe(
+            '<hy-frame id="f@frame">' +
+                '<select id="f-payment.type" name="payment.type">' +
+                '<option value="card" selected="true">Card</option>' +
+                '<option value="invoice">Invoice</option>' +
+                "</select>" +
+                '<input id="f-payment.cardNumber" name="payment.cardNumber" aria-invalid="true" aria-describedby="f-payment.cardNumber-error" value="12">' +
+                '<span id="f-payment.cardNumber-error" data-hy-field-error="true">' +
+                "String must contain at least 4 character(s)" +
+                "</span>" +
+                "</hy-frame>",
+        );
+    });
+
+    it("reports missing or unknown discriminators as validation errors", async () => {
+        const form = createForm("f", schema, ({ form }) => (
+            <form.RadioGroup
+                property={(s) => s.payment.type}
+                options={[
+                    { value: "card", label: "Card" },
+                    { value: "invoice", label: "Invoice" },
+                ]}
+            />
+        ));
+        const fetch = (body: string) =>
+            createFetchHandler(
+                <Router routes={routes({ "POST /": () => form.update((s) => s) })} />,
+            )(
+                new Request("http://localhost/", {
+                    method: "POST",
+                    body,
+                    headers: {
+                        "x-hy": "true",
+                        "content-type": "application/x-www-form-urlencoded",
+                    },
+                }),
+            );
+
+        for (const body of ["$form.payment.cardNumber=1234", "$form.payment.type=cash"]) {
+            const response = await fetch(body);
+            expect(response.status).toBe(422);
+            expect(await response.text()).toContain(
+                'data-hy-field-error="true">Invalid discriminator',
+            );
+        }
+    });
+});
+
+describe("form arrays", () => {
+    const schema = z.object({
+        items: z.array(z.object({ name: z.string().min(2) })).default([]),
+    });
+
+    const render = (body: string) =>
+        renderForm(schema, body, ({ form }) => (
+            <form.ArrayField property={(s) => s.items}>
+                {(index) => (
+                    <>
+                        <form.Input property={(s) => s.items[index]!.name} />
+                        <form.RemoveItemButton property={(s) => s.items} index={index}>
+                            x
+                        </form.RemoveItemButton>
+                    </>
+                )}
+            </form.ArrayField>
+        ));
+
+    const item = (key: string, index: number, name: string, error?: string) =>
+        `<div data-hy-key="${key}">` +
+        `<input type="hidden" name="$keys.items.${index}" value="${key}">` +
+        (error
+            ? `<input id="f-items.${index}.name" name="items.${index}.name" aria-invalid="true" ` +
+              `aria-describedby="f-items.${index}.name-error" value="${name}">` +
+              `<span id="f-items.${index}.name-error" data-hy-field-error="true">${error}</span>`
+            : `<input id="f-items.${index}.name" name="items.${index}.name" value="${name}">`) +
+        '<button type="button" data-hy-method="POST" data-hy-frame="f@frame" ' +
+        `data-hy-body="%24formArray.operation=remove&amp;%24formArray.path=items&amp;%24formArray.index=${index}" ` +
+        'data-hy-form="f">x</button>' +
+        "</div>";
+
+    const items = "$form.items.0.name=ab&$form.items.1.name=c&$form.items.2.name=de";
+    const keys = "$form.$keys.items.0=k0&$form.$keys.items.1=k1&$form.$keys.items.2=k2";
+    const tooShort = "String must contain at least 2 character(s)";
+
+    it("renders the array items with stable keys", async () => {
+        expect(await render(`${items}&${keys}`)).toBe(
+            '<hy-frame id="f@frame"><div id="f-items">' +
+                item("k0", 0, "ab") +
+                item("k1", 1, "c", tooShort) +
+                item("k2", 2, "de") +
+                "</div></hy-frame>",
+        );
+
+        expect(await render("")).toBe('<hy-frame id="f@frame"><div id="f-items"></div></hy-frame>');
+        expect(await render(items)).toMatch(/^(.*data-hy-key="[\w-]{36}"){3}/);
+    });
+
+    it("removes items, re-indexing the remaining items and their validation errors", async () => {
+        expect(
+            await render(
+                `${items}&${keys}&$formArray.operation=remove&$formArray.path=items&$formArray.index=0`,
+            ),
+        ).toBe(
+            '<hy-frame id="f@frame"><div id="f-items">' +
+                item("k1", 0, "c", tooShort) +
+                item("k2", 1, "de") +
+                "</div></hy-frame>",
+        );
+    });
+
+    it("moves items", async () => {
+        expect(
+            await render(
+                `${items}&${keys}&$formArray.operation=move&$formArray.path=items&$formArray.index=0&$formArray.to=2`,
+            ),
+        ).toBe(
+            '<hy-frame id="f@frame"><div id="f-items">' +
+                item("k1", 0, "c", tooShort) +
+                item("k2", 1, "de") +
+                item("k0", 2, "ab") +
+                "</div></hy-frame>",
+        );
+    });
+
+    it("adds items", async () => {
+        const html = await render(
+            `${items}&${keys}&$formArray.operation=add&$formArray.path=items&$formArray.index=1&$formArray.item.name=new`,
+        );
+        const [, newKey] = /data-hy-key="([^"]+)"><input type="hidden" name="\$keys.items.1"/.exec(
+            html,
+        )!;
+
+        expect(html).toBe(
+            '<hy-frame id="f@frame"><div id="f-items">' +
+                item("k0", 0, "ab") +
+                item(newKey!, 1, "new") +
+                item("k1", 2, "c", tooShort) +
+                item("k2", 3, "de") +
+                "</div></hy-frame>",
+        );
+
+        expect(
+            await render("$formArray.operation=add&$formArray.path=items&$formArray.item.name=a"),
+        ).toMatch(/name="items.0.name" aria-invalid="true"/);
+    });
+
+    it("renders buttons to modify form arrays", async () => {
+        expect(
+            await renderForm(schema, "", ({ form }) => (
+                <>
+                    <form.AddItemButton property={(s) => s.items} item={{ name: "a" }}>
+                        add
+                    </form.AddItemButton>
+                    <form.MoveItemButton property="items" index={1} to={0} class="c">
+                        up
+                    </form.MoveItemButton>
+                </>
+            )),
+        ).toBe(
+            '<hy-frame id="f@frame">' +
+                '<button type="button" data-hy-method="POST" data-hy-frame="f@frame" ' +
+                'data-hy-body="%24formArray.operation=add&amp;%24formArray.path=items&amp;%24formArray.item.name=a" ' +
+                'data-hy-form="f">add</button>' +
+                '<button class="c" type="button" data-hy-method="POST" data-hy-frame="f@frame" ' +
+                'data-hy-body="%24formArray.operation=move&amp;%24formArray.path=items&amp;%24formArray.index=1&amp;%24formArray.to=0" ' +
+                'data-hy-form="f">up</button>' +
+                "</hy-frame>",
+        );
+    });
+
+    it("rejects invalid array operations", async () => {
+        await expect(() =>
+            render(`${items}&$formArray.operation=remove&$formArray.path=items&$formArray.index=3`),
+        ).rejects.toThrow("BadRequest");
+        await expect(() =>
+            render("$formArray.operation=add&$formArray.path=__proto__.x&$formArray.item=a"),
+        ).rejects.toThrow("BadRequest");
+    });
+
+    // eslint-disable-next-line jest/expect-expect
+    it("only adds items of the array's item type", () => {
+        createForm("f", schema, ({ form }) => (
+            <>
+                {/* @ts-expect-error */}
+                <form.AddItemButton property={(s) => s.items} item={1} />
+            </>
+        ));
+    });
+});
+
+describe("form errors", () => {
+    const schema = z
+        .object({ email: z.string().email(), password: z.string(), repeated: z.string() })
+        .refine((s) => s.password === s.repeated, "Passwords do not match");
+
+    const form = createForm("f", schema, ({ form }) => (
+        <>
+            <form.ErrorSummary>
+                <h2>Errors</h2>
+            </form.ErrorSummary>
+            {form
+                .errors()
+                .map(({ name }) => `[${name}]`)
+                .join("")}
+        </>
+    ));
+
+    const fetch = (body: string) =>
+        createFetchHandler(
+            <Router
+                routes={routes({
+                    "POST /": () =>
+                        form.submit(({ formState }) =>
+                            formState.email === "taken@example.com"
+                                ? form.invalid([
+                                      { property: (s) => s.email, message: "Already taken" },
+                                      { message: "Try again" },
+                                  ])
+                                : null,
+                        ),
+                })}
+            />,
+        )(
+            new Request("http://localhost/", {
+                method: "POST",
+                body,
+                headers: {
+                    "x-hy": "true",
+                    "content-type": "application/x-www-form-urlencoded",
+                },
+            }),
+        );
+
+    it("lists field and form-level validation errors", async () => {
+        const response = await fetch("$form.email=a&$form.password=a&$form.repeated=b");
+
+        expect(response.status).toBe(422);
+        expect(await response.text()).toBe(
+            '<hy-frame id="f@frame">' +
+                '<div id="f-errors" role="alert"><h2>Errors</h2><ul>' +
+                '<li><a href="#f-email">Invalid email</a></li>' +
+                "<li>Passwords do not match</li>" +
+                "</ul></div>" +
+                "[email][]" +
+                "</hy-frame>",
+        );
+    });
+
+    it("renders nothing if there are no errors", async () => {
+        const response = await fetch("$form.email=a@example.com&$form.password=a&$form.repeated=a");
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe("");
+    });
+
+    it("re-renders the form with errors reported by the submit action", async () => {
+        const response = await fetch(
+            "$form.email=taken@example.com&$form.password=a&$form.repeated=a",
+        );
+
+        expect(response.status).toBe(422);
+        expect(await response.text()).toBe(
+            '<hy-frame id="f@frame">' +
+                '<div id="f-errors" role="alert"><h2>Errors</h2><ul>' +
+                '<li><a href="#f-email">Already taken</a></li>' +
+                "<li>Try again</li>" +
+                "</ul></div>" +
+                "[email][]" +
+                "</hy-frame>",
+        );
+    });
+});
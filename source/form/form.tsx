@@ -1,13 +1,28 @@
 import get from "lodash/get";
 import { z, type ZodType, type ZodTypeDef } from "zod";
 import { createFrame, type FrameMetadata } from "@/dom/frame";
-import { collectPath, type PropertySelector } from "@/form/property-path";
-import { HttpStatusCode, useHttpContext, useRequestHeader } from "@/http/http-context";
-import type { JSX, JsxComponent, JsxElement } from "@/jsx/jsx-types";
+import {
+    applyFormArrayOperation,
+    type FormArrayKeys,
+    type FormArrayOperation,
+    formArrayOperationSchema,
+    getFormArrayKeys,
+} from "@/form/form-array";
+import { collectPath, type PropertyPath, type PropertySelector } from "@/form/property-path";
+import { csrfParam } from "@/http/csrf";
+import {
+    HttpStatusCode,
+    useCsrfToken,
+    useHttpContext,
+    useRequestHeader,
+} from "@/http/http-context";
+import type { UploadedFile } from "@/http/multipart";
+import type { JSX, JsxComponent, JsxElement, JsxNode } from "@/jsx/jsx-types";
 import type { FormValues, Href } from "@/routing/href";
 import type { FormElement } from "@/routing/router";
+import { pack, type PackedData, unpack } from "@/serialization/data-packing";
 import { toPartialSchema, type ToPartialSchema } from "@/serialization/to-partial-schema";
-import { parseUrlSearchParams } from "@/serialization/url-params";
+import { parseUrlSearchParams, toUrlSearchParams } from "@/serialization/url-params";
 
 export type SomeFormSchema = ZodType<Record<string, unknown>, ZodTypeDef, any>;
 
@@ -51,6 +66,137 @@ export type FormButtonProps<FormState extends Record<string, unknown>> = Omit<
     readonly keepFieldsEnabled?: boolean;
 };
 
+/**
+ * The values that form fields other than checkboxes can be bound to, i.e., strings, numbers, and
+ * values like dates that are serialized to strings.
+ */
+export type FormFieldValue = string | number | bigint | { toJSON(): string } | null | undefined;
+
+/** An option of a {@link FormSelectProps select} or {@link FormRadioGroupProps radio group}. */
+export type FormFieldOption = {
+    readonly value: string;
+    readonly label: string;
+    readonly disabled?: boolean;
+};
+
+export type FormInputProps<FormState extends Record<string, unknown>> = Omit<
+    JSX.InputHTMLAttributes<HTMLInputElement>,
+    "id" | "name" | "property" | "value" | "checked"
+> & {
+    /** The property of the form state the input is bound to. */
+    readonly property: PropertySelector<FormState, FormFieldValue | UploadedFile>;
+};
+
+export type FormTextareaProps<FormState extends Record<string, unknown>> = Omit<
+    JSX.TextareaHTMLAttributes<HTMLTextAreaElement>,
+    "id" | "name" | "property" | "value" | "children"
+> & {
+    /** The property of the form state the textarea is bound to. */
+    readonly property: PropertySelector<FormState, FormFieldValue>;
+};
+
+export type FormSelectProps<FormState extends Record<string, unknown>> = Omit<
+    JSX.SelectHTMLAttributes<HTMLSelectElement>,
+    "id" | "name" | "property" | "value" | "multiple" | "children"
+> & {
+    /** The property of the form state the select is bound to. */
+    readonly property: PropertySelector<FormState, FormFieldValue>;
+    /** The options the user can select from. */
+    readonly options: readonly FormFieldOption[];
+};
+
+export type FormCheckboxProps<FormState extends Record<string, unknown>> = Omit<
+    JSX.InputHTMLAttributes<HTMLInputElement>,
+    "id" | "name" | "property" | "value" | "checked" | "type"
+> & {
+    /** The Boolean property of the form state the checkbox is bound to. */
+    readonly property: PropertySelector<FormState, boolean | undefined>;
+};
+
+export type FormRadioGroupProps<FormState extends Record<string, unknown>> = Omit<
+    JSX.HTMLAttributes<HTMLDivElement>,
+    "id" | "property" | "role" | "children"
+> & {
+    /** The property of the form state the radio group is bound to. */
+    readonly property: PropertySelector<FormState, FormFieldValue>;
+    /** The options the user can choose from, each one rendered as a labeled radio button. */
+    readonly options: readonly FormFieldOption[];
+    /** Disables all radio buttons of the group. */
+    readonly disabled?: boolean;
+};
+
+export type FormArrayFieldProps<FormState extends Record<string, unknown>> = Omit<
+    JSX.HTMLAttributes<HTMLDivElement>,
+    "id" | "property" | "children"
+> & {
+    /** The array property of the form state whose items are rendered. */
+    readonly property: PropertySelector<FormState, readonly unknown[] | undefined>;
+    /** Renders the form fields of the item at the given `index`. */
+    readonly children: (index: number) => JsxNode;
+};
+
+export type FormArrayButtonProps<
+    FormState extends Record<string, unknown>,
+    TItem,
+    InputFormState extends Record<string, unknown> = FormState,
+> = Omit<JSX.HTMLAttributes<HTMLButtonElement>, "type" | "property"> & {
+    /** The array property of the form state that is modified. */
+    readonly property: PropertySelector<FormState, readonly TItem[] | undefined>;
+    /**
+     * The route that updates the form with the modified array, typically a route using the form's
+     * `update` or `submit` function. Defaults to the form's validation route.
+     */
+    readonly href?: Href<"POST", FormValues<InputFormState>>;
+};
+
+export type FormAddItemButtonProps<
+    FormState extends Record<string, unknown>,
+    TItem,
+    InputFormState extends Record<string, unknown> = FormState,
+> = FormArrayButtonProps<FormState, TItem, InputFormState> & {
+    /** The initial state of the new item. */
+    readonly item: TItem;
+    /** The index the new item is inserted at. Defaults to the end of the array. */
+    readonly index?: number;
+};
+
+export type FormRemoveItemButtonProps<
+    FormState extends Record<string, unknown>,
+    TItem,
+    InputFormState extends Record<string, unknown> = FormState,
+> = FormArrayButtonProps<FormState, TItem, InputFormState> & {
+    /** The index of the item that is removed. */
+    readonly index: number;
+};
+
+export type FormMoveItemButtonProps<
+    FormState extends Record<string, unknown>,
+    TItem,
+    InputFormState extends Record<string, unknown> = FormState,
+> = FormArrayButtonProps<FormState, TItem, InputFormState> & {
+    /** The index of the item that is moved. */
+    readonly index: number;
+    /** The index the item is moved to. */
+    readonly to: number;
+};
+
+/**
+ * A validation error reported by a form's submit action for the given property or, if no property
+ * is given, for the entire form.
+ */
+export type FormError<FormState extends Record<string, unknown>> = {
+    readonly property?: PropertySelector<FormState, unknown>;
+    readonly message: string;
+};
+
+/** A validation error of a form, where form-level errors have an empty property path `name`. */
+export type FormValidationError = {
+    readonly name: PropertyPath;
+    readonly message: string;
+};
+
+export type FormErrorSummaryProps = Omit<JSX.HTMLAttributes<HTMLDivElement>, "id" | "role">;
+
 export type FormContext<FormStateSchema extends SomeFormSchema> = ReturnType<
     typeof createFormContext<FormStateSchema>
 >;
@@ -71,32 +217,46 @@ function createFormContext<FormStateSchema extends SomeFormSchema>(
     frameId: string,
     formId: string,
     formState: unknown,
+    arrayKeys: FormArrayKeys,
+    serverErrors: readonly FormError<any>[],
 ) {
     type InputFormState = z.input<FormStateSchema>;
+    type OutputFormState = z.output<FormStateSchema>;
     type PartialFormState = z.output<ToPartialSchema<FormStateSchema>>;
 
     // At this point, we can be sure that the given form state structurally matches the Zod schema.
     // So we can use the Zod schema to validate the user's input, subsequently showing all validation
     // errors when rerendering the form.
     const parseResult = schema.safeParse(formState);
-    const [state, errors] = parseResult.success
-        ? [parseResult.data, {}]
-        : [
-              formState,
-              Object.fromEntries(
-                  parseResult.error.issues.map((issue) => [issue.path.join("."), issue.message]),
-              ),
-          ];
+    const state: unknown = parseResult.success ? parseResult.data : formState;
+
+    // Form-level errors, i.e., Zod issues without a path, are stored with the empty path. Errors
+    // reported by the form's submit action take precedence over the schema's validation errors.
+    const errors = new Map<PropertyPath, string>(
+        parseResult.success
+            ? []
+            : parseResult.error.issues.map((issue) => [issue.path.join("."), issue.message]),
+    );
+    for (const { property, message } of serverErrors) {
+        errors.set(property === undefined ? "" : collectPath(property), message);
+    }
 
     const context = <TValue,>(
         propertyPath: PropertySelector<PartialFormState, TValue>,
     ): FormProperty<TValue> => {
         const path = collectPath(propertyPath);
         const value = get(state, path) as TValue;
-        const error = get(errors, path) as string | undefined;
+        const error = errors.get(path);
         return { value, error, name: path, hasError: !!error };
     };
 
+    /**
+     * Returns all validation errors of the form, including form-level errors, which have an empty
+     * property path `name`.
+     */
+    context.errors = (): readonly FormValidationError[] =>
+        [...errors].map(([name, message]) => ({ name, message }));
+
     context.formId = formId;
     context.frameId = frameId;
 
@@ -104,8 +264,11 @@ function createFormContext<FormStateSchema extends SomeFormSchema>(
         target,
         onSubmit,
         onValidate,
+        children,
         ...props
     }: FormProps<InputFormState>): JsxElement => {
+        // Forms submitted natively by the browser send the CSRF token via the request body.
+        const csrfToken = useCsrfToken();
         return (
             <form
                 {...props}
@@ -116,7 +279,12 @@ function createFormContext<FormStateSchema extends SomeFormSchema>(
                 data-hy-validate={onValidate?.url ?? onSubmit.url}
                 data-hy-frame={target?.frameId}
                 novalidate
-            />
+            >
+                {csrfToken !== undefined && (
+                    <input type="hidden" name={csrfParam} value={csrfToken} />
+                )}
+                {children}
+            </form>
         );
     };
 
@@ -140,7 +308,270 @@ function createFormContext<FormStateSchema extends SomeFormSchema>(
         );
     };
 
+    // The field components below are bound to the validated form state's property types, so that,
+    // e.g., checkboxes can only be bound to Boolean properties. The property paths, however, are the
+    // same for the partial form state the fields are actually rendered from.
+
+    context.Input = ({ property, ...props }: FormInputProps<OutputFormState>): JsxElement => {
+        const field = getField(property, props["aria-describedby"]);
+        return (
+            <>
+                <input
+                    {...props}
+                    {...field.attributes}
+                    value={props.type === "file" ? undefined : toFieldValue(field.value)}
+                />
+                {field.error}
+            </>
+        );
+    };
+
+    context.Textarea = ({ property, ...props }: FormTextareaProps<OutputFormState>): JsxElement => {
+        const field = getField(property, props["aria-describedby"]);
+        return (
+            <>
+                <textarea {...props} {...field.attributes}>
+                    {toFieldValue(field.value)}
+                </textarea>
+                {field.error}
+            </>
+        );
+    };
+
+    context.Select = ({
+        property,
+        options,
+        ...props
+    }: FormSelectProps<OutputFormState>): JsxElement => {
+        const field = getField(property, props["aria-describedby"]);
+        const value = toFieldValue(field.value);
+        return (
+            <>
+                <select {...props} {...field.attributes}>
+                    {options.map((option) => (
+                        <option
+                            value={option.value}
+                            selected={option.value === value || undefined}
+                            disabled={option.disabled === true || undefined}
+                        >
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+                {field.error}
+            </>
+        );
+    };
+
+    context.Checkbox = ({ property, ...props }: FormCheckboxProps<OutputFormState>): JsxElement => {
+        const field = getField(property, props["aria-describedby"]);
+        return (
+            <>
+                <input
+                    {...props}
+                    {...field.attributes}
+                    type="checkbox"
+                    value="true"
+                    checked={field.value === true || field.value === "true" || undefined}
+                />
+                {field.error}
+            </>
+        );
+    };
+
+    context.RadioGroup = ({
+        property,
+        options,
+        disabled,
+        ...props
+    }: FormRadioGroupProps<OutputFormState>): JsxElement => {
+        const { attributes, value, error } = getField(property, props["aria-describedby"]);
+        const selectedValue = toFieldValue(value);
+        return (
+            <>
+                <div
+                    {...props}
+                    id={attributes.id}
+                    role="radiogroup"
+                    aria-invalid={attributes["aria-invalid"]}
+                    aria-describedby={attributes["aria-describedby"]}
+                >
+                    {options.map((option, index) => (
+                        <label>
+                            <input
+                                type="radio"
+                                id={`${attributes.id}-${index}`}
+                                name={attributes.name}
+                                value={option.value}
+                                checked={option.value === selectedValue || undefined}
+                                disabled={
+                                    disabled === true || option.disabled === true || undefined
+                                }
+                                aria-invalid={attributes["aria-invalid"]}
+                            />
+                            {option.label}
+                        </label>
+                    ))}
+                </div>
+                {error}
+            </>
+        );
+    };
+
+    /**
+     * Lists all of the form's validation errors, linking each error to the field it belongs to. The
+     * `children`, e.g., a heading, are rendered before the list. Renders nothing if the form is
+     * valid.
+     */
+    context.ErrorSummary = ({ children, ...props }: FormErrorSummaryProps): JsxElement => {
+        if (errors.size === 0) {
+            return null;
+        }
+
+        return (
+            <div {...props} id={`${formId}-errors`} role="alert">
+                {children}
+                <ul>
+                    {context.errors().map(({ name, message }) => (
+                        <li>
+                            {name === "" ? message : <a href={`#${formId}-${name}`}>{message}</a>}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        );
+    };
+
+    /**
+     * Renders the items of a form array, wrapping each item in an element with a stable
+     * `data-hy-key`, so that the items' DOM elements are retained when items are added, removed, or
+     * moved. The keys are sent along with the form data in hidden inputs. Arrays that can become
+     * empty should have a default value, e.g., `z.array(...).default([])`, because the browser
+     * doesn't send anything for empty arrays.
+     */
+    context.ArrayField = ({
+        property,
+        children,
+        ...props
+    }: FormArrayFieldProps<OutputFormState>): JsxElement => {
+        const { name, value } = context(property);
+        const items = Array.isArray(value) ? value : [];
+        const keys = getFormArrayKeys(arrayKeys, name, items.length);
+
+        return (
+            <div {...props} id={`${formId}-${name}`}>
+                {items.map((_, index) => (
+                    <div data-hy-key={keys[index]}>
+                        <input type="hidden" name={`$keys.${name}.${index}`} value={keys[index]} />
+                        {children(index)}
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    context.AddItemButton = <TItem,>({
+        property,
+        href,
+        item,
+        index,
+        ...props
+    }: FormAddItemButtonProps<OutputFormState, TItem, InputFormState>): JsxElement => (
+        <ArrayButton
+            {...props}
+            href={href}
+            operation={{ operation: "add", path: collectPath(property), index, item }}
+        />
+    );
+
+    context.RemoveItemButton = <TItem,>({
+        property,
+        href,
+        index,
+        ...props
+    }: FormRemoveItemButtonProps<OutputFormState, TItem, InputFormState>): JsxElement => (
+        <ArrayButton
+            {...props}
+            href={href}
+            operation={{ operation: "remove", path: collectPath(property), index }}
+        />
+    );
+
+    context.MoveItemButton = <TItem,>({
+        property,
+        href,
+        index,
+        to,
+        ...props
+    }: FormMoveItemButtonProps<OutputFormState, TItem, InputFormState>): JsxElement => (
+        <ArrayButton
+            {...props}
+            href={href}
+            operation={{ operation: "move", path: collectPath(property), index, to }}
+        />
+    );
+
     return context;
+
+    /**
+     * Sends the form data along with the array `operation` to the given route or, if none is given,
+     * to the form's validation route, which the browser looks up on the form element.
+     */
+    function ArrayButton({
+        href,
+        operation,
+        ...props
+    }: Omit<JSX.HTMLAttributes<HTMLButtonElement>, "type"> & {
+        readonly href: Href<"POST", FormValues<InputFormState>> | undefined;
+        readonly operation: FormArrayOperation;
+    }): JsxElement {
+        const body = toUrlSearchParams({ $formArray: operation });
+        return (
+            <button
+                {...props}
+                type="button"
+                data-hy-method="POST"
+                data-hy-frame={frameId}
+                data-hy-url={href?.url}
+                data-hy-body={href?.body ? `${href.body}&${body}` : body}
+                data-hy-form={formId}
+            />
+        );
+    }
+
+    /**
+     * Gets the attributes shared by all form fields bound to the given property. `aria-invalid` is
+     * used by the browser to decide whether to show the field's validation error. The error message
+     * is linked to the field via `aria-describedby`, retaining any other descriptions.
+     */
+    function getField(property: PropertySelector<any, unknown>, describedBy: string | undefined) {
+        const { name, value, error } = context(property);
+        const id = `${formId}-${name}`;
+        const errorId = `${id}-error`;
+
+        return {
+            value,
+            attributes: {
+                id,
+                name,
+                "aria-invalid": error ? ("true" as const) : undefined,
+                "aria-describedby":
+                    [describedBy, error ? errorId : undefined].filter(Boolean).join(" ") ||
+                    undefined,
+            },
+            error: error ? (
+                <span id={errorId} data-hy-field-error>
+                    {error}
+                </span>
+            ) : null,
+        };
+    }
+}
+
+/** Serializes the given form state value into the string the browser will send back. */
+function toFieldValue(value: unknown) {
+    const packed = pack(value);
+    return typeof packed === "string" ? packed : undefined;
 }
 
 export function createForm<FormStateSchema extends SomeFormSchema>(
@@ -149,6 +580,7 @@ export function createForm<FormStateSchema extends SomeFormSchema>(
     FormContent: JsxComponent<{ form: FormContext<FormStateSchema> }>,
 ) {
     type InputFormState = z.input<FormStateSchema>;
+    type OutputFormState = z.output<FormStateSchema>;
     type PartialFormState = z.output<ToPartialSchema<FormStateSchema>>;
 
     if (formId.includes("@")) {
@@ -160,7 +592,15 @@ export function createForm<FormStateSchema extends SomeFormSchema>(
     const getSchema = async () =>
         typeof formStateSchema === "function" ? await formStateSchema() : formStateSchema;
 
-    const Form = async ({ formState }: { formState: PartialFormState }) => {
+    const FormFrame = async ({
+        formState,
+        arrayKeys,
+        serverErrors = [],
+    }: {
+        formState: PartialFormState;
+        arrayKeys: FormArrayKeys;
+        serverErrors?: readonly FormError<OutputFormState>[];
+    }) => {
         return (
             <Frame>
                 <FormContent
@@ -169,23 +609,48 @@ export function createForm<FormStateSchema extends SomeFormSchema>(
                         frameId,
                         formId,
                         formState,
+                        arrayKeys,
+                        serverErrors,
                     )}
                 />
             </Frame>
         );
     };
 
-    async function getPartialFormState(): Promise<PartialFormState> {
+    const Form = ({ formState }: { formState: PartialFormState }) => (
+        <FormFrame formState={formState} arrayKeys={{}} />
+    );
+
+    async function getPartialFormState(): Promise<{
+        formState: PartialFormState;
+        arrayKeys: FormArrayKeys;
+    }> {
         const schema = await getSchema();
         const { method, searchParams, requestBody } = useHttpContext();
         const paramsSource = method === "GET" ? searchParams : requestBody;
 
-        const { $form } = parseUrlSearchParams(
-            z.object({ $form: toPartialSchema(schema) }),
+        // We first parse the form state without any validations, so that we can apply array
+        // operations before the form state is unpacked according to the partial schema.
+        const { $form: rawFormState, $formArray } = parseUrlSearchParams(
+            z.object({ $form: z.unknown(), $formArray: formArrayOperationSchema.optional() }),
             paramsSource,
         )!;
 
-        return $form!;
+        const { $keys, ...state }: Record<string, unknown> =
+            rawFormState && typeof rawFormState === "object" ? { ...rawFormState } : {};
+        const arrayKeys: FormArrayKeys = $keys && typeof $keys === "object" ? { ...$keys } : {};
+
+        if ($formArray) {
+            applyFormArrayOperation(state, arrayKeys, $formArray);
+        }
+
+        // The browser doesn't send anything for forms without any fields, e.g., a form consisting of
+        // an empty array only.
+        const { $form } = unpack(z.object({ $form: toPartialSchema(schema) }), {
+            $form: state as PackedData,
+        })!;
+
+        return { formState: $form!, arrayKeys };
     }
 
     Form.update = (
@@ -194,12 +659,13 @@ export function createForm<FormStateSchema extends SomeFormSchema>(
         return (<Update />) as any;
 
         async function Update() {
-            const updatedState = await updateState(await getPartialFormState());
+            const { formState, arrayKeys } = await getPartialFormState();
+            const updatedState = await updateState(formState);
             const isValid = (await getSchema()).safeParse(updatedState).success;
 
             return (
                 <HttpStatusCode code={isValid ? 200 : 422}>
-                    <Form formState={updatedState} />
+                    <FormFrame formState={updatedState} arrayKeys={arrayKeys} />
                 </HttpStatusCode>
             );
         }
@@ -210,12 +676,12 @@ export function createForm<FormStateSchema extends SomeFormSchema>(
          * The action that is carried out if the form passed validation, like storing the data in
          * some database, sending an e-mail, etc.
          */
-        action: JsxComponent<{ formState: z.output<FormStateSchema> }>,
+        action: JsxComponent<{ formState: OutputFormState }>,
     ): FormElement<InputFormState> => {
         return (<Submit />) as any;
 
         async function Submit() {
-            const formState = await getPartialFormState();
+            const { formState, arrayKeys } = await getPartialFormState();
             const result = (await getSchema()).safeParse(formState);
 
             if (result.success) {
@@ -228,19 +694,38 @@ export function createForm<FormStateSchema extends SomeFormSchema>(
                 // if this header is sent, we don't execute the submit action the form.
                 const validationOnly = !!useRequestHeader("x-hy-validate-form");
                 return validationOnly ? (
-                    <Form formState={formState} />
+                    <FormFrame formState={formState} arrayKeys={arrayKeys} />
                 ) : (
                     action({ formState: result.data })
                 );
             } else {
                 return (
                     <HttpStatusCode code={422}>
-                        <Form formState={formState} />
+                        <FormFrame formState={formState} arrayKeys={arrayKeys} />
                     </HttpStatusCode>
                 );
             }
         }
     };
 
+    /**
+     * Re-renders the form with the given validation errors and a 422 HTTP status code. Return this
+     * from the form's submit action for errors that can only be detected by side effects of the
+     * action, e.g., a unique constraint violation reported by the database. Errors without a
+     * property apply to the entire form.
+     */
+    Form.invalid = (errors: readonly FormError<OutputFormState>[]): JsxElement => {
+        return <Invalid />;
+
+        async function Invalid() {
+            const { formState, arrayKeys } = await getPartialFormState();
+            return (
+                <HttpStatusCode code={422}>
+                    <FormFrame formState={formState} arrayKeys={arrayKeys} serverErrors={errors} />
+                </HttpStatusCode>
+            );
+        }
+    };
+
     return Form;
 }
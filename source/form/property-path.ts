@@ -7,11 +7,36 @@ export type PropertyPath = string;
 
 /**
  * Selects a property from the given object as either a string or a lambda function, e.g.,
- * `"a.b.c.0"` or, equivalently, `s => s.a.b.c[0]`.
+ * `"a.b.c.0"` or, equivalently, `s => s.a.b.c[0]`. For unions of objects, e.g., the options of a
+ * discriminated union, the properties of all options can be selected, as only the currently active
+ * option is known at runtime.
  */
 export type PropertySelector<TObject extends Record<string, unknown>, TValue> =
     | PropertyPath
-    | ((obj: TObject) => TValue);
+    | ((obj: MergeUnions<TObject>) => TValue);
+
+/**
+ * Recursively merges all unions of plain objects into a single object type with the properties of
+ * all union members. Properties that don't exist on all union members might be `undefined`. Other
+ * types like primitives or class instances are retained as is.
+ */
+export type MergeUnions<T> =
+    | MergeNonObjects<Exclude<T, Record<string, unknown>>>
+    | MergeObjects<Extract<T, Record<string, unknown>>>;
+
+type MergeNonObjects<T> = T extends readonly (infer E)[] ? MergeUnions<E>[] : T;
+
+type MergeObjects<T extends Record<string, unknown>> = [T] extends [never]
+    ? never
+    : { [K in KeysOfUnion<T>]: MergeUnions<ValueOfUnion<T, K>> };
+
+type KeysOfUnion<T> = T extends unknown ? keyof T : never;
+
+type ValueOfUnion<T, K extends PropertyKey> = T extends unknown
+    ? K extends keyof T
+        ? T[K]
+        : undefined
+    : never;
 
 /**
  * Uses a proxy object to simulate and collect a navigation through an object by the given
@@ -47,7 +72,7 @@ export function collectPath<T extends Record<string, unknown>>(
                 return handler.get!(target, prop, receiver);
             },
         },
-    ) as unknown as T;
+    ) as unknown as MergeUnions<T>;
 
     selector(collector);
 
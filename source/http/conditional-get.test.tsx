@@ -0,0 +1,179 @@
+import { ETag, type ETagOptions, LastModified } from "@/http/conditional-get";
+import { HttpStatusCode } from "@/http/http-context";
+import { CspNonce } from "@/jsx/csp-nonce";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { Router, routes } from "@/routing/router";
+import { runTestApp } from "@/test-helpers";
+
+describe("conditional-get", () => {
+    const lastModified = new Date("2024-03-01T12:00:00Z");
+    const rs = routes({
+        "GET /": () => <>content</>,
+        "GET /nonce": () => <CspNonce />,
+        "GET /versioned": () => (
+            <ETag value="v1">
+                <ETag value="v2">versioned</ETag>
+            </ETag>
+        ),
+        "GET /weak": () => (
+            <ETag value="v1" weak>
+                weak
+            </ETag>
+        ),
+        "GET /modified": () => <LastModified date={lastModified}>modified</LastModified>,
+        "GET /missing": () => (
+            <HttpStatusCode code={404}>
+                <ETag value="v1">missing</ETag>
+            </HttpStatusCode>
+        ),
+        "POST /versioned": () => <ETag value="v1">posted</ETag>,
+    });
+
+    function createFetch(options?: { etag?: boolean | ETagOptions; streaming?: boolean }) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            options,
+        );
+
+        return (url: string, headers?: Record<string, string>, method = "GET") =>
+            handler(new Request(`http://localhost${url}`, { method, headers }));
+    }
+
+    it("answers requests with matching ETags with 304", async () => {
+        for (const streaming of [false, true]) {
+            const fetch = createFetch({ streaming });
+
+            const response = await fetch("/versioned");
+            expect(response.status).toBe(200);
+            expect(response.headers.get("etag")).toBe('"v2"');
+            expect(await response.text()).toBe("versioned");
+
+            const notModifiedResponse = await fetch("/versioned", { "if-none-match": '"v2"' });
+            expect(notModifiedResponse.status).toBe(304);
+            expect(notModifiedResponse.headers.get("etag")).toBe('"v2"');
+            expect(notModifiedResponse.headers.get("content-type")).toBeNull();
+            expect(await notModifiedResponse.text()).toBe("");
+
+            const listResponse = await fetch("/versioned", { "if-none-match": '"v1", W/"v2"' });
+            expect(listResponse.status).toBe(304);
+
+            const anyResponse = await fetch("/versioned", { "if-none-match": "*" });
+            expect(anyResponse.status).toBe(304);
+
+            const modifiedResponse = await fetch("/versioned", { "if-none-match": '"v1"' });
+            expect(modifiedResponse.status).toBe(200);
+            expect(await modifiedResponse.text()).toBe("versioned");
+        }
+    });
+
+    it("compares weak ETags", async () => {
+        const fetch = createFetch();
+
+        const response = await fetch("/weak");
+        expect(response.headers.get("etag")).toBe('W/"v1"');
+
+        const notModifiedResponse = await fetch("/weak", { "if-none-match": '"v1"' });
+        expect(notModifiedResponse.status).toBe(304);
+    });
+
+    it("answers requests with unchanged modification dates with 304", async () => {
+        const fetch = createFetch();
+
+        const response = await fetch("/modified");
+        expect(response.headers.get("last-modified")).toBe("Fri, 01 Mar 2024 12:00:00 GMT");
+
+        const notModifiedResponse = await fetch("/modified", {
+            "if-modified-since": "Fri, 01 Mar 2024 12:00:00 GMT",
+        });
+        expect(notModifiedResponse.status).toBe(304);
+
+        const modifiedResponse = await fetch("/modified", {
+            "if-modified-since": "Fri, 01 Mar 2024 11:59:59 GMT",
+        });
+        expect(modifiedResponse.status).toBe(200);
+
+        const etagPrecedenceResponse = await fetch("/modified", {
+            "if-none-match": '"v1"',
+            "if-modified-since": "Fri, 01 Mar 2024 12:00:00 GMT",
+        });
+        expect(etagPrecedenceResponse.status).toBe(200);
+    });
+
+    it("computes ETags from the rendered HTML if enabled", async () => {
+        expect((await createFetch()("/")).headers.get("etag")).toBeNull();
+
+        const fetch = createFetch({ etag: true });
+        const response = await fetch("/");
+        const etag = response.headers.get("etag")!;
+        expect(etag).toMatch(/^"[\w-]{43}"$/);
+        expect((await fetch("/")).headers.get("etag")).toBe(etag);
+        expect((await fetch("/", { "if-none-match": etag })).status).toBe(304);
+        expect((await fetch("/versioned")).headers.get("etag")).toBe('"v2"');
+
+        const weakResponse = await createFetch({ etag: { weak: true } })("/");
+        expect(weakResponse.headers.get("etag")).toBe(`W/${etag}`);
+    });
+
+    it("ignores the CSP nonce when computing ETags", async () => {
+        const fetch = createFetch({ etag: true });
+        const response = await fetch("/nonce");
+        const otherResponse = await fetch("/nonce");
+
+        expect(await response.text()).not.toBe(await otherResponse.text());
+        expect(otherResponse.headers.get("etag")).toBe(response.headers.get("etag"));
+        expect(
+            (await fetch("/nonce", { "if-none-match": response.headers.get("etag")! })).status,
+        ).toBe(304);
+    });
+
+    it("varies declared ETags and modification dates by the frame request headers", async () => {
+        const fetch = createFetch();
+        expect((await fetch("/versioned")).headers.get("vary")).toBe("x-hy, x-hy-frame-id");
+        expect((await fetch("/modified")).headers.get("vary")).toBe("x-hy, x-hy-frame-id");
+        expect((await fetch("/")).headers.get("vary")).toBeNull();
+    });
+
+    it("only answers successful GET requests with 304", async () => {
+        const fetch = createFetch();
+
+        const missingResponse = await fetch("/missing", { "if-none-match": '"v1"' });
+        expect(missingResponse.status).toBe(404);
+
+        const postResponse = await fetch(
+            "/versioned",
+            { "if-none-match": '"v1"', "x-hy": "true" },
+            "POST",
+        );
+        expect(postResponse.status).toBe(200);
+        expect(await postResponse.text()).toBe("posted");
+    });
+
+    it("supports conditional GET requests via Express", () =>
+        runTestApp(
+            rs,
+            async (href, fetch) => {
+                const response = await fetch(href("GET /"));
+                const etag = response.headers.get("etag")!;
+                expect(etag).toMatch(/^"[\w-]{43}"$/);
+                expect((await fetch(href("GET /"), { "if-none-match": etag })).status).toBe(304);
+
+                const versionedResponse = await fetch(href("GET /versioned"), {
+                    "if-none-match": '"v2"',
+                });
+                expect(versionedResponse.status).toBe(304);
+            },
+            { etag: true },
+        ));
+
+    it("supports conditional GET requests via Express when streaming", () =>
+        runTestApp(
+            rs,
+            async (href, fetch) => {
+                const response = await fetch(href("GET /versioned"), { "if-none-match": '"v2"' });
+                expect(response.status).toBe(304);
+                expect(await response.text()).toBe("");
+            },
+            { streaming: true },
+        ));
+});
@@ -0,0 +1,138 @@
+import { createHash } from "node:crypto";
+import { useHttpContext } from "@/http/http-context";
+import type { JsxElement, PropsWithChildren } from "@/jsx/jsx-types";
+
+/**
+ * Frame responses and full page responses for the same URL are different, even though
+ * component-declared ETags and modification dates are the same for both, so caches must distinguish
+ * them by the headers HyTTS sends with frame requests.
+ */
+const varyHeader = "x-hy, x-hy-frame-id";
+
+/** Configures the ETags that HyTTS computes from the rendered HTML. */
+export type ETagOptions = {
+    /**
+     * If `true`, weak ETags are generated, indicating that responses with the same ETag are
+     * semantically equivalent, but not necessarily byte-for-byte identical. Defaults to `false`.
+     */
+    readonly weak?: boolean;
+};
+
+export type ETagProps = PropsWithChildren<{
+    /**
+     * The version key the ETag is derived from, e.g., the version number or the last modification
+     * timestamp of the entity shown on the page. It must change whenever the rendered HTML
+     * changes.
+     */
+    readonly value: string;
+    /** If `true`, a weak ETag is sent. Defaults to `false`. */
+    readonly weak?: boolean;
+}>;
+
+/**
+ * Declares the version of the response's content by sending an ETag. Subsequent GET requests that
+ * send the same ETag via the `If-None-Match` header are answered with a "304 - not modified" status
+ * code without any content, so that the browser reuses its cached copy. The ETag must identify all
+ * of the data the response depends on, including the current user, for instance. If the ETag is
+ * declared by multiple component instances, the last one wins.
+ *
+ * Note that the full component tree is still rendered before the 304 is sent, as rendering can't be
+ * stopped early, so conditional requests only save bandwidth, not rendering time.
+ */
+export function ETag({ value, weak, children }: ETagProps): JsxElement {
+    const { setHeader } = useHttpContext();
+    setHeader("etag", formatETag(value, weak));
+    setHeader("vary", varyHeader);
+    return <>{children}</>;
+}
+
+export type LastModifiedProps = PropsWithChildren<{
+    /** The date and time the response's content was last modified. */
+    readonly date: Date;
+}>;
+
+/**
+ * Declares the date and time the response's content was last modified. Subsequent GET requests that
+ * send the same or a later date via the `If-Modified-Since` header are answered with a "304 - not
+ * modified" status code without any content, unless they also send an `If-None-Match` header, which
+ * takes precedence. Just like for {@link ETag}, the full component tree is still rendered.
+ */
+export function LastModified({ date, children }: LastModifiedProps): JsxElement {
+    const { setHeader } = useHttpContext();
+    setHeader("last-modified", date.toUTCString());
+    setHeader("vary", varyHeader);
+    return <>{children}</>;
+}
+
+/**
+ * Computes an ETag from the rendered HTML. The request's CSP nonce, which is different for every
+ * request, is removed from the HTML before hashing, so that the same content always results in the
+ * same ETag. The browser replaces the nonce of cached frame responses accordingly.
+ */
+export function computeETag(html: string, cspNonce: string, options: ETagOptions) {
+    return formatETag(
+        createHash("sha256").update(html.replaceAll(cspNonce, "")).digest("base64url"),
+        options.weak,
+    );
+}
+
+/**
+ * Checks whether the browser's cached copy of the response is still up-to-date, in which case the
+ * response should be replaced by an empty one with a "304 - not modified" status code. Only
+ * successful GET requests are considered.
+ *
+ * The browser applies the headers of a 304 response to its cached copy. With a nonce-based content
+ * security policy, the policy of the current request would thus no longer match the nonces of the
+ * cached document's inline scripts, blocking all of them. Therefore, only frame requests issued by
+ * HyTTS are answered with 304 in that case, as HyTTS replaces the nonce of cached frame responses.
+ */
+export function isNotModified(
+    method: string,
+    statusCode: number,
+    requestHeaders: HeaderLookup,
+    responseHeaders: HeaderLookup,
+) {
+    if (method !== "GET" || statusCode !== 200) {
+        return false;
+    }
+
+    const cspHeaders = ["content-security-policy", "content-security-policy-report-only"];
+    const hasCspNonce = cspHeaders.some((header) =>
+        responseHeaders.get(header)?.includes("'nonce-"),
+    );
+    if (hasCspNonce && !requestHeaders.get("x-hy")) {
+        return false;
+    }
+
+    const etag = responseHeaders.get("etag");
+    const ifNoneMatch = requestHeaders.get("if-none-match");
+    if (ifNoneMatch) {
+        // ETags are compared weakly, see https://www.rfc-editor.org/rfc/rfc9110#name-if-none-match
+        return (
+            !!etag &&
+            ifNoneMatch
+                .split(",")
+                .map((tag) => tag.trim())
+                .some((tag) => tag === "*" || stripWeakPrefix(tag) === stripWeakPrefix(etag))
+        );
+    }
+
+    const lastModified = Date.parse(responseHeaders.get("last-modified") ?? "");
+    const ifModifiedSince = Date.parse(requestHeaders.get("if-modified-since") ?? "");
+    return !isNaN(lastModified) && !isNaN(ifModifiedSince) && lastModified <= ifModifiedSince;
+}
+
+/** Looks up HTTP headers by name, compatible with the Web Fetch API's `Headers`. */
+type HeaderLookup = { readonly get: (header: string) => string | null | undefined };
+
+function formatETag(value: string, weak: boolean | undefined) {
+    if (!/^[\x21\x23-\x7e]+$/.test(value)) {
+        throw new Error(`Invalid ETag '${value}'.`);
+    }
+
+    return `${weak ? "W/" : ""}"${value}"`;
+}
+
+function stripWeakPrefix(etag: string) {
+    return etag.startsWith("W/") ? etag.slice(2) : etag;
+}
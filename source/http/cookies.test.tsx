@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { formatSetCookieHeader, SetCookie, useCookie } from "@/http/cookies";
+import { Redirect } from "@/http/http-context";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { getHrefs } from "@/routing/href";
+import { Router, routes } from "@/routing/router";
+import { runTestApp } from "@/test-helpers";
+
+describe("cookies", () => {
+    const rs = routes({
+        "GET /": () => <>{useCookie("theme", z.enum(["light", "dark"]).default("light"))}</>,
+        "GET /count": () => <>{useCookie("count", z.coerce.number().int())}</>,
+        "GET /set": () => (
+            <SetCookie name="theme" value="dark" maxAge={60} sameSite="Strict">
+                <SetCookie name="note" value="a; b=c" httpOnly={false} secure={false} />
+                set
+            </SetCookie>
+        ),
+        "GET /redirect": () => (
+            <SetCookie name="theme" value="dark">
+                <Redirect href={href("GET /")} />
+            </SetCookie>
+        ),
+    });
+    const href = getHrefs<typeof rs>();
+
+    const handler = createFetchHandler(
+        <Router routes={rs} />,
+        (error) => `fatal-error-callback: ${error}`,
+    );
+    const fetch = (url: string, cookie?: string) =>
+        handler(new Request(`http://localhost${url}`, { headers: cookie ? { cookie } : {} }));
+
+    it("parses cookies with the given schema", async () => {
+        expect(await (await fetch("/")).text()).toBe("light");
+        expect(await (await fetch("/", "a=b; theme=dark")).text()).toBe("dark");
+        expect(await (await fetch("/count", "count=3")).text()).toBe("3");
+
+        const invalidResponse = await fetch("/", "theme=blue");
+        expect(invalidResponse.status).toBe(400);
+
+        const missingResponse = await fetch("/count");
+        expect(missingResponse.status).toBe(400);
+    });
+
+    it("sets multiple cookies per response", async () => {
+        const response = await fetch("/set");
+        expect(await response.text()).toBe("set");
+        expect(response.headers.getSetCookie()).toStrictEqual([
+            "theme=dark; Path=/; Max-Age=60; HttpOnly; SameSite=Strict; Secure",
+            "note=a%3B%20b%3Dc; Path=/; SameSite=Lax",
+        ]);
+
+        expect(await (await fetch("/", "theme=dark; note=a%3B%20b%3Dc")).text()).toBe("dark");
+    });
+
+    it("retains cookies when redirecting", async () => {
+        const response = await fetch("/redirect");
+        expect(response.status).toBe(302);
+        expect(response.headers.get("location")).toBe("/");
+        expect(response.headers.getSetCookie()).toStrictEqual([
+            "theme=dark; Path=/; HttpOnly; SameSite=Lax; Secure",
+        ]);
+    });
+
+    it("rejects invalid cookie attributes", () => {
+        expect(() => formatSetCookieHeader("a b", "")).toThrow("Invalid cookie name");
+        expect(() => formatSetCookieHeader("a", "", { maxAge: 1.5 })).toThrow("integer");
+        expect(() => formatSetCookieHeader("a", "", { path: "/; Secure" })).toThrow(
+            "Invalid path or domain",
+        );
+        expect(formatSetCookieHeader("a", "", { domain: "example.com", path: "/app" })).toBe(
+            "a=; Path=/app; Domain=example.com; HttpOnly; SameSite=Lax; Secure",
+        );
+    });
+
+    it("sets multiple cookies per response via Express", () =>
+        runTestApp(rs, async (href, fetch) => {
+            const response = await fetch(href("GET /set"));
+            expect(response.headers.getSetCookie()).toHaveLength(2);
+        }));
+});
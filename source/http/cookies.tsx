@@ -0,0 +1,113 @@
+import { ZodError, type ZodType, type ZodTypeDef } from "zod";
+import { type HttpHeader, useHttpContext } from "@/http/http-context";
+import { HttpError } from "@/http/http-error";
+import type { JsxElement, PropsWithChildren } from "@/jsx/jsx-types";
+
+/** Configures the attributes of a cookie sent to the browser. */
+export type CookieOptions = {
+    /** Prevents JavaScript from accessing the cookie. Defaults to `true`. */
+    readonly httpOnly?: boolean;
+    /**
+     * Indicates whether the cookie is only sent over HTTPS connections. Defaults to `true`; note
+     * that browsers treat `localhost` as secure, even without HTTPS.
+     */
+    readonly secure?: boolean;
+    /** Controls whether the cookie is sent with cross-site requests. Defaults to `Lax`. */
+    readonly sameSite?: "Strict" | "Lax" | "None";
+    /**
+     * The number of seconds until the cookie expires. Use `0` to delete the cookie. If omitted, a
+     * session cookie is created that the browser discards when it is closed.
+     */
+    readonly maxAge?: number;
+    /** The path the cookie is restricted to. Defaults to `/`. */
+    readonly path?: string;
+    /** The domain the cookie is sent to. If omitted, the cookie is restricted to the current host. */
+    readonly domain?: string;
+};
+
+const cookieNameRegex = /^[\w!#$%&'*+.^`|~-]+$/;
+
+/**
+ * Gets the value of the cookie called `name` from the given `Cookie` header, if any. Cookie values
+ * are URL-decoded; malformed values are ignored.
+ */
+export function getCookie(cookieHeader: string | undefined, name: string): string | undefined {
+    for (const cookie of (cookieHeader ?? "").split(";")) {
+        const separatorIndex = cookie.indexOf("=");
+        if (separatorIndex !== -1 && cookie.slice(0, separatorIndex).trim() === name) {
+            try {
+                return decodeURIComponent(cookie.slice(separatorIndex + 1).trim());
+            } catch {
+                return undefined;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Formats the value of a `Set-Cookie` header for the cookie called `name` with the given `value`
+ * and `options`. The value is URL-encoded, so it can contain arbitrary characters.
+ */
+export function formatSetCookieHeader(name: string, value: string, options?: CookieOptions) {
+    if (!cookieNameRegex.test(name)) {
+        throw new Error(`Invalid cookie name '${name}'.`);
+    }
+
+    if (options?.maxAge !== undefined && !Number.isInteger(options.maxAge)) {
+        throw new Error("The max age of a cookie must be an integer.");
+    }
+
+    if (/[;\s]/.test(`${options?.path ?? ""}${options?.domain ?? ""}`)) {
+        throw new Error(`Invalid path or domain for cookie '${name}'.`);
+    }
+
+    return [
+        `${name}=${encodeURIComponent(value)}`,
+        `Path=${options?.path ?? "/"}`,
+        ...(options?.domain !== undefined ? [`Domain=${options.domain}`] : []),
+        ...(options?.maxAge !== undefined ? [`Max-Age=${Math.max(options.maxAge, 0)}`] : []),
+        ...(options?.httpOnly ?? true ? ["HttpOnly"] : []),
+        `SameSite=${options?.sameSite ?? "Lax"}`,
+        ...(options?.secure ?? true ? ["Secure"] : []),
+    ].join("; ");
+}
+
+/**
+ * Returns the value of the current request's cookie called `name`, parsed with the given `schema`.
+ * The schema receives `undefined` if the browser did not send the cookie, so use `.optional()` or
+ * `.default()` for cookies that might be missing. Throws an {@link HttpError} with a "BadRequest"
+ * error code if the cookie's value is invalid.
+ */
+export function useCookie<Output, Def extends ZodTypeDef, Input>(
+    name: string,
+    schema: ZodType<Output, Def, Input>,
+): Output {
+    try {
+        return schema.parse(getCookie(useHttpContext().getHeader("cookie"), name));
+    } catch (e: unknown) {
+        if (e instanceof ZodError) {
+            throw new HttpError("BadRequest", e);
+        }
+        throw e;
+    }
+}
+
+export type SetCookieProps = PropsWithChildren<
+    CookieOptions & {
+        readonly name: string;
+        readonly value: string;
+    }
+>;
+
+/**
+ * Sends the cookie of the given `name` and with the given `value` to the browser as part of the
+ * response. Unlike the {@link HttpHeader} component, multiple cookies can be set per response. If
+ * the same cookie is set by multiple component instances, the browser retains the value that is
+ * sent last. To delete a cookie, set its `maxAge` to `0`.
+ */
+export function SetCookie({ name, value, children, ...options }: SetCookieProps): JsxElement {
+    useHttpContext().appendHeader("set-cookie", formatSetCookieHeader(name, value, options));
+    return <>{children}</>;
+}
@@ -0,0 +1,93 @@
+import { createHash } from "node:crypto";
+import type { CspOptions } from "@/http/csp";
+import { createBrowserScript, Script } from "@/jsx/browser-script";
+import { useCspNonce } from "@/jsx/csp-nonce";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { Router, routes } from "@/routing/router";
+
+describe("csp", () => {
+    const rs = routes({
+        "GET /": () => <>{useCspNonce()}</>,
+        "GET /script": () => (
+            <>
+                <Script script={createBrowserScript(() => alert("a"))} />
+                <Script script={createBrowserScript(() => alert("b"))} />
+            </>
+        ),
+    });
+
+    function createFetch(csp?: boolean | CspOptions) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            { csp },
+        );
+
+        return (url: string) => handler(new Request(`http://localhost${url}`));
+    }
+
+    it("does not send a policy by default", async () => {
+        const response = await createFetch()("/");
+        expect(response.headers.get("content-security-policy")).toBeNull();
+    });
+
+    it("sends a policy with the current request's nonce", async () => {
+        const response = await createFetch(true)("/");
+        const nonce = await response.text();
+
+        expect(response.headers.get("content-security-policy")).toBe(
+            `default-src 'self'; script-src 'self' 'nonce-${nonce}'; object-src 'none'; base-uri 'self'`,
+        );
+
+        const otherResponse = await createFetch(true)("/");
+        expect(await otherResponse.text()).not.toBe(nonce);
+    });
+
+    it("supports report-only mode and custom directives", async () => {
+        const response = await createFetch({
+            reportOnly: true,
+            directives: {
+                "script-src": ["https://cdn.example.com"],
+                "img-src": ["'self'", "data:"],
+                "report-uri": ["/csp-report"],
+            },
+        })("/");
+        const nonce = await response.text();
+
+        expect(response.headers.get("content-security-policy")).toBeNull();
+        expect(response.headers.get("content-security-policy-report-only")).toBe(
+            `default-src 'self'; script-src https://cdn.example.com 'nonce-${nonce}'; ` +
+                "object-src 'none'; base-uri 'self'; img-src 'self' data:; report-uri /csp-report",
+        );
+
+        const invalidResponse = await createFetch({ directives: { "img-src": ["a; b"] } })("/");
+        expect(invalidResponse.status).toBe(500);
+    });
+
+    it("allows inline scripts via their hashes", async () => {
+        const response = await createFetch({ scriptHashes: true })("/script");
+        const html = await response.text();
+        const scripts = [...html.matchAll(/<script>(.*?)<\/script>/g)].map(([, script]) => script!);
+        const hashes = scripts.map(
+            (script) => `'sha256-${createHash("sha256").update(script).digest("base64")}'`,
+        );
+
+        expect(scripts).toHaveLength(2);
+        expect(html).not.toContain("nonce");
+        expect(response.headers.get("content-security-policy")).toBe(
+            `default-src 'self'; script-src 'self' ${hashes.join(" ")}; object-src 'none'; base-uri 'self'`,
+        );
+
+        const otherResponse = await createFetch({ scriptHashes: true })("/script");
+        expect(await otherResponse.text()).toBe(html);
+    });
+
+    it("does not support script hashes when streaming", () => {
+        expect(() =>
+            createFetchHandler(<Router routes={rs} />, undefined, {
+                streaming: true,
+                csp: { scriptHashes: true },
+            }),
+        ).toThrow("do not support streaming");
+    });
+});
@@ -0,0 +1,79 @@
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Configures the `Content-Security-Policy` header that HyTTS sends with each response, restricting
+ * the resources the browser is allowed to load and execute.
+ */
+export type CspOptions = {
+    /**
+     * If `true`, sends the `Content-Security-Policy-Report-Only` header instead, so that policy
+     * violations are only reported and not enforced. Defaults to `false`.
+     */
+    readonly reportOnly?: boolean;
+    /**
+     * Additional directives or overrides for the default directives, e.g., `{ "img-src": ["'self'",
+     * "data:"] }`. The sources of the `script-src` directive are always complemented by the current
+     * request's CSP nonce or by the script hashes.
+     */
+    readonly directives?: Readonly<Record<string, readonly string[]>>;
+    /**
+     * If `true`, inline scripts emitted by HyTTS are allowed via their hashes instead of the
+     * request's CSP nonce, so that the generated HTML is the same for all requests and can thus be
+     * cached. The hashes are only known once the entire page has been rendered, so script hashes
+     * cannot be used with streaming. As the policy of a page cannot be changed after it has been
+     * loaded, scripts emitted by subsequent frame updates are only allowed if they're part of the
+     * original page as well. Defaults to `false`.
+     */
+    readonly scriptHashes?: boolean;
+};
+
+const defaultDirectives: Readonly<Record<string, readonly string[]>> = {
+    "default-src": ["'self'"],
+    "script-src": ["'self'"],
+    "object-src": ["'none'"],
+    "base-uri": ["'self'"],
+};
+
+/** Gets the name of the HTTP header the policy is sent with. */
+export function getCspHeaderName(options: CspOptions) {
+    return options.reportOnly ? "content-security-policy-report-only" : "content-security-policy";
+}
+
+/**
+ * Formats the value of the `Content-Security-Policy` header, where the given `scriptSources`, i.e.,
+ * the CSP nonce or the script hashes, are added to the `script-src` directive.
+ */
+export function formatCspHeader(options: CspOptions, scriptSources: readonly string[]) {
+    const directives = { ...defaultDirectives, ...options.directives };
+    directives["script-src"] = [...(directives["script-src"] ?? []), ...scriptSources];
+
+    return Object.entries(directives)
+        .map(([name, sources]) => {
+            if (!/^[a-z-]+$/.test(name) || sources.some((source) => /[;,\s]/.test(source))) {
+                throw new Error(`Invalid content security policy directive '${name}'.`);
+            }
+
+            return [name, ...sources].join(" ");
+        })
+        .join("; ");
+}
+
+/** Creates a new random CSP nonce for a request. */
+export function createCspNonce() {
+    return randomBytes(32).toString("base64");
+}
+
+/** Computes the `script-src` hash source that allows the given inline script. */
+export function computeScriptHash(script: string) {
+    return `'sha256-${createHash("sha256").update(script).digest("base64")}'`;
+}
+
+/** Ensures that script hashes are not used together with streaming, which is unsupported. */
+export function ensureValidCspOptions(
+    csp: boolean | CspOptions | undefined,
+    streaming: boolean | undefined,
+) {
+    if (streaming && typeof csp === "object" && csp.scriptHashes) {
+        throw new Error("Content security policies with script hashes do not support streaming.");
+    }
+}
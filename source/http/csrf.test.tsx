@@ -0,0 +1,187 @@
+import { z } from "zod";
+import { Button } from "@/dom/links";
+import { createForm } from "@/form/form";
+import type { CsrfOptions } from "@/http/csrf";
+import { CsrfToken, useCsrfToken } from "@/http/http-context";
+import type { JsxElement } from "@/jsx/jsx-types";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { getHrefs } from "@/routing/href";
+import { guard, route, Router, routes } from "@/routing/router";
+
+describe("csrf", () => {
+    const form = createForm("form", z.object({ a: z.string().optional() }), ({ form }) => (
+        <>
+            <form.Form onSubmit={href("POST /submit")}>
+                <form.Button href={href("POST /submit")}>submit</form.Button>
+            </form.Form>
+            <Button href={href("POST /action")}>action</Button>
+            <Button href={href("GET /")}>reload</Button>
+        </>
+    ));
+
+    const guardedRequests: string[] = [];
+    const rs = routes({
+        "GET /": () => <>{useCsrfToken()}</>,
+        "GET /meta": () => <CsrfToken />,
+        "GET /form": (): JsxElement => form.update((s) => s),
+        "POST /submit": () => form.submit(() => <>submitted</>),
+        "POST /action": guard(
+            ({ children }) => {
+                guardedRequests.push("action");
+                return <>{children}</>;
+            },
+            route(z.object({}), () => <>done</>),
+        ),
+    });
+    const href = getHrefs<typeof rs>();
+
+    function createFetch(csrf?: boolean | CsrfOptions) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            { csrf },
+        );
+
+        return (url: string, headers: Record<string, string> = {}, body = "") =>
+            handler(
+                new Request(
+                    `http://localhost${url}`,
+                    url === "/action"
+                        ? {
+                              method: "POST",
+                              body,
+                              headers: {
+                                  "x-hy": "true",
+                                  "content-type": "application/x-www-form-urlencoded",
+                                  ...headers,
+                              },
+                          }
+                        : { headers },
+                ),
+            );
+    }
+
+    async function getToken(fetch: ReturnType<typeof createFetch>) {
+        const response = await fetch("/");
+        const cookie = response.headers.get("set-cookie")!;
+        const token = await response.text();
+        return { cookie, token };
+    }
+
+    it("sets a session cookie with the CSRF token and emits the token", async () => {
+        const fetch = createFetch(true);
+        const response = await fetch("/");
+        const cookie = response.headers.get("set-cookie");
+        const [, token] = /^hy-csrf=([\w-]{43}); Path=\/; HttpOnly; SameSite=Lax; Secure$/.exec(
+            cookie ?? "",
+        )!;
+
+        expect(await response.text()).toBe(token);
+        expect(await (await fetch("/meta", { cookie: `hy-csrf=${token}` })).text()).toBe(
+            `<meta name="hy-csrf-token" content="${token}">`,
+        );
+
+        const formResponse = await fetch("/form", { cookie: `a=b; hy-csrf=${token}` });
+        expect(formResponse.headers.get("set-cookie")).toBeNull();
+        expect(await formResponse.text()).toBe(
+            '<hy-frame id="form@frame">' +
+                '<form id="form" name="form" method="post" action="/submit" data-hy-validate="/submit" novalidate="true">' +
+                `<input type="hidden" name="$csrf" value="${token}">` +
+                '<button type="button" data-hy-method="POST" data-hy-frame="form@frame" data-hy-url="/submit" data-hy-form="form">submit</button>' +
+                "</form>" +
+                '<button type="button" data-hy-method="POST" data-hy-frame="form@frame" data-hy-url="/action">action</button>' +
+                '<button type="button" data-hy-method="GET" data-hy-frame="form@frame" data-hy-url="/">reload</button>' +
+                "</hy-frame>",
+        );
+    });
+
+    it("supports custom cookie options", async () => {
+        const fetch = createFetch({ cookieName: "csrf", secureCookie: false });
+        const response = await fetch("/");
+        expect(response.headers.get("set-cookie")).toMatch(
+            /^csrf=[\w-]{43}; Path=\/; HttpOnly; SameSite=Lax$/,
+        );
+
+        const { cookie, token } = await getToken(fetch);
+        const actionResponse = await fetch("/action", {
+            cookie: cookie.split(";")[0]!,
+            "x-hy-csrf": token,
+        });
+        expect(actionResponse.status).toBe(200);
+    });
+
+    it("accepts non-GET requests with the session's CSRF token", async () => {
+        const fetch = createFetch(true);
+        const { token } = await getToken(fetch);
+
+        const headerResponse = await fetch("/action", {
+            cookie: `hy-csrf=${token}`,
+            "x-hy-csrf": token,
+        });
+        expect(await headerResponse.text()).toBe("done");
+
+        const bodyResponse = await fetch(
+            "/action",
+            { cookie: `hy-csrf=${token}` },
+            `%24csrf=${token}`,
+        );
+        expect(await bodyResponse.text()).toBe("done");
+    });
+
+    it("accepts natively submitted forms only if CSRF protection is enabled", async () => {
+        const { token } = await getToken(createFetch(true));
+        const submit = (csrf: boolean) =>
+            createFetchHandler(<Router routes={rs} />, undefined, { csrf })(
+                new Request("http://localhost/action", {
+                    method: "POST",
+                    body: `%24csrf=${token}`,
+                    headers: {
+                        cookie: `hy-csrf=${token}`,
+                        "content-type": "application/x-www-form-urlencoded",
+                    },
+                }),
+            );
+
+        expect(await (await submit(true)).text()).toBe("done");
+        expect((await submit(false)).status).toBe(400);
+    });
+
+    it("rejects non-GET requests with missing or invalid CSRF tokens", async () => {
+        const fetch = createFetch(true);
+        const { token } = await getToken(fetch);
+        const { token: otherToken } = await getToken(fetch);
+
+        const rejected = [
+            await fetch("/action", { cookie: `hy-csrf=${token}` }),
+            await fetch("/action", { cookie: `hy-csrf=${token}`, "x-hy-csrf": otherToken }),
+            await fetch("/action", { cookie: `hy-csrf=${token}`, "x-hy-csrf": "invalid" }),
+            await fetch("/action", { "x-hy-csrf": token }),
+            await fetch("/action", { cookie: "hy-csrf=invalid", "x-hy-csrf": "invalid" }),
+        ];
+
+        for (const response of rejected) {
+            expect(response.status).toBe(403);
+            expect(await response.text()).toBe("fatal-error-callback: Error: Forbidden");
+        }
+    });
+
+    it("checks the CSRF token before rendering any guards", async () => {
+        const fetch = createFetch(true);
+        const { token } = await getToken(fetch);
+        guardedRequests.length = 0;
+
+        expect((await fetch("/action", { cookie: `hy-csrf=${token}` })).status).toBe(403);
+        expect(guardedRequests).toStrictEqual([]);
+    });
+
+    it("renders no meta tag for the CSRF token if disabled", async () => {
+        expect(await (await createFetch()("/meta")).text()).toBe("");
+    });
+
+    it("does not check CSRF tokens if disabled", async () => {
+        const fetch = createFetch();
+        const response = await fetch("/");
+        expect(response.headers.get("set-cookie")).toBeNull();
+        expect((await fetch("/action")).status).toBe(200);
+    });
+});
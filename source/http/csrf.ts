@@ -0,0 +1,71 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { formatSetCookieHeader, getCookie } from "@/http/cookies";
+import { HttpError } from "@/http/http-error";
+import { parseRawUrlSearchParams } from "@/serialization/url-params";
+
+/** Configures the protection against cross-site request forgery (CSRF) attacks. */
+export type CsrfOptions = {
+    /** The name of the cookie that stores the CSRF token. Defaults to `hy-csrf`. */
+    readonly cookieName?: string;
+    /**
+     * Indicates whether the cookie is only sent over HTTPS connections. Defaults to `true`; note
+     * that browsers treat `localhost` as secure, even without HTTPS.
+     */
+    readonly secureCookie?: boolean;
+};
+
+/** The HTTP header HyTTS sends the CSRF token with for all non-GET requests. */
+export const csrfHeader = "x-hy-csrf";
+
+/**
+ * The request body parameter that can alternatively be used to send the CSRF token, e.g., by forms
+ * that are submitted without HyTTS.
+ */
+export const csrfParam = "$csrf";
+
+const csrfTokenRegex = /^[\w-]{43}$/;
+
+/**
+ * Gets the CSRF token of the current session from the request's cookies. If there is none yet or
+ * the cookie is malformed, a new token is generated and sent to the browser as a session cookie
+ * that is inaccessible to JavaScript.
+ */
+export function initializeCsrfToken(
+    options: CsrfOptions,
+    getHeader: (header: string) => string | undefined,
+    appendHeader: (header: string, value: string) => void,
+): string {
+    const cookieName = options.cookieName ?? "hy-csrf";
+    const token = getCookie(getHeader("cookie"), cookieName);
+
+    if (token && csrfTokenRegex.test(token)) {
+        return token;
+    }
+
+    const newToken = randomBytes(32).toString("base64url");
+    appendHeader(
+        "set-cookie",
+        formatSetCookieHeader(cookieName, newToken, { secure: options.secureCookie }),
+    );
+
+    return newToken;
+}
+
+/**
+ * Ensures that the request sent the session's CSRF token either via the {@link csrfHeader} HTTP
+ * header or the {@link csrfParam} request body parameter, throwing an {@link HttpError} with a
+ * "Forbidden" error code otherwise.
+ */
+export function ensureValidCsrfToken(
+    expectedToken: string,
+    getHeader: (header: string) => string | undefined,
+    requestBody: string,
+) {
+    const token = getHeader(csrfHeader) ?? parseRawUrlSearchParams(requestBody)[csrfParam];
+    const expected = Buffer.from(expectedToken);
+    const actual = Buffer.from(typeof token === "string" ? token : "");
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new HttpError("Forbidden", "Invalid or missing CSRF token.");
+    }
+}
@@ -2,13 +2,16 @@ import { z } from "zod";
 import {
     AbsoluteRedirect,
     HttpHeader,
+    HttpResponse,
     HttpStatusCode,
     Redirect,
+    useHttpContext,
     useRequestedFrameId,
     useRequester,
     useRequestHeader,
     useUrlSearchParams,
 } from "@/http/http-context";
+import { renderToString } from "@/jsx/jsx-runtime";
 import { getHrefs, type Href } from "@/routing/href";
 import { route, routes } from "@/routing/router";
 import { runTestApp } from "@/test-helpers";
@@ -86,6 +89,40 @@ describe("http-context", () => {
             },
         ));
 
+    it("appends HTTP header values via `setHeader` if `appendHeader` is not provided", async () => {
+        const headers = new Map<string, string>();
+        const AppendHeaders = () => {
+            const { appendHeader } = useHttpContext();
+            appendHeader("x-test", "1");
+            appendHeader("X-Test", "2");
+            appendHeader("x-other", "3");
+            return null;
+        };
+
+        await renderToString(
+            <HttpResponse
+                value={{
+                    method: "GET",
+                    requestPath: [],
+                    searchParams: "",
+                    requestBody: "",
+                    redirect: () => {},
+                    getHeader: () => undefined,
+                    setHeader: (header, value) => headers.set(header, value),
+                    setStatusCode: () => {},
+                }}
+            >
+                <AppendHeaders />
+            </HttpResponse>,
+        );
+
+        expect([...headers]).toStrictEqual([
+            ["x-test", "1"],
+            ["X-Test", "1, 2"],
+            ["x-other", "3"],
+        ]);
+    });
+
     it("supports setting the HTTP status code", () =>
         runTestApp(
             routes({
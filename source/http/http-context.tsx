@@ -1,14 +1,28 @@
-import { randomBytes } from "node:crypto";
 import type { ZodType, ZodTypeDef } from "zod";
+import { formatSetCookieHeader, type SetCookie } from "@/http/cookies";
+import {
+    computeScriptHash,
+    createCspNonce,
+    type CspOptions,
+    formatCspHeader,
+    getCspHeaderName,
+} from "@/http/csp";
+import { type CsrfOptions, initializeCsrfToken } from "@/http/csrf";
 import { HttpError } from "@/http/http-error";
-import { type ContextProps, createContext, useContext } from "@/jsx/context";
-import { CspNonceContext } from "@/jsx/csp-nonce";
-import type { JsxElement, PropsWithChildren } from "@/jsx/jsx-types";
+import type { UploadedFile } from "@/http/multipart";
+import { Session, type SessionOptions } from "@/http/session";
+import { type ContextProps, createContext, useContext, useContextOrDefault } from "@/jsx/context";
+import { CspInlineScriptsContext, CspNonceContext } from "@/jsx/csp-nonce";
+import { type JsxElement, type PropsWithChildren, toJsxExpression } from "@/jsx/jsx-types";
+import { LoaderScope } from "@/jsx/loader";
+import { renderChildren } from "@/jsx/render-children";
 import type { Href } from "@/routing/href";
+import type { SigningOptions } from "@/routing/signing";
+import type { EncryptionKeyring } from "@/serialization/encryption";
 import { parseUrlSearchParams } from "@/serialization/url-params";
 
 /** The list of HTTP verbs supported by HyTTS. */
-export const httpMethods = ["GET", "POST"] as const;
+export const httpMethods = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
 
 /** The list of HTTP verbs supported by HyTTS. */
 export type HttpMethod = (typeof httpMethods)[number];
@@ -18,14 +32,34 @@ type HttpContext = {
     readonly requestPath: string[];
     readonly searchParams: string;
     readonly requestBody: string;
+    readonly uploadedFiles: ReadonlyMap<string, UploadedFile>;
+    readonly signing: SigningOptions | undefined;
+    readonly keyring: EncryptionKeyring | undefined;
+    readonly csrfToken: string | undefined;
+    readonly session: Session | undefined;
     readonly redirect: (url: string) => void;
     readonly getHeader: (header: string) => string | undefined;
     readonly setHeader: (header: string, value: string) => void;
+    readonly appendHeader: (header: string, value: string) => void;
     readonly setStatusCode: (code: number) => void;
 };
 
 const HttpContext = createContext<HttpContext>({ name: "http context" });
 
+/**
+ * Throws if the first part of a streamed response has already been sent to the browser, in which
+ * case the HTTP status code and headers can no longer be changed.
+ */
+export function ensureResponseNotStreamed(isStreaming: boolean, action: string) {
+    if (isStreaming) {
+        throw new Error(
+            `Cannot ${action} after the first part of the response has been streamed to the browser. ` +
+                "Set HTTP status codes, headers, and redirects before any HTML is streamed, or disable " +
+                "streaming.",
+        );
+    }
+}
+
 /** Provides access to the entire HTTP context. */
 export function useHttpContext() {
     return useContext(HttpContext);
@@ -36,28 +70,118 @@ export function useHttpContext() {
  * object, to all of its children.
  */
 export function HttpResponse(
-    props: ContextProps<Omit<HttpContext, "method"> & { readonly method: string }>,
+    props: ContextProps<
+        Omit<
+            HttpContext,
+            | "method"
+            | "uploadedFiles"
+            | "signing"
+            | "keyring"
+            | "csrfToken"
+            | "session"
+            | "appendHeader"
+        > & {
+            readonly method: string;
+            /**
+             * Adds another value to an HTTP header, e.g., to send multiple `set-cookie` headers. If
+             * omitted, the values are joined into a single header sent via `setHeader`.
+             */
+            readonly appendHeader?: (header: string, value: string) => void;
+            readonly uploadedFiles?: ReadonlyMap<string, UploadedFile>;
+            readonly signing?: SigningOptions;
+            readonly keyring?: EncryptionKeyring;
+            readonly csrf?: boolean | CsrfOptions;
+            readonly session?: SessionOptions;
+            readonly csp?: boolean | CspOptions;
+            readonly cspNonce?: string;
+        }
+    >,
 ) {
     const method = props.value.method as HttpMethod;
     if (!httpMethods.includes(method)) {
         throw new HttpError("MethodNotSupported");
     }
 
+    const { csrf, session, csp, cspNonce: nonce, ...value } = props.value;
+    const appendHeader = value.appendHeader ?? joinHeaders(value.setHeader);
+    const csrfToken = csrf
+        ? initializeCsrfToken(csrf === true ? {} : csrf, value.getHeader, appendHeader)
+        : undefined;
+
+    const cspNonce = nonce ?? createCspNonce();
+    const cspOptions = csp === true ? {} : csp === false ? undefined : csp;
+    if (cspOptions && !cspOptions.scriptHashes) {
+        value.setHeader(
+            getCspHeaderName(cspOptions),
+            formatCspHeader(cspOptions, [`'nonce-${cspNonce}'`]),
+        );
+    }
+
     return (
         <HttpContext
             value={{
-                ...props.value,
+                ...value,
                 method,
+                appendHeader,
+                uploadedFiles: props.value.uploadedFiles ?? new Map(),
+                signing: props.value.signing,
+                keyring: props.value.keyring,
+                csrfToken,
+                session:
+                    session &&
+                    new Session(session, value.getHeader("cookie"), (name, cookie, options) =>
+                        appendHeader("set-cookie", formatSetCookieHeader(name, cookie, options)),
+                    ),
                 requestPath: props.value.requestPath.filter((segment) => segment !== ""),
             }}
         >
-            <CspNonceContext value={randomBytes(32).toString("base64")}>
-                {props.children}
+            <CspNonceContext value={cspNonce}>
+                <LoaderScope>
+                    {cspOptions?.scriptHashes ? (
+                        <ScriptHashesCsp options={cspOptions}>{props.children}</ScriptHashesCsp>
+                    ) : (
+                        props.children
+                    )}
+                </LoaderScope>
             </CspNonceContext>
         </HttpContext>
     );
 }
 
+/**
+ * Emulates appending HTTP header values with the given `setHeader` function by setting the header
+ * to all of its values appended so far, separated by commas.
+ */
+function joinHeaders(setHeader: (header: string, value: string) => void) {
+    const headers = new Map<string, string[]>();
+    return (header: string, value: string) => {
+        const values = [...(headers.get(header.toLowerCase()) ?? []), value];
+        headers.set(header.toLowerCase(), values);
+        setHeader(header, values.join(", "));
+    };
+}
+
+/**
+ * Collects the hashes of all inline scripts rendered by the children, sending the content security
+ * policy once all children have been rendered.
+ */
+function ScriptHashesCsp({ options, children }: PropsWithChildren<{ options: CspOptions }>) {
+    const hashes = new Set<string>();
+    return toJsxExpression(async () => {
+        const html = await renderChildren(
+            <CspInlineScriptsContext value={(script) => hashes.add(computeScriptHash(script))}>
+                {children}
+            </CspInlineScriptsContext>,
+        );
+
+        useHttpContext().setHeader(
+            getCspHeaderName(options),
+            formatCspHeader(options, [...hashes]),
+        );
+        return html;
+    });
+}
+
 export type HttpHeaderProps = PropsWithChildren<{
     readonly name: string;
     readonly value: string;
@@ -68,7 +192,8 @@ export type HttpHeaderProps = PropsWithChildren<{
  * the same HTTP header is set by multiple component instances, the last one wins. So components
  * deeper in the tree can overwrite headers set by their ancestors. It is a race condition if
  * sibling components within the tree set different values for the same header, so the behavior in
- * that case is undefined.
+ * that case is undefined. Use {@link SetCookie} instead of the `set-cookie` header to send multiple
+ * cookies.
  */
 export function HttpHeader({ name, value, children }: HttpHeaderProps): JsxElement {
     useHttpContext().setHeader(name, value);
@@ -95,8 +220,10 @@ export type RedirectProps = PropsWithChildren<{
 }>;
 
 /**
- * Sets the URL the browser should be redirected to using a 302 HTTP status code. All rendered JSX
- * components are discarded. You cannot redirect more than once in the same HTTP response.
+ * Sets the URL the browser should be redirected to using a 302 HTTP status code, or a 303 HTTP
+ * status code for non-GET requests so that the redirect is always followed with a GET request. All
+ * rendered JSX components are discarded. You cannot redirect more than once in the same HTTP
+ * response.
  */
 export function Redirect({ href, children }: RedirectProps): JsxElement {
     // SECURITY: Do not allow redirects outside of our app, when someone fakes the `RouteUrl`, see:
@@ -120,8 +247,8 @@ export type AbsoluteRedirectProps = PropsWithChildren<{
 
 /**
  * Sets an absolute URL, typically to some other webpage or app, the browser should be redirected to
- * using a 302 HTTP status code. All rendered JSX components are discarded. You cannot redirect more
- * than once in the same HTTP response.
+ * using a 302 HTTP status code, or a 303 HTTP status code for non-GET requests. All rendered JSX
+ * components are discarded. You cannot redirect more than once in the same HTTP response.
  *
  * SECURITY: Redirecting to absolute URLs can be dangerous from a security perspective. Ensure that
  * you redirect to an expected URL and that you understand the OWASP security cheat sheet for
@@ -159,6 +286,63 @@ export function useUrlSearchParams<
     return parseUrlSearchParams(schema, useHttpContext().searchParams)!;
 }
 
+/**
+ * Retrieves the file uploaded with the current request that is referenced by `token` within the
+ * request body, if any. Returns `undefined` when rendering outside of an HTTP response.
+ */
+export function useUploadedFile(token: string) {
+    return useContextOrDefault(HttpContext, undefined)?.uploadedFiles.get(token);
+}
+
+/**
+ * Retrieves the options for signing route parameters configured for the current request, if any.
+ * Returns `undefined` when rendering outside of an HTTP response.
+ */
+export function useSigningOptions() {
+    return useContextOrDefault(HttpContext, undefined)?.signing;
+}
+
+/**
+ * Retrieves the keyring for encrypted route parameters configured for the current request, if any.
+ * Returns `undefined` when rendering outside of an HTTP response.
+ */
+export function useEncryptionKeyring() {
+    return useContextOrDefault(HttpContext, undefined)?.keyring;
+}
+
+/**
+ * Retrieves the CSRF token of the current session if CSRF protection is enabled. HyTTS already
+ * sends the token with all non-GET requests it issues, but you can use this function for requests
+ * issued in some other way. Returns `undefined` when rendering outside of an HTTP response.
+ */
+export function useCsrfToken() {
+    return useContextOrDefault(HttpContext, undefined)?.csrfToken;
+}
+
+/**
+ * If CSRF protection is enabled, HyTTS must know the session's CSRF token so that it can send it
+ * with all non-GET requests it issues. To do that, place this component into your document's head.
+ * Renders nothing if CSRF protection is disabled.
+ */
+export function CsrfToken() {
+    const token = useCsrfToken();
+    return token === undefined ? null : <meta name="hy-csrf-token" content={token} />;
+}
+
+/**
+ * Replaces the CSRF token seen by the children with the given `token` if CSRF protection is
+ * enabled, so that the children's HTML doesn't depend on the current session. This is a
+ * HyTTS-internal component.
+ */
+export function CsrfTokenOverride({ token, children }: PropsWithChildren<{ token: string }>) {
+    const context = useContextOrDefault(HttpContext, undefined);
+    return context?.csrfToken === undefined ? (
+        <>{children}</>
+    ) : (
+        <HttpContext value={{ ...context, csrfToken: token }}>{children}</HttpContext>
+    );
+}
+
 /** Retrieves the value of the current request's HTTP header called `name`. */
 export function useRequestHeader(name: string) {
     return useHttpContext().getHeader(name);
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { createForm } from "@/form/form";
+import type { MultipartOptions } from "@/http/multipart";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { getHrefs, type Href } from "@/routing/href";
+import { Router, routes } from "@/routing/router";
+import { zFile } from "@/serialization/file";
+import { runTestApp } from "@/test-helpers";
+
+describe("multipart", () => {
+    const form = createForm(
+        "form",
+        z.object({
+            title: z.string(),
+            file: zFile({ mimeTypes: ["text/plain"] }),
+            attachment: zFile().optional(),
+        }),
+        () => <>form</>,
+    );
+
+    const rs = routes({
+        "POST /": () =>
+            form.submit(async ({ formState: { title, file, attachment } }) => {
+                const chunks: string[] = [];
+                const reader = file.stream().getReader();
+                for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                    chunks.push(Buffer.from(chunk.value).toString());
+                }
+
+                return (
+                    <>
+                        {title}: {file.name} {file.mimeType} {file.size} {file.buffer().toString()}{" "}
+                        {chunks.join("")} {attachment ? attachment.name : "no attachment"}
+                    </>
+                );
+            }),
+    });
+    const href = getHrefs<typeof rs>();
+
+    function createFetch(options?: MultipartOptions) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            { multipart: options },
+        );
+
+        return (href: Href<any, any>, body: FormData | string, contentType?: string) =>
+            handler(
+                new Request(`http://localhost${href.url}`, {
+                    method: href.method,
+                    body,
+                    headers: {
+                        "x-hy": "true",
+                        ...(contentType ? { "content-type": contentType } : {}),
+                    },
+                }),
+            );
+    }
+
+    function createFormData(
+        files: { name: string; content: string; type?: string }[],
+        title = "title",
+    ) {
+        const formData = new FormData();
+        formData.append("$form.title", title);
+        for (const [index, { name, content, type }] of files.entries()) {
+            formData.append(
+                index === 0 ? "$form.file" : "$form.attachment",
+                new File([content], name, { type: type ?? "text/plain" }),
+            );
+        }
+        return formData;
+    }
+
+    it("provides the uploaded files to the form's submit action", async () => {
+        const fetch = createFetch();
+
+        const response = await fetch(
+            href("POST /"),
+            createFormData([{ name: "a.txt", content: "abc" }]),
+        );
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe("title: a.txt text/plain 3 abc abc no attachment");
+
+        const multipleFilesResponse = await fetch(
+            href("POST /"),
+            createFormData([
+                { name: "a.txt", content: "abc" },
+                { name: "b.txt", content: "d" },
+            ]),
+        );
+        expect(await multipleFilesResponse.text()).toBe("title: a.txt text/plain 3 abc abc b.txt");
+    });
+
+    it("ignores empty file inputs", async () => {
+        const fetch = createFetch();
+        // This is what browsers send for file inputs without a selected file; `FormData` can't be
+        // used here, as Node omits the empty file name.
+        const emptyFilePart = (name: string) =>
+            `--hy-boundary\r\nContent-Disposition: form-data; name="$form.${name}"; filename=""\r\n` +
+            "Content-Type: application/octet-stream\r\n\r\n\r\n";
+        const filePart =
+            '--hy-boundary\r\nContent-Disposition: form-data; name="$form.file"; filename="a.txt"\r\n' +
+            "Content-Type: text/plain\r\n\r\nabc\r\n";
+        const titlePart =
+            '--hy-boundary\r\nContent-Disposition: form-data; name="$form.title"\r\n\r\ntitle\r\n';
+
+        const response = await fetch(
+            href("POST /"),
+            `${titlePart}${filePart}${emptyFilePart("attachment")}--hy-boundary--\r\n`,
+            "multipart/form-data; boundary=hy-boundary",
+        );
+        expect(await response.text()).toBe("title: a.txt text/plain 3 abc abc no attachment");
+
+        const missingFileResponse = await fetch(
+            href("POST /"),
+            `${titlePart}${emptyFilePart("file")}--hy-boundary--\r\n`,
+            "multipart/form-data; boundary=hy-boundary",
+        );
+        expect(missingFileResponse.status).toBe(422);
+    });
+
+    it("validates the uploaded files", async () => {
+        const fetch = createFetch();
+
+        const response = await fetch(
+            href("POST /"),
+            createFormData([{ name: "a.png", content: "abc", type: "image/png" }]),
+        );
+        expect(response.status).toBe(422);
+        expect(await response.text()).toBe('<hy-frame id="form@frame">form</hy-frame>');
+    });
+
+    it("does not accept file tokens that weren't uploaded with the request", async () => {
+        const fetch = createFetch();
+        const formData = new FormData();
+        formData.append("$form.title", "title");
+        formData.append("$form.file", "not-a-file");
+
+        const response = await fetch(href("POST /"), formData);
+        expect(response.status).toBe(422);
+    });
+
+    it("enforces the configured limits", async () => {
+        const twoFiles = () =>
+            createFormData([
+                { name: "a.txt", content: "abc" },
+                { name: "b.txt", content: "d" },
+            ]);
+
+        const fileSizeResponse = await createFetch({ maxFileSize: 2 })(href("POST /"), twoFiles());
+        expect(fileSizeResponse.status).toBe(413);
+        expect(await fileSizeResponse.text()).toBe("fatal-error-callback: Error: PayloadTooLarge");
+
+        const filesResponse = await createFetch({ maxFiles: 1 })(href("POST /"), twoFiles());
+        expect(filesResponse.status).toBe(413);
+
+        const requestSizeResponse = await createFetch({ maxRequestSize: 100 })(
+            href("POST /"),
+            createFormData([{ name: "a.txt", content: "a".repeat(1000) }]),
+        );
+        expect(requestSizeResponse.status).toBe(413);
+
+        const withinLimitsResponse = await createFetch({ maxFileSize: 3, maxFiles: 2 })(
+            href("POST /"),
+            twoFiles(),
+        );
+        expect(withinLimitsResponse.status).toBe(200);
+    });
+
+    it("supports file uploads via Express", () =>
+        runTestApp(
+            rs,
+            async (href, fetch) => {
+                const response = await fetch(
+                    href("POST /"),
+                    { "x-hy": "true" },
+                    createFormData([{ name: "a.txt", content: "abc" }]),
+                );
+                expect(await response.text()).toBe(
+                    "title: a.txt text/plain 3 abc abc no attachment",
+                );
+
+                const tooLargeResponse = await fetch(
+                    href("POST /"),
+                    { "x-hy": "true" },
+                    createFormData([{ name: "a.txt", content: "a".repeat(1000) }]),
+                );
+                expect(tooLargeResponse.status).toBe(413);
+            },
+            { multipart: { maxRequestSize: 500 } },
+        ));
+});
@@ -0,0 +1,144 @@
+import { randomUUID } from "node:crypto";
+import { HttpError } from "@/http/http-error";
+
+/** Limits the size of `multipart/form-data` requests, mostly to guard against denial of service. */
+export type MultipartOptions = {
+    /** The maximum size of the entire request body in bytes. Defaults to 10 MiB. */
+    readonly maxRequestSize?: number;
+    /** The maximum size of a single uploaded file in bytes. Defaults to 10 MiB. */
+    readonly maxFileSize?: number;
+    /** The maximum number of files that can be uploaded with a single request. Defaults to 10. */
+    readonly maxFiles?: number;
+};
+
+const defaultMaxRequestSize = 10 * 1024 * 1024;
+const defaultMaxFileSize = 10 * 1024 * 1024;
+const defaultMaxFiles = 10;
+
+/** A file that was uploaded as part of a `multipart/form-data` request, e.g., by a form. */
+export class UploadedFile {
+    /**
+     * @param name The name of the file as reported by the browser. Never trust this name, e.g.,
+     *   never use it as a path on the server's file system.
+     * @param mimeType The MIME type of the file as reported by the browser.
+     * @param content The file's content.
+     */
+    public constructor(
+        public readonly name: string,
+        public readonly mimeType: string,
+        private readonly content: Buffer,
+    ) {}
+
+    /** The size of the file in bytes. */
+    public get size() {
+        return this.content.byteLength;
+    }
+
+    /** Returns the file's content. */
+    public buffer(): Buffer {
+        return this.content;
+    }
+
+    /** Returns a stream of the file's content. */
+    public stream(): ReadableStream<Uint8Array> {
+        const content = this.content;
+        return new ReadableStream({
+            start(controller) {
+                controller.enqueue(new Uint8Array(content));
+                controller.close();
+            },
+        });
+    }
+}
+
+/** The result of parsing a `multipart/form-data` request body. */
+export type MultipartRequestBody = {
+    /**
+     * The URL-encoded request body, where each uploaded file is replaced by an opaque token that
+     * can be looked up in `uploadedFiles`.
+     */
+    readonly requestBody: string;
+    /** Maps the tokens contained in `requestBody` to the uploaded files. */
+    readonly uploadedFiles: ReadonlyMap<string, UploadedFile>;
+};
+
+/** Checks whether the given content type denotes a `multipart/form-data` request body. */
+export function isMultipartContentType(contentType: string | null | undefined) {
+    return contentType?.split(";")[0]?.trim().toLowerCase() === "multipart/form-data";
+}
+
+/**
+ * Parses the `multipart/form-data` body of the given `request`. Regular form fields are URL encoded
+ * as usual so that they can be processed like any other request body, whereas uploaded files are
+ * kept in memory and referenced by opaque tokens. Empty file inputs, i.e., file parts without a
+ * name and content, are ignored. Throws an {@link HttpError} with a "PayloadTooLarge" error code if
+ * any of the configured limits is exceeded.
+ */
+export async function parseMultipartRequestBody(
+    request: Request,
+    options?: MultipartOptions,
+): Promise<MultipartRequestBody> {
+    const maxRequestSize = options?.maxRequestSize ?? defaultMaxRequestSize;
+    const maxFileSize = options?.maxFileSize ?? defaultMaxFileSize;
+    const maxFiles = options?.maxFiles ?? defaultMaxFiles;
+
+    if (Number(request.headers.get("content-length") ?? 0) > maxRequestSize) {
+        throw new HttpError("PayloadTooLarge");
+    }
+
+    // The content length header is optional and can't be trusted, so we count the bytes we
+    // actually receive, aborting as soon as the limit is exceeded.
+    const state = { receivedBytes: 0 };
+    const limitedBody = request.body?.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+                state.receivedBytes += chunk.byteLength;
+                if (state.receivedBytes > maxRequestSize) {
+                    controller.error(new HttpError("PayloadTooLarge"));
+                } else {
+                    controller.enqueue(chunk);
+                }
+            },
+        }),
+    );
+
+    let formData: FormData;
+    try {
+        formData = await new Request(request.url, {
+            method: request.method,
+            headers: request.headers,
+            body: limitedBody ?? null,
+            duplex: "half",
+        } as RequestInit).formData();
+    } catch (e: unknown) {
+        throw state.receivedBytes > maxRequestSize
+            ? new HttpError("PayloadTooLarge")
+            : new HttpError("BadRequest", e);
+    }
+
+    const params = new URLSearchParams();
+    const uploadedFiles = new Map<string, UploadedFile>();
+
+    for (const [name, value] of formData) {
+        if (typeof value === "string") {
+            params.append(name, value);
+        } else if (value.name !== "" || value.size !== 0) {
+            if (uploadedFiles.size >= maxFiles || value.size > maxFileSize) {
+                throw new HttpError("PayloadTooLarge");
+            }
+
+            const token = randomUUID();
+            uploadedFiles.set(
+                token,
+                new UploadedFile(
+                    value.name,
+                    value.type || "application/octet-stream",
+                    Buffer.from(await value.arrayBuffer()),
+                ),
+            );
+            params.append(name, token);
+        }
+    }
+
+    return { requestBody: params.toString(), uploadedFiles };
+}
@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { getCookie } from "@/http/cookies";
+import {
+    InMemorySessionStore,
+    type SessionOptions,
+    SignedCookieSessionStore,
+    useSession,
+} from "@/http/session";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { Router, routes } from "@/routing/router";
+
+describe("session", () => {
+    const rs = routes({
+        "GET /": async () => <>{await useSession().get("user", z.string().default("anonymous"))}</>,
+        "POST /login": async () => {
+            const session = useSession();
+            await session.regenerate();
+            await session.set("user", "alice");
+            return <>logged in</>;
+        },
+        "POST /visit": async () => {
+            const session = useSession();
+            await session.set("visits", (await session.get("visits", z.number().default(0))) + 1);
+            await session.delete("user");
+            return <>{await session.get("visits", z.number())}</>;
+        },
+        "POST /logout": async () => {
+            await useSession().destroy();
+            return <>logged out</>;
+        },
+    });
+
+    function createFetch(session?: SessionOptions) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            { session },
+        );
+
+        return async (url: string, cookie?: string) => {
+            const response = await handler(
+                new Request(`http://localhost${url}`, {
+                    method: url === "/" ? "GET" : "POST",
+                    headers: { "x-hy": "true", ...(cookie ? { cookie } : {}) },
+                }),
+            );
+
+            const setCookies = response.headers.getSetCookie();
+            return {
+                status: response.status,
+                text: await response.text(),
+                setCookies,
+                cookie: getCookie(setCookies.at(-1), "hy-session"),
+            };
+        };
+    }
+
+    const sessionCookie = (value: string | undefined) => `hy-session=${encodeURIComponent(value!)}`;
+
+    it("stores sessions in memory", async () => {
+        const fetch = createFetch({ store: new InMemorySessionStore() });
+
+        const anonymous = await fetch("/");
+        expect(anonymous.text).toBe("anonymous");
+        expect(anonymous.setCookies).toStrictEqual([]);
+
+        const login = await fetch("/login");
+        expect(login.text).toBe("logged in");
+        expect(login.setCookies).toHaveLength(1);
+        expect(login.setCookies[0]).toMatch(
+            /^hy-session=[\w-]{43}; Path=\/; Max-Age=86400; HttpOnly; SameSite=Lax; Secure$/,
+        );
+        expect((await fetch("/", sessionCookie(login.cookie))).text).toBe("alice");
+
+        const visit = await fetch("/visit", sessionCookie(login.cookie));
+        expect(visit.text).toBe("1");
+        expect(visit.setCookies).toHaveLength(1);
+        expect(visit.cookie).toBe(login.cookie);
+        expect((await fetch("/", sessionCookie(login.cookie))).text).toBe("anonymous");
+        expect((await fetch("/visit", sessionCookie(login.cookie))).text).toBe("2");
+
+        const logout = await fetch("/logout", sessionCookie(login.cookie));
+        expect(logout.setCookies).toStrictEqual([
+            "hy-session=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax; Secure",
+        ]);
+        expect((await fetch("/visit", sessionCookie(login.cookie))).text).toBe("1");
+    });
+
+    it("regenerates session ids and never accepts ids chosen by the browser", async () => {
+        const fetch = createFetch({ store: new InMemorySessionStore() });
+
+        const first = await fetch("/visit");
+        const login = await fetch("/login", sessionCookie(first.cookie));
+        expect(login.cookie).not.toBe(first.cookie);
+        expect((await fetch("/visit", sessionCookie(first.cookie))).text).toBe("1");
+
+        const forged = await fetch("/visit", sessionCookie("a".repeat(43)));
+        expect(forged.text).toBe("1");
+        expect(forged.cookie).not.toBe("a".repeat(43));
+    });
+
+    it("expires sessions", async () => {
+        const now = Date.now();
+        const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now);
+
+        try {
+            for (const store of [new InMemorySessionStore(), new SignedCookieSessionStore("s")]) {
+                const fetch = createFetch({ store, maxAge: 60 });
+                const login = await fetch("/login");
+                expect(login.setCookies[0]).toContain("Max-Age=60");
+
+                dateSpy.mockReturnValue(now + 59_000);
+                expect((await fetch("/", sessionCookie(login.cookie))).text).toBe("alice");
+
+                dateSpy.mockReturnValue(now + 60_000);
+                expect((await fetch("/", sessionCookie(login.cookie))).text).toBe("anonymous");
+
+                dateSpy.mockReturnValue(now);
+            }
+        } finally {
+            dateSpy.mockRestore();
+        }
+    });
+
+    it("stores sessions in signed cookies", async () => {
+        const fetch = createFetch({
+            store: new SignedCookieSessionStore("secret"),
+            cookieName: "session",
+            cookie: { secure: false, sameSite: "Strict" },
+        });
+
+        const login = await fetch("/login");
+        const cookie = getCookie(login.setCookies.at(-1), "session")!;
+        expect(login.setCookies.at(-1)).toMatch(
+            /^session=[\w-]+\.[\w-]{43}; Path=\/; Max-Age=86400; HttpOnly; SameSite=Strict$/,
+        );
+        expect((await fetch("/", `session=${cookie}`)).text).toBe("alice");
+
+        const [payload, signature] = cookie.split(".");
+        const tamperedPayload = Buffer.from(
+            Buffer.from(payload!, "base64url").toString().replace("alice", "admin"),
+        ).toString("base64url");
+        expect((await fetch("/", `session=${tamperedPayload}.${signature}`)).text).toBe(
+            "anonymous",
+        );
+
+        const otherSecretFetch = createFetch({
+            store: new SignedCookieSessionStore("other secret"),
+            cookieName: "session",
+        });
+        expect((await otherSecretFetch("/", `session=${cookie}`)).text).toBe("anonymous");
+    });
+
+    it("throws if sessions are not configured", async () => {
+        const response = await createFetch()("/");
+        expect(response.status).toBe(500);
+        expect(response.text).toContain("Sessions are not configured.");
+    });
+});
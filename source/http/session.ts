@@ -0,0 +1,274 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { ZodType, ZodTypeDef } from "zod";
+import { type CookieOptions, getCookie } from "@/http/cookies";
+import { useHttpContext } from "@/http/http-context";
+
+/** The data stored in a session; all values must be JSON-serializable. */
+export type SessionData = Readonly<Record<string, unknown>>;
+
+/**
+ * Persists the data of sessions. The browser only stores the value of the session cookie, which is
+ * opaque to HyTTS: It might be a session id referencing server-side data, as is the case for the
+ * {@link InMemorySessionStore}, or it might contain the session data itself, as is the case for the
+ * {@link SignedCookieSessionStore}.
+ */
+export type SessionStore = {
+    /**
+     * Loads the data of the session referenced by the given session cookie value. Returns
+     * `undefined` if the session does not exist, has expired, or if the cookie value is invalid.
+     */
+    readonly load: (cookieValue: string) => Promise<SessionData | undefined>;
+    /**
+     * Saves the given session `data` for `maxAge` seconds and returns the new value of the session
+     * cookie. `cookieValue` is `undefined` for new sessions.
+     */
+    readonly save: (
+        cookieValue: string | undefined,
+        data: SessionData,
+        maxAge: number,
+    ) => Promise<string>;
+    /** Deletes the session referenced by the given session cookie value, if possible. */
+    readonly destroy: (cookieValue: string) => Promise<void>;
+};
+
+/** Configures the sessions of an app. */
+export type SessionOptions = {
+    /** The store that persists the session data. */
+    readonly store: SessionStore;
+    /** The name of the session cookie. Defaults to `hy-session`. */
+    readonly cookieName?: string;
+    /** The number of seconds a session remains valid after it was last changed. Defaults to one day. */
+    readonly maxAge?: number;
+    /** Configures the session cookie, see {@link CookieOptions}. */
+    readonly cookie?: Pick<CookieOptions, "secure" | "sameSite" | "path" | "domain">;
+};
+
+const defaultMaxAge = 24 * 60 * 60;
+
+/**
+ * Provides access to the session of the current request. The session data is loaded lazily on first
+ * access, and all changes are saved immediately, sending an updated session cookie to the browser
+ * if necessary. Therefore, when streaming, sessions can only be changed before the first part of
+ * the response has been sent.
+ */
+export class Session {
+    private data: Promise<Record<string, unknown>> | undefined = undefined;
+    private cookieValue: string | undefined = undefined;
+    private sentCookieValue: string | undefined = undefined;
+
+    /**
+     * @param options The session options configured for the app.
+     * @param cookieHeader The value of the current request's `Cookie` header, if any.
+     * @param setCookie Sends the session cookie to the browser.
+     */
+    public constructor(
+        private readonly options: SessionOptions,
+        cookieHeader: string | undefined,
+        private readonly setCookie: (name: string, value: string, options: CookieOptions) => void,
+    ) {
+        this.cookieValue = getCookie(cookieHeader, this.cookieName);
+    }
+
+    private get cookieName() {
+        return this.options.cookieName ?? "hy-session";
+    }
+
+    private get maxAge() {
+        return this.options.maxAge ?? defaultMaxAge;
+    }
+
+    /**
+     * Returns the session's value for the given `key`, parsed with the given `schema`. The schema
+     * receives `undefined` if there is no value for the key, so use `.optional()` or `.default()`
+     * for values that might be missing.
+     */
+    public async get<Output, Def extends ZodTypeDef, Input>(
+        key: string,
+        schema: ZodType<Output, Def, Input>,
+    ): Promise<Output> {
+        return schema.parse((await this.load())[key]);
+    }
+
+    /** Sets the session's `value` for the given `key`. The value must be JSON-serializable. */
+    public async set(key: string, value: unknown) {
+        const data = await this.load();
+        data[key] = value;
+        await this.save(data);
+    }
+
+    /** Removes the session's value for the given `key`. */
+    public async delete(key: string) {
+        const data = await this.load();
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete data[key];
+        await this.save(data);
+    }
+
+    /** Deletes the entire session, e.g., when the user logs out. */
+    public async destroy() {
+        const cookieValue = this.cookieValue;
+        this.data = Promise.resolve({});
+        this.cookieValue = undefined;
+        this.sentCookieValue = undefined;
+
+        if (cookieValue !== undefined) {
+            await this.options.store.destroy(cookieValue);
+            this.setCookie(this.cookieName, "", { ...this.options.cookie, maxAge: 0 });
+        }
+    }
+
+    /**
+     * Moves the session's data to a new session, deleting the old one. You should regenerate the
+     * session whenever the user's privileges change, e.g., when the user logs in, to prevent
+     * session fixation attacks.
+     */
+    public async regenerate() {
+        const data = await this.load();
+        if (this.cookieValue !== undefined) {
+            await this.options.store.destroy(this.cookieValue);
+            this.cookieValue = undefined;
+        }
+
+        await this.save(data);
+    }
+
+    private load() {
+        const cookieValue = this.cookieValue;
+        this.data ??= (async () => ({
+            ...(cookieValue === undefined ? {} : await this.options.store.load(cookieValue)),
+        }))();
+
+        return this.data;
+    }
+
+    private async save(data: SessionData) {
+        this.cookieValue = await this.options.store.save(this.cookieValue, data, this.maxAge);
+
+        if (this.cookieValue !== this.sentCookieValue) {
+            this.sentCookieValue = this.cookieValue;
+            this.setCookie(this.cookieName, this.cookieValue, {
+                ...this.options.cookie,
+                maxAge: this.maxAge,
+            });
+        }
+    }
+}
+
+/**
+ * Provides access to the session of the current request. Throws if sessions are not configured via
+ * the `session` option of the fetch handler or the Express middleware.
+ */
+export function useSession(): Session {
+    const { session } = useHttpContext();
+    if (!session) {
+        throw new Error(
+            "Sessions are not configured. Configure them with the `session` option of the fetch " +
+                "handler or the Express middleware.",
+        );
+    }
+
+    return session;
+}
+
+/**
+ * Stores the session data in the server's memory, using random session ids as session cookie
+ * values. All sessions are lost when the server restarts, and sessions cannot be shared between
+ * multiple server instances, so this store is mostly useful for development and testing.
+ */
+export class InMemorySessionStore implements SessionStore {
+    private readonly sessions = new Map<string, { data: string; expiresAt: number }>();
+
+    public load(sessionId: string) {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.expiresAt <= Date.now()) {
+            this.sessions.delete(sessionId);
+            return Promise.resolve(undefined);
+        }
+
+        return Promise.resolve(JSON.parse(session.data) as SessionData);
+    }
+
+    public save(sessionId: string | undefined, data: SessionData, maxAge: number) {
+        this.removeExpiredSessions();
+
+        // We never accept session ids chosen by the browser to prevent session fixation attacks.
+        const id =
+            sessionId !== undefined && this.sessions.has(sessionId)
+                ? sessionId
+                : randomBytes(32).toString("base64url");
+
+        this.sessions.set(id, {
+            data: JSON.stringify(data),
+            expiresAt: Date.now() + maxAge * 1000,
+        });
+        return Promise.resolve(id);
+    }
+
+    public destroy(sessionId: string) {
+        this.sessions.delete(sessionId);
+        return Promise.resolve();
+    }
+
+    private removeExpiredSessions() {
+        const now = Date.now();
+        for (const [id, { expiresAt }] of this.sessions) {
+            if (expiresAt <= now) {
+                this.sessions.delete(id);
+            }
+        }
+    }
+}
+
+/**
+ * Stores the session data in the session cookie itself, signed with an HMAC to protect it against
+ * tampering. The data is not encrypted, so the browser can read it. Cookies are limited to about 4
+ * KiB, so only small amounts of data can be stored. Sessions cannot be revoked on the server, they
+ * remain valid until they expire.
+ */
+export class SignedCookieSessionStore implements SessionStore {
+    /**
+     * @param secret The server secret used to compute the signatures. It must be kept secret and
+     *   should consist of at least 32 random bytes. Changing the secret invalidates all sessions.
+     */
+    public constructor(private readonly secret: string) {}
+
+    public load(cookieValue: string) {
+        const [payload = "", signature = ""] = cookieValue.split(".");
+        const expected = Buffer.from(this.computeHmac(payload));
+        const actual = Buffer.from(signature);
+
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            return Promise.resolve(undefined);
+        }
+
+        const { data, expiresAt } = JSON.parse(Buffer.from(payload, "base64url").toString()) as {
+            data: SessionData;
+            expiresAt: number;
+        };
+
+        return Promise.resolve(expiresAt > Date.now() ? data : undefined);
+    }
+
+    public save(_cookieValue: string | undefined, data: SessionData, maxAge: number) {
+        const payload = Buffer.from(
+            JSON.stringify({ data, expiresAt: Date.now() + maxAge * 1000 }),
+        ).toString("base64url");
+        const cookieValue = `${payload}.${this.computeHmac(payload)}`;
+
+        if (cookieValue.length > maxCookieSize) {
+            throw new Error("The session data exceeds the maximum size of a session cookie.");
+        }
+
+        return Promise.resolve(cookieValue);
+    }
+
+    public destroy() {
+        return Promise.resolve();
+    }
+
+    private computeHmac(payload: string) {
+        return createHmac("sha256", this.secret).update(payload).digest("base64url");
+    }
+}
+
+const maxCookieSize = 4000;
@@ -22,7 +22,12 @@ export {
 
 export { useCspNonce, CspNonce } from "@/jsx/csp-nonce";
 
-export { type ErrorBoundaryProps, type ErrorViewProps, ErrorBoundary } from "@/jsx/error-boundary";
+export {
+    type ErrorBoundaryProps,
+    type ErrorViewProps,
+    ErrorBoundary,
+    FlushPoint,
+} from "@/jsx/error-boundary";
 
 export {
     jsx,
@@ -30,8 +35,10 @@ export {
     jsxs as jsxsDEV,
     jsxs,
     Fragment,
+    renderToStream,
     renderToString,
     type JSX,
+    type RenderToStreamOptions,
 } from "@/jsx/jsx-runtime";
 
 export type {
@@ -46,6 +53,14 @@ export type {
     PropsWithChildren,
 } from "@/jsx/jsx-types";
 
+export {
+    type BatchLoadFunction,
+    type Loader,
+    type LoaderOptions,
+    createLoader,
+    LoaderScope,
+} from "@/jsx/loader";
+
 export { type UniqueNameProviderProps, UniqueNameProvider, useUniqueName } from "@/jsx/unique-name";
 
 export {
@@ -60,8 +75,24 @@ export {
     zYearMonth,
     zZonedDateTime,
 } from "@/serialization/date-time";
+export { type FileSchemaOptions, zFile } from "@/serialization/file";
+export {
+    type EncryptionKey,
+    type EncryptionKeyring,
+    encrypt,
+    encrypted,
+    EncryptedValue,
+} from "@/serialization/encryption";
 
-export { createExpressMiddleware } from "@/routing/express-middleware";
+export {
+    type ExpressMiddlewareOptions,
+    createExpressMiddleware,
+} from "@/routing/express-middleware";
+export {
+    type FetchHandler,
+    type FetchHandlerOptions,
+    createFetchHandler,
+} from "@/routing/fetch-handler";
 
 export { parseUrlSearchParams, toUrlSearchParams } from "@/serialization/url-params";
 
@@ -74,18 +105,41 @@ export {
     type HttpStatusCodeProps,
     type RedirectProps,
     AbsoluteRedirect,
+    CsrfToken,
     HttpHeader,
     httpMethods,
     HttpResponse,
     HttpStatusCode,
     Redirect,
+    useCsrfToken,
     useRequestedFrameId,
     useRequester,
     useRequestHeader,
+    useUploadedFile,
     useUrlSearchParams,
 } from "@/http/http-context";
 
+export {
+    type ETagOptions,
+    type ETagProps,
+    type LastModifiedProps,
+    ETag,
+    LastModified,
+} from "@/http/conditional-get";
+export { type CookieOptions, type SetCookieProps, SetCookie, useCookie } from "@/http/cookies";
+export { type CspOptions } from "@/http/csp";
+export { type CsrfOptions } from "@/http/csrf";
 export { type ErrorCode, HttpError, toHttpStatusCode } from "@/http/http-error";
+export { type MultipartOptions, UploadedFile } from "@/http/multipart";
+export {
+    type SessionData,
+    type SessionOptions,
+    type SessionStore,
+    InMemorySessionStore,
+    Session,
+    SignedCookieSessionStore,
+    useSession,
+} from "@/http/session";
 
 export { Html } from "@/dom/html";
 
@@ -93,6 +147,7 @@ export {
     type Frame,
     type FrameMetadata,
     type FrameProps,
+    type FrameRefreshOptions,
     createFrame,
     useFrameMetadata,
 } from "@/dom/frame";
@@ -101,31 +156,83 @@ export { type AProps, type ButtonProps, A, Button } from "@/dom/links";
 
 export { type BodyProps, Body, BodyFrame } from "@/dom/body";
 
+export { type DeferredProps, Deferred } from "@/dom/deferred";
+
+export { type ProgressBarProps, ProgressBar } from "@/dom/progress-bar";
+
+export {
+    type CachedFragment,
+    type CacheProps,
+    type CacheStore,
+    type CacheStoreProviderProps,
+    Cache,
+    CacheStoreProvider,
+    LruCacheStore,
+} from "@/dom/cache";
+
 export {
     type FormComponent,
     type FormElement,
     type ParamComponent,
+    type ParamOptions,
     type Provide,
+    type RouteCacheOptions,
     type RouteComponent,
+    type RouteOptions,
     type RoutesDefinition,
     type RouterProps,
     type RoutesComponent,
     type RoutingComponent,
+    type WildcardComponent,
+    guard,
     lazy,
     param,
     route,
     Router,
     routes,
+    wildcard,
 } from "@/routing/router";
 
-export { type Href, type HrefCreator, type FormValues, getHrefs, isHref } from "@/routing/href";
+export {
+    type Href,
+    type HrefCreator,
+    type HrefMatch,
+    type FormValues,
+    getHrefs,
+    isHref,
+    matchHref,
+} from "@/routing/href";
+
+export { type SigningOptions } from "@/routing/signing";
+
+export {
+    type RouteTableEntry,
+    type RouteTableOptions,
+    formatRouteTable,
+    getRouteTable,
+} from "@/routing/route-table";
 
 export {
     type Form,
+    type FormAddItemButtonProps,
+    type FormArrayButtonProps,
+    type FormArrayFieldProps,
     type FormButtonProps,
+    type FormCheckboxProps,
     type FormContext,
+    type FormError,
+    type FormErrorSummaryProps,
+    type FormFieldOption,
+    type FormFieldValue,
+    type FormInputProps,
+    type FormMoveItemButtonProps,
     type FormProperty,
     type FormProps,
+    type FormRadioGroupProps,
+    type FormRemoveItemButtonProps,
+    type FormSelectProps,
+    type FormTextareaProps,
+    type FormValidationError,
     type SomeFormSchema,
     createForm,
 } from "@/form/form";
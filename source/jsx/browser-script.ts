@@ -1,5 +1,5 @@
 import { createContext, useContext } from "@/jsx/context";
-import { useCspNonce } from "@/jsx/csp-nonce";
+import { renderInlineScript } from "@/jsx/csp-nonce";
 import {
     type EventArgs,
     type EventHandler,
@@ -240,6 +240,5 @@ function emitCode(scripts: ScriptSet) {
 
     // We use an IIFE for all of this renderer's code so that we can be sure that all generated
     // names are unique within the context of this emitted code block and don't leak to the global scope.
-    const code = `(()=>{${statements.join("").replaceAll("</script", "<\\/script")}})()`;
-    return scripts.size > 0 ? `<script nonce="${useCspNonce()}">${code}</script>` : "";
+    return scripts.size > 0 ? renderInlineScript(`(()=>{${statements.join("")}})()`) : "";
 }
@@ -1,7 +1,16 @@
-import { createContext, useContext } from "@/jsx/context";
+import { createContext, useContext, useContextOrDefault } from "@/jsx/context";
 
 export const CspNonceContext = createContext<string>({ name: "csp nonce provider" });
 
+/**
+ * If provided, inline scripts are allowed via their hashes instead of the CSP nonce. The context's
+ * function collects the code of all inline scripts emitted by HyTTS so that their hashes can be
+ * computed.
+ */
+export const CspInlineScriptsContext = createContext<(script: string) => void>({
+    name: "csp inline scripts collector",
+});
+
 /** Gets the current request's CSP nonce that allows JavaScript execution. */
 export function useCspNonce() {
     return useContext(CspNonceContext);
@@ -16,3 +25,21 @@ export function useCspNonce() {
 export function CspNonce() {
     return <meta name="hy-csp-nonce" content={useCspNonce()} />;
 }
+
+/**
+ * Renders an inline `<script>` tag for the given code that is allowed by the CSP. By default, the
+ * tag carries the current request's CSP nonce. When script hashes are used instead, the tag does
+ * not carry a nonce, so that the HTML remains the same for all requests, and the script is
+ * registered so that its hash can be added to the `script-src` directive.
+ */
+export function renderInlineScript(code: string) {
+    const script = code.replaceAll("</script", "<\\/script");
+    const collectScript = useContextOrDefault(CspInlineScriptsContext, undefined);
+
+    if (collectScript) {
+        collectScript(script);
+        return `<script>${script}</script>`;
+    }
+
+    return `<script nonce="${useCspNonce()}">${script}</script>`;
+}
@@ -1,3 +1,4 @@
+import type { renderToStream } from "@/jsx/jsx-runtime";
 import {
     type JsxComponent,
     type JsxElement,
@@ -5,6 +6,13 @@ import {
     toJsxExpression,
 } from "@/jsx/jsx-types";
 import { renderChildren } from "@/jsx/render-children";
+import {
+    flushPointMarker,
+    getStreamDeferrer,
+    getStreamWriter,
+    runWithStreamWriter,
+    type StreamWriter,
+} from "@/jsx/stream-writer";
 
 export type ErrorViewProps = {
     /** The error that occurred and that should be shown. */
@@ -19,13 +27,66 @@ export type ErrorBoundaryProps = PropsWithChildren<{
 /**
  * Tries to render its `children`. If an error is thrown during children rendering, the `ErrorView`
  * component is rendered instead.
+ *
+ * When rendering to a stream, the HTML of the children is held back until the children render a
+ * {@link FlushPoint}, as HTML that has already been sent cannot be replaced by the `ErrorView`
+ * anymore. Afterwards, the children are streamed and the `ErrorView` is appended to the HTML that
+ * has already been sent if an error occurs.
  */
 export function ErrorBoundary(props: ErrorBoundaryProps): JsxElement {
     return toJsxExpression(async () => {
+        const writer = getStreamWriter();
+        const boundaryWriter = writer && createBoundaryWriter(writer);
+
         try {
-            return await renderChildren(props.children);
+            const html = boundaryWriter
+                ? await runWithStreamWriter(boundaryWriter, () => renderChildren(props.children))
+                : await renderChildren(props.children);
+
+            return (boundaryWriter?.getHeldBackHtml() ?? "") + html;
         } catch (error: unknown) {
             return (await props.ErrorView({ error }))?.() ?? "";
         }
     });
 }
+
+/**
+ * Sends all HTML preceding it to the browser when rendering to a stream via {@link renderToStream},
+ * even if it is rendered within an {@link ErrorBoundary}. Errors thrown after the flush point can no
+ * longer replace the preceding HTML. For instance, place a flush point right after the document's
+ * `<head>`, so that the browser can start loading stylesheets and scripts, while errors thrown
+ * while rendering the `<head>` can still be replaced by a top-level error boundary.
+ */
+export function FlushPoint(): JsxElement {
+    return toJsxExpression(() => (getStreamDeferrer() ? flushPointMarker : ""));
+}
+
+/**
+ * Creates a stream writer for the children of an error boundary that holds back all HTML until it
+ * contains a flush point, after which all HTML is written to the boundary's own `writer`.
+ */
+function createBoundaryWriter(writer: StreamWriter): StreamWriter & { getHeldBackHtml(): string } {
+    let heldBackHtml = "";
+    let isFlushed = false;
+
+    return {
+        write: (html: string) => {
+            if (isFlushed) {
+                writer.write(html);
+            } else if (html.includes(flushPointMarker)) {
+                // The marker is passed on so that enclosing error boundaries flush as well.
+                isFlushed = true;
+                writer.write(heldBackHtml + html);
+                heldBackHtml = "";
+            } else {
+                heldBackHtml += html;
+            }
+        },
+        flush: () => {
+            if (isFlushed) {
+                writer.flush();
+            }
+        },
+        getHeldBackHtml: () => heldBackHtml,
+    };
+}
@@ -1,4 +1,6 @@
+import type { Deferred } from "@/dom/deferred";
 import { isBrowserFunc, useRegisterBrowserEventHandler } from "@/jsx/browser-script";
+import type { ErrorBoundary, FlushPoint } from "@/jsx/error-boundary";
 import { escapeString } from "@/jsx/escape-string";
 import {
     type JSX,
@@ -9,6 +11,14 @@ import {
     toJsxExpression,
 } from "@/jsx/jsx-types";
 import { renderChildren } from "@/jsx/render-children";
+import {
+    flushPointMarker,
+    runOutsideOfStream,
+    runWithoutStreamWriter,
+    runWithStreamDeferrer,
+    runWithStreamWriter,
+    type StreamDeferrer,
+} from "@/jsx/stream-writer";
 import { useUniqueName } from "@/jsx/unique-name";
 
 // This export is required so that type checking works for JSX expressions without polluting the global namespace,
@@ -16,7 +26,123 @@ import { useUniqueName } from "@/jsx/unique-name";
 export type { JSX } from "@/jsx/jsx-types";
 
 /** Renders a JSX element into a string. */
-export async function renderToString(element: JsxElement) {
+export function renderToString(element: JsxElement) {
+    return runOutsideOfStream(() => render(element));
+}
+
+export type RenderToStreamOptions = {
+    /**
+     * Invoked synchronously right before the first part of the HTML is sent to the stream's
+     * consumer, e.g., to finalize the HTTP status code and headers of the response.
+     */
+    readonly onFirstFlush?: () => void;
+};
+
+/**
+ * Renders a JSX element into a stream of HTML strings. Instead of waiting for the entire element to
+ * be rendered, all HTML that precedes the first pending asynchronous child is sent to the stream as
+ * soon as possible, so that the browser can start loading, for instance, the stylesheets and
+ * scripts referenced in the document's `<head>` while slow components are still being rendered. The
+ * children of an {@link ErrorBoundary} are held back until they reach a {@link FlushPoint}, as the
+ * boundary can no longer replace HTML with its error view once it has been sent. HTML deferred by
+ * components like {@link Deferred} is sent after the element's regular HTML, in the order in which
+ * rendering of the deferred HTML completes.
+ *
+ * The stream is errored if rendering the element or any of its deferred HTML fails.
+ */
+export function renderToStream(
+    element: JsxElement,
+    options?: RenderToStreamOptions,
+): ReadableStream<string> {
+    let buffer = "";
+    let hasFlushed = false;
+    let isCanceled = false;
+
+    return new ReadableStream<string>({
+        start(controller) {
+            const flush = () => {
+                if (buffer === "" || isCanceled) {
+                    return;
+                }
+
+                if (!hasFlushed) {
+                    hasFlushed = true;
+                    options?.onFirstFlush?.();
+                }
+
+                controller.enqueue(buffer);
+                buffer = "";
+            };
+
+            const write = (html: string) => {
+                buffer += html.replaceAll(flushPointMarker, "");
+                if (html.includes(flushPointMarker)) {
+                    flush();
+                }
+            };
+
+            // Contains all pending deferrals, including nested ones that are added while we wait for
+            // the preceding ones to complete.
+            const deferrals: Promise<void>[] = [];
+            const createDeferrer = (precedingHtmlWritten: Promise<void>): StreamDeferrer => {
+                return (renderDeferred) => {
+                    let resolveWritten = () => {};
+                    const written = new Promise<void>((resolve) => (resolveWritten = resolve));
+
+                    const html = runWithStreamDeferrer(createDeferrer(written), () =>
+                        runWithoutStreamWriter(renderDeferred),
+                    );
+
+                    const deferral = (async () => {
+                        const deferredHtml = await html;
+                        await precedingHtmlWritten;
+                        write(deferredHtml);
+                        flush();
+                        resolveWritten();
+                    })();
+
+                    // Errors are handled once we await the deferral below; until then, we have to
+                    // prevent the Node process from terminating due to an unhandled rejection.
+                    void deferral.catch(() => {});
+                    deferrals.push(deferral);
+                };
+            };
+
+            let resolveRegularHtmlWritten = () => {};
+            const regularHtmlWritten = new Promise<void>(
+                (resolve) => (resolveRegularHtmlWritten = resolve),
+            );
+
+            void runWithStreamDeferrer(createDeferrer(regularHtmlWritten), () =>
+                runWithStreamWriter({ write, flush }, async () => {
+                    try {
+                        write(await render(element));
+                        flush();
+                        resolveRegularHtmlWritten();
+
+                        for (const deferral of deferrals) {
+                            await deferral;
+                        }
+
+                        if (!isCanceled) {
+                            controller.close();
+                        }
+                    } catch (e: unknown) {
+                        if (!isCanceled) {
+                            controller.error(e);
+                        }
+                    }
+                }),
+            );
+        },
+        cancel() {
+            // Rendering continues in the background, but the remaining HTML is discarded.
+            isCanceled = true;
+        },
+    });
+}
+
+async function render(element: JsxElement) {
     return (await (await element)?.()) ?? "";
 }
 
@@ -1990,6 +1990,7 @@ export namespace JSX {
         keygen: KeygenHTMLAttributes<HTMLElement>;
         label: LabelHTMLAttributes<HTMLLabelElement>;
         legend: HTMLAttributes<HTMLLegendElement>;
+        "hy-deferred": HTMLAttributes<HTMLDivElement>;
         "hy-frame": HTMLAttributes<HTMLDivElement>;
         li: LiHTMLAttributes<HTMLLIElement>;
         link: LinkHTMLAttributes<HTMLLinkElement>;
@@ -2034,6 +2035,7 @@ export namespace JSX {
         table: HTMLAttributes<HTMLTableElement>;
         tbody: HTMLAttributes<HTMLTableSectionElement>;
         td: TdHTMLAttributes<HTMLTableDataCellElement>;
+        template: HTMLAttributes<HTMLTemplateElement>;
         textarea: TextareaHTMLAttributes<HTMLTextAreaElement>;
         tfoot: HTMLAttributes<HTMLTableSectionElement>;
         th: ThHTMLAttributes<HTMLTableHeaderCellElement>;
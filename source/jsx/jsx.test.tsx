@@ -1,6 +1,6 @@
 import { createContext, useContext } from "@/jsx/context";
-import { ErrorBoundary } from "@/jsx/error-boundary";
-import { jsxs, renderToString } from "@/jsx/jsx-runtime";
+import { ErrorBoundary, FlushPoint } from "@/jsx/error-boundary";
+import { jsxs, renderToStream, renderToString } from "@/jsx/jsx-runtime";
 import type { JsxElement, PropsWithChildren } from "@/jsx/jsx-types";
 
 describe("jsx rendering", () => {
@@ -308,6 +308,187 @@ describe("jsx rendering", () => {
         });
     });
 
+    describe("streaming", () => {
+        it("sends everything preceding the first pending child immediately", async () => {
+            const Slow = async () => <>{await sleep("slow", 10)}</>;
+
+            expect(
+                await readChunks(
+                    renderToStream(
+                        <html>
+                            <head>
+                                <title>title</title>
+                            </head>
+                            <body>
+                                <h1>heading</h1>
+                                <Slow />
+                                <p>
+                                    <Slow />
+                                </p>
+                            </body>
+                        </html>,
+                    ),
+                ),
+            ).toStrictEqual([
+                "<html><head><title>title</title></head><body><h1>heading</h1>",
+                "slow",
+                "<p>slow</p></body></html>",
+            ]);
+        });
+
+        it("streams nested pending children", async () => {
+            const C = async (props: PropsWithChildren<{ value: string; ms: number }>) => (
+                <>
+                    {await sleep(props.value, props.ms)}
+                    {props.children}
+                </>
+            );
+
+            expect(
+                await readChunks(
+                    renderToStream(
+                        <div>
+                            <C value="a" ms={10}>
+                                <C value="b" ms={10} />
+                            </C>
+                            <C value="c" ms={0} />
+                        </div>,
+                    ),
+                ),
+            ).toStrictEqual(["<div>", "a", "b", "c</div>"]);
+        });
+
+        it("does not stream the children of an error boundary", async () => {
+            const C = async (props: { fail: boolean }) => {
+                await sleep("", 10);
+                if (props.fail) {
+                    throw new Error("test-error");
+                }
+                return <>success</>;
+            };
+
+            expect(
+                await readChunks(
+                    renderToStream(
+                        <div>
+                            <ErrorBoundary ErrorView={() => <>error</>}>
+                                before
+                                <C fail={true} />
+                            </ErrorBoundary>
+                            <C fail={false} />
+                        </div>,
+                    ),
+                ),
+            ).toStrictEqual(["<div>", "error", "success</div>"]);
+        });
+
+        it("streams the children of a top-level error boundary after a flush point", async () => {
+            const Slow = async (props: { fail?: boolean }) => {
+                await sleep("", 10);
+                if (props.fail) {
+                    throw new Error("test-error");
+                }
+                return <>slow</>;
+            };
+            const jsx = (props: { failInHead?: boolean; failInBody?: boolean }) => (
+                <ErrorBoundary ErrorView={() => <>error</>}>
+                    <html>
+                        <head>{props.failInHead ? <Slow fail /> : <title>title</title>}</head>
+                        <FlushPoint />
+                        <body>
+                            <Slow fail={props.failInBody} />
+                        </body>
+                    </html>
+                </ErrorBoundary>
+            );
+
+            expect(await readChunks(renderToStream(jsx({})))).toStrictEqual([
+                "<html><head><title>title</title></head>",
+                "<body>",
+                "slow</body></html>",
+            ]);
+            expect(await renderToString(jsx({}))).toBe(
+                "<html><head><title>title</title></head><body>slow</body></html>",
+            );
+            expect(await readChunks(renderToStream(jsx({ failInHead: true })))).toStrictEqual([
+                "error",
+            ]);
+            expect(await readChunks(renderToStream(jsx({ failInBody: true })))).toStrictEqual([
+                "<html><head><title>title</title></head>",
+                "<body>",
+                "error",
+            ]);
+        });
+
+        it("renders the same HTML as `renderToString`", async () => {
+            const TestContext = createContext<number>();
+            const C = async (props: PropsWithChildren<{ ms: number }>) => (
+                <span>
+                    {await sleep(useContext(TestContext), props.ms)}
+                    {props.children}
+                </span>
+            );
+            const jsx = () => (
+                <TestContext value={1}>
+                    <C ms={10}>
+                        <TestContext value={2}>
+                            <C ms={0} />
+                            <C ms={5} />
+                        </TestContext>
+                    </C>
+                    <C ms={0}>
+                        <ErrorBoundary ErrorView={() => <>error</>}>
+                            <C ms={5} />
+                        </ErrorBoundary>
+                    </C>
+                </TestContext>
+            );
+
+            const expected = await renderToString(jsx());
+            expect(expected).toBe(
+                "<span>1<span>2</span><span>2</span></span><span>1<span>1</span></span>",
+            );
+            expect((await readChunks(renderToStream(jsx()))).join("")).toBe(expected);
+        });
+
+        it("notifies about the first flush before sending it", async () => {
+            const events: string[] = [];
+            const C = async () => {
+                events.push("render");
+                return <>{await sleep("c")}</>;
+            };
+
+            const chunks = await readChunks(
+                renderToStream(
+                    <>
+                        a<C />
+                    </>,
+                    { onFirstFlush: () => events.push("flush") },
+                ),
+            );
+
+            expect(chunks).toStrictEqual(["a", "c"]);
+            expect(events).toStrictEqual(["render", "flush"]);
+        });
+
+        it("errors the stream if rendering fails", async () => {
+            const C = async () => {
+                await sleep("", 10);
+                throw new Error("test-error");
+            };
+
+            await expect(
+                readChunks(
+                    renderToStream(
+                        <>
+                            a<C />
+                        </>,
+                    ),
+                ),
+            ).rejects.toThrow("test-error");
+        });
+    });
+
     describe("context", () => {
         const TestContext = createContext<number>();
 
@@ -430,6 +611,15 @@ async function testJsx(jsx: JsxElement, expected: string) {
     expect(await renderToString(jsx)).toBe(expected);
 }
 
+async function readChunks(stream: ReadableStream<string>) {
+    const chunks: string[] = [];
+    const reader = stream.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        chunks.push(chunk.value);
+    }
+    return chunks;
+}
+
 function sleep<T>(value: T, ms = 0) {
     return new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
 }
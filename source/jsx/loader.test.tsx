@@ -0,0 +1,170 @@
+import { ErrorBoundary } from "@/jsx/error-boundary";
+import { renderToString } from "@/jsx/jsx-runtime";
+import type { JsxElement } from "@/jsx/jsx-types";
+import { type BatchLoadFunction, createLoader, type Loader, LoaderScope } from "@/jsx/loader";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { Router, routes } from "@/routing/router";
+
+describe("loader", () => {
+    function createTestLoader(batchLoad?: BatchLoadFunction<number, string>) {
+        const batches: number[][] = [];
+        const loader = createLoader<number, string>(
+            (keys) => {
+                batches.push([...keys]);
+                return batchLoad?.(keys) ?? Promise.resolve(keys.map((key) => `v${key}`));
+            },
+            { maxBatchSize: 3 },
+        );
+        return { loader, batches };
+    }
+
+    function createRow(loader: Loader<number, string>) {
+        return async ({ id, delay }: { id: number; delay?: boolean }) => {
+            if (delay) {
+                await Promise.resolve();
+            }
+            return <>{await loader.load(id)},</>;
+        };
+    }
+
+    function render(element: JsxElement) {
+        return renderToString(<LoaderScope>{element}</LoaderScope>);
+    }
+
+    it("deduplicates and batches the keys loaded by sibling components", async () => {
+        const { loader, batches } = createTestLoader();
+        const Row = createRow(loader);
+
+        expect(
+            await render(
+                <>
+                    <Row id={1} />
+                    <Row id={2} delay />
+                    <Row id={1} delay />
+                    <Row id={3} />
+                </>,
+            ),
+        ).toBe("v1,v2,v1,v3,");
+        expect(batches).toStrictEqual([[1, 3, 2]]);
+    });
+
+    it("splits batches exceeding the maximum batch size", async () => {
+        const { loader, batches } = createTestLoader();
+        const Row = createRow(loader);
+
+        expect(
+            await render(
+                <>
+                    {[1, 2, 3, 4, 5].map((id) => (
+                        <Row id={id} />
+                    ))}
+                </>,
+            ),
+        ).toBe("v1,v2,v3,v4,v5,");
+        expect(batches).toStrictEqual([
+            [1, 2, 3],
+            [4, 5],
+        ]);
+    });
+
+    it("requires the maximum batch size to be a positive integer", () => {
+        for (const maxBatchSize of [0, -1, 1.5, NaN]) {
+            expect(() => createLoader(() => Promise.resolve([]), { maxBatchSize })).toThrow(
+                "must be a positive integer",
+            );
+        }
+    });
+
+    it("caches the loaded values per scope until they're cleared", async () => {
+        const { loader, batches } = createTestLoader();
+        const Row = createRow(loader);
+        const Clear = ({ id }: { id: number }) => {
+            loader.clear(id);
+            return null;
+        };
+
+        expect(await render(<Row id={1} />)).toBe("v1,");
+        expect(await render(<Row id={1} />)).toBe("v1,");
+        expect(batches).toStrictEqual([[1], [1]]);
+
+        const Sequential = async () => (
+            <>
+                <Row id={1} />
+                {await loader.load(2)}
+                <Row id={1} />
+                <Clear id={1} />
+                <Row id={1} />
+                {JSON.stringify(await loader.loadMany([1, 2]))}
+            </>
+        );
+        expect(await render(<Sequential />)).toBe('v1,v2v1,v1,["v1","v2"]');
+        expect(batches.slice(2)).toStrictEqual([[2], [1], [1]]);
+    });
+
+    it("propagates loading errors to the nearest error boundary", async () => {
+        const { loader } = createTestLoader((keys) =>
+            Promise.resolve(
+                keys.map((key) => (key === 2 ? new Error(`failed ${key}`) : `v${key}`)),
+            ),
+        );
+        const Row = createRow(loader);
+        const ErrorView = ({ error }: { error: unknown }) => <>{String(error)},</>;
+
+        expect(
+            await render(
+                <>
+                    <Row id={1} />
+                    <ErrorBoundary ErrorView={ErrorView}>
+                        <Row id={2} />
+                    </ErrorBoundary>
+                </>,
+            ),
+        ).toBe("v1,Error: failed 2,");
+
+        const { loader: failingLoader } = createTestLoader(() => Promise.reject(new Error("down")));
+        const FailingRow = createRow(failingLoader);
+        await expect(
+            render(
+                <>
+                    <FailingRow id={1} />
+                    <FailingRow id={2} />
+                </>,
+            ),
+        ).rejects.toThrow("down");
+
+        const { loader: invalidLoader } = createTestLoader(() => Promise.resolve([]));
+        const InvalidRow = createRow(invalidLoader);
+        await expect(render(<InvalidRow id={1} />)).rejects.toThrow("returned 0 values for 1 keys");
+    });
+
+    it("requires a loader scope", async () => {
+        const { loader } = createTestLoader();
+        const Row = createRow(loader);
+        await expect(renderToString(<Row id={1} />)).rejects.toThrow("within a `LoaderScope`");
+    });
+
+    it("scopes the loaded values to the current HTTP request", async () => {
+        const { loader, batches } = createTestLoader();
+        const Row = createRow(loader);
+        const handler = createFetchHandler(
+            <Router
+                routes={routes({
+                    "GET /": () => (
+                        <>
+                            <Row id={1} />
+                            <Row id={2} />
+                        </>
+                    ),
+                })}
+            />,
+        );
+
+        for (let i = 0; i < 2; ++i) {
+            expect(await (await handler(new Request("http://localhost/"))).text()).toBe("v1,v2,");
+        }
+        expect(batches).toStrictEqual([
+            [1, 2],
+            [1, 2],
+        ]);
+    });
+});
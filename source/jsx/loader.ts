@@ -0,0 +1,161 @@
+import { createContext, useContextOrDefault } from "@/jsx/context";
+import type { ErrorBoundary } from "@/jsx/error-boundary";
+import type { PropsWithChildren } from "@/jsx/jsx-types";
+import type { renderChildren } from "@/jsx/render-children";
+
+/**
+ * Loads the values of a batch of keys at once, e.g., with a single database query. The returned
+ * array must contain the values in the order of the keys. If the value of some key cannot be
+ * loaded, an `Error` can be returned in its place, which only fails the loading of that key.
+ */
+export type BatchLoadFunction<K, V> = (keys: readonly K[]) => Promise<readonly (V | Error)[]>;
+
+/** Configures the behavior of a {@link Loader}. */
+export type LoaderOptions<K> = {
+    /**
+     * Maps a key to the value used for deduplication, e.g., for object keys. Keys are compared with
+     * `Object.is`-like semantics, so defaults to the key itself.
+     */
+    readonly getCacheKey?: (key: K) => unknown;
+    /**
+     * The maximum number of keys passed to the batch function at once, which must be a positive
+     * integer. Defaults to no limit.
+     */
+    readonly maxBatchSize?: number;
+};
+
+/**
+ * Loads values by key, deduplicating identical keys and batching the loading of distinct keys
+ * within a single request, see {@link createLoader}.
+ */
+export type Loader<K, V> = {
+    /** Loads the value of the given `key`. */
+    readonly load: (key: K) => Promise<V>;
+    /** Loads the values of the given `keys`, failing if any of them cannot be loaded. */
+    readonly loadMany: (keys: readonly K[]) => Promise<V[]>;
+    /**
+     * Removes the value of the given `key` from the current request's cache, so that it is loaded
+     * again the next time it is requested, e.g., after it has been changed by a form submission.
+     */
+    readonly clear: (key: K) => void;
+};
+
+type LoaderState = {
+    readonly cache: Map<unknown, Promise<unknown>>;
+    batch: { key: unknown; resolve: (value: unknown) => void; reject: (e: unknown) => void }[];
+};
+
+const LoaderScopeContext = createContext<Map<symbol, LoaderState>>({ name: "loader scope" });
+
+/**
+ * Scopes the values cached by all {@link Loader}s to the children. HyTTS already provides a loader
+ * scope for each HTTP request, so this component is only required when rendering outside of an HTTP
+ * response, e.g., in tests.
+ */
+export function LoaderScope(props: PropsWithChildren) {
+    return LoaderScopeContext({ value: new Map(), children: props.children });
+}
+
+/**
+ * Creates a loader that loads values via the given `batchLoad` function. As the children of a JSX
+ * element are rendered concurrently by {@link renderChildren}, sibling components often load the
+ * same or similar data at the same time, e.g., the rows of a list. The loader deduplicates the keys
+ * requested during the current request and batches all keys requested within the same tick into a
+ * single call of `batchLoad`. Loaded values are cached until the end of the request.
+ *
+ * Loading errors are thrown by the component that requested the key, so that they're handled by the
+ * nearest {@link ErrorBoundary}. The loader is typically stored in a module-scoped variable, whereas
+ * its values are scoped to the current request.
+ */
+export function createLoader<K, V>(
+    batchLoad: BatchLoadFunction<K, V>,
+    options?: LoaderOptions<K>,
+): Loader<K, V> {
+    const id = Symbol();
+    const getCacheKey = options?.getCacheKey ?? ((key: K) => key);
+    const maxBatchSize = options?.maxBatchSize ?? Infinity;
+    if (maxBatchSize !== Infinity && (!Number.isInteger(maxBatchSize) || maxBatchSize < 1)) {
+        throw new Error(`The maximum batch size must be a positive integer, got ${maxBatchSize}.`);
+    }
+
+    const loader: Loader<K, V> = {
+        load(key) {
+            const state = getState();
+            const cacheKey = getCacheKey(key);
+            const cachedValue = state.cache.get(cacheKey);
+            if (cachedValue) {
+                return cachedValue as Promise<V>;
+            }
+
+            const value = new Promise<unknown>((resolve, reject) => {
+                if (state.batch.length === 0) {
+                    // Like Facebook's DataLoader, we wait for all pending promise reactions of the
+                    // current tick before dispatching the batch, so that components that await
+                    // something before requesting their keys are batched as well.
+                    void Promise.resolve().then(() => process.nextTick(() => dispatch(state)));
+                }
+
+                state.batch.push({ key, resolve, reject });
+            });
+
+            state.cache.set(cacheKey, value);
+            return value as Promise<V>;
+        },
+        loadMany(keys) {
+            return Promise.all(keys.map((key) => loader.load(key)));
+        },
+        clear(key) {
+            getState().cache.delete(getCacheKey(key));
+        },
+    };
+
+    return loader;
+
+    function getState() {
+        const scope = useContextOrDefault(LoaderScopeContext, undefined);
+        if (!scope) {
+            throw new Error(
+                "Loaders can only be used while rendering an HTTP response or within a `LoaderScope`.",
+            );
+        }
+
+        let state = scope.get(id);
+        if (!state) {
+            state = { cache: new Map(), batch: [] };
+            scope.set(id, state);
+        }
+
+        return state;
+    }
+
+    function dispatch(state: LoaderState) {
+        const batch = state.batch;
+        state.batch = [];
+
+        for (let i = 0; i < batch.length; i += maxBatchSize) {
+            void loadBatch(batch.slice(i, i + maxBatchSize));
+        }
+    }
+
+    async function loadBatch(batch: LoaderState["batch"]) {
+        try {
+            const values = await batchLoad(batch.map(({ key }) => key as K));
+            if (values.length !== batch.length) {
+                throw new Error(
+                    `The batch load function returned ${values.length} values for ${batch.length} keys.`,
+                );
+            }
+
+            batch.forEach(({ resolve, reject }, index) => {
+                const value = values[index];
+                if (value instanceof Error) {
+                    reject(value);
+                } else {
+                    resolve(value);
+                }
+            });
+        } catch (e: unknown) {
+            batch.forEach(({ reject }) => reject(e));
+        }
+    }
+}
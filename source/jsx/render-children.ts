@@ -1,11 +1,17 @@
 import { escapeString } from "@/jsx/escape-string";
 import { isJsxExpression, type JsxExpression } from "@/jsx/jsx-types";
+import { getStreamWriter, runWithoutStreamWriter, type StreamWriter } from "@/jsx/stream-writer";
 
 export function renderChildren(
     children: unknown,
     startTag = "",
     endTag = "",
 ): string | Promise<string> {
+    const writer = getStreamWriter();
+    if (writer) {
+        return streamChildren(writer, children, startTag, endTag);
+    }
+
     const renderedChildren: (string | null | Promise<string | null>)[] = [];
     collectChildrenAndStartRendering(children);
 
@@ -49,27 +55,91 @@ export function renderChildren(
             renderedChildren.push(renderChild(children));
         }
     }
+}
 
-    function renderChild(child: unknown): ReturnType<JsxExpression> {
-        if (child === null || child === undefined) {
-            return "";
-        }
+/**
+ * Renders the children at the frontier of a stream: Everything up to the first child that doesn't
+ * complete synchronously is written to the stream immediately. That child also stays at the
+ * frontier and thus writes its own HTML to the stream, whereas all subsequent children render
+ * concurrently into strings that are written once all preceding children have completed. As the
+ * HTML is written to the stream, the returned HTML is always empty.
+ */
+function streamChildren(
+    writer: StreamWriter,
+    children: unknown,
+    startTag: string,
+    endTag: string,
+): string | Promise<string> {
+    // Contains the first pending child, i.e., the one at the frontier, and all subsequent children.
+    const renderedChildren: (string | null | Promise<string | null>)[] = [];
 
-        switch (typeof child) {
-            case "boolean":
-                return "";
-            case "number":
-                return child.toString();
-            case "string":
-                return escapeString(child, false);
-            case "function":
-                if (isJsxExpression(child)) {
-                    return child();
+    writer.write(startTag);
+    collectChildrenAndStartRendering(children);
+
+    if (renderedChildren.length === 0) {
+        // Fast path: All children have already been written synchronously.
+        writer.write(endTag);
+        return "";
+    }
+
+    return (async () => {
+        try {
+            for (const child of renderedChildren) {
+                if (typeof child === "string" || child === null) {
+                    writer.write(child ?? "");
                 } else {
-                    throw new Error("Functions are unsupported as JSX children.");
+                    // Send everything we have so far before waiting for the child to complete.
+                    writer.flush();
+                    writer.write((await child) ?? "");
                 }
-            default:
-                throw new Error("Unsupported JSX child.");
+            }
+
+            writer.write(endTag);
+            return "";
+        } catch (e: unknown) {
+            // See `renderChildren` above for why we have to await all children.
+            await Promise.all(renderedChildren);
+            throw e;
         }
+    })();
+
+    function collectChildrenAndStartRendering(children: unknown) {
+        if (Array.isArray(children)) {
+            for (const child of children) {
+                collectChildrenAndStartRendering(child);
+            }
+        } else if (renderedChildren.length !== 0) {
+            renderedChildren.push(runWithoutStreamWriter(() => renderChild(children)));
+        } else {
+            const renderedChild = renderChild(children);
+            if (typeof renderedChild === "string" || renderedChild === null) {
+                writer.write(renderedChild ?? "");
+            } else {
+                renderedChildren.push(renderedChild);
+            }
+        }
+    }
+}
+
+function renderChild(child: unknown): ReturnType<JsxExpression> {
+    if (child === null || child === undefined) {
+        return "";
+    }
+
+    switch (typeof child) {
+        case "boolean":
+            return "";
+        case "number":
+            return child.toString();
+        case "string":
+            return escapeString(child, false);
+        case "function":
+            if (isJsxExpression(child)) {
+                return child();
+            } else {
+                throw new Error("Functions are unsupported as JSX children.");
+            }
+        default:
+            throw new Error("Unsupported JSX child.");
     }
 }
@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Receives the HTML of a JSX element that is rendered to a stream. Only the component at the
+ * "frontier" of the stream has access to the writer, i.e., the component whose preceding HTML has
+ * already been written completely. All other components render their HTML into strings that are
+ * written once they've reached the frontier.
+ */
+export type StreamWriter = {
+    /** Appends the given HTML to the stream's buffer. */
+    readonly write: (html: string) => void;
+    /** Sends the buffered HTML to the stream's consumer. */
+    readonly flush: () => void;
+};
+
+/**
+ * Defers the HTML rendered by `render` to the end of the stream. `render` is invoked immediately,
+ * so the deferred HTML is rendered concurrently to the remainder of the stream. The deferred HTML
+ * is written once everything preceding it has been written, i.e., the stream's regular HTML and,
+ * for nested deferrals, the deferred HTML of the enclosing deferral.
+ */
+export type StreamDeferrer = (render: () => string | Promise<string>) => void;
+
+/**
+ * Marks a flush point within the HTML rendered to a stream. Error boundaries hold back the HTML of
+ * their children until it contains a flush point, at which point all preceding HTML is sent to the
+ * stream's consumer. The marker is removed before the HTML is sent.
+ */
+export const flushPointMarker = "<!--hy:flush-point-->";
+
+const streamWriterStorage = new AsyncLocalStorage<StreamWriter>();
+const streamDeferrerStorage = new AsyncLocalStorage<StreamDeferrer>();
+
+/** Gets the stream writer of the calling component if it is at the frontier of a stream. */
+export function getStreamWriter() {
+    return streamWriterStorage.getStore();
+}
+
+/** Invokes `callback` with the given `writer` being at the frontier of the stream. */
+export function runWithStreamWriter<T>(writer: StreamWriter, callback: () => T): T {
+    return streamWriterStorage.run(writer, callback);
+}
+
+/**
+ * Invokes `callback` without access to the stream writer, i.e., all JSX elements rendered by
+ * `callback` return their HTML as strings instead of writing it to the stream.
+ */
+export function runWithoutStreamWriter<T>(callback: () => T): T {
+    return streamWriterStorage.getStore() ? streamWriterStorage.exit(callback) : callback();
+}
+
+/** Gets the stream deferrer of the calling component if it is rendered to a stream. */
+export function getStreamDeferrer() {
+    return streamDeferrerStorage.getStore();
+}
+
+/** Invokes `callback` with the given `deferrer` for all deferrals of rendered JSX elements. */
+export function runWithStreamDeferrer<T>(deferrer: StreamDeferrer, callback: () => T): T {
+    return streamDeferrerStorage.run(deferrer, callback);
+}
+
+/**
+ * Invokes `callback` as if there was no stream at all, i.e., all JSX elements rendered by
+ * `callback` return their entire HTML as strings, including the HTML they'd otherwise defer.
+ */
+export function runOutsideOfStream<T>(callback: () => T): T {
+    return streamDeferrerStorage.getStore()
+        ? streamDeferrerStorage.exit(() => runWithoutStreamWriter(callback))
+        : runWithoutStreamWriter(callback);
+}
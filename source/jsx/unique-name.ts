@@ -16,11 +16,8 @@ export function UniqueNameProvider(props: UniqueNameProviderProps) {
         throw new Error("You cannot use '$' as part of a namespace.");
     }
 
-    const context = useContextOrDefault(UniqueNameContext, false);
-    const namespace = context ? `${useUniqueName()}$${props.namespace}` : `$${props.namespace}`;
-
-    return UniqueNameContext({
-        value: { namespace, index: 0 },
+    return UniqueNamespace({
+        namespace: useNestedUniqueNamespace(props.namespace) ?? `$${props.namespace}`,
         children: props.children,
     });
 }
@@ -41,3 +38,22 @@ export function useUniqueName() {
     const context = useContext(UniqueNameContext);
     return `${context.namespace}$${context.index++}`;
 }
+
+/**
+ * Generates a new, request-wide unique namespace nested within the current one that can be passed
+ * to the {@link UniqueNamespace} component. Returns `undefined` if there is no current namespace.
+ */
+export function useNestedUniqueNamespace(name: string) {
+    return useContextOrDefault(UniqueNameContext, false) ? `${useUniqueName()}$${name}` : undefined;
+}
+
+/**
+ * Provides unique names within the given fully qualified `namespace`, replacing the current one
+ * instead of nesting within it. This is a HyTTS-internal component.
+ */
+export function UniqueNamespace(props: PropsWithChildren<{ readonly namespace: string }>) {
+    return UniqueNameContext({
+        value: { namespace: props.namespace, index: 0 },
+        children: props.children,
+    });
+}
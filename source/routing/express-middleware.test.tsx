@@ -36,6 +36,41 @@ describe("express-middleware", () => {
             },
         ));
 
+    it("supports PUT, PATCH, and DELETE requests", () =>
+        runTestApp(
+            routes({
+                "GET /": () => <>GET</>,
+                "/:id": param(z.number(), (id) =>
+                    routes({
+                        "PUT /": route(z.object({ s: z.string() }), ({ s }) => (
+                            <>
+                                PUT {id()} {s}
+                            </>
+                        )),
+                        "PATCH /": route(z.object({ s: z.string() }), ({ s }) => (
+                            <>
+                                PATCH {id()} {s}
+                            </>
+                        )),
+                        "DELETE /": () => (
+                            <Redirect href={{ url: "/", method: "GET" } as Href<"GET">} />
+                        ),
+                    }),
+                ),
+            }),
+            async (href, fetch) => {
+                const putResponse = await fetch(href("PUT /:id", { id: 1 }, { s: "a" }));
+                expect(await putResponse.text()).toBe("PUT 1 a");
+
+                const patchResponse = await fetch(href("PATCH /:id", { id: 2 }, { s: "b" }));
+                expect(await patchResponse.text()).toBe("PATCH 2 b");
+
+                const deleteResponse = await fetch(href("DELETE /:id", { id: 3 }));
+                expect(deleteResponse.redirected).toBe(true);
+                expect(await deleteResponse.text()).toBe("GET");
+            },
+        ));
+
     it("allows modifying the HTTP response", () =>
         runTestApp(
             routes({
@@ -77,4 +112,48 @@ describe("express-middleware", () => {
                 expect(response.status).toBe(500);
             },
         ));
+
+    it("streams the HTML if streaming is enabled", () => {
+        const sleep = () => new Promise((resolve) => setTimeout(resolve, 10));
+        const Slow = async () => <>{await sleep()}slow</>;
+        const LateStatusCode = async () => {
+            await sleep();
+            return <HttpStatusCode code={400} />;
+        };
+
+        return runTestApp(
+            routes({
+                "GET /stream": () => (
+                    <HttpHeader name="x-test" value="test">
+                        fast <Slow />
+                    </HttpHeader>
+                ),
+                "GET /redirect": () => (
+                    <Redirect href={{ url: "/stream", method: "GET" } as Href<"GET">} />
+                ),
+                "GET /late-status-code": () => (
+                    <>
+                        fast <LateStatusCode />
+                    </>
+                ),
+            }),
+            async (href, fetch) => {
+                const streamResponse = await fetch(href("GET /stream"));
+                expect(streamResponse.headers.get("x-test")).toBe("test");
+                expect(streamResponse.headers.get("content-type")).toBe("text/html; charset=utf-8");
+                expect(await streamResponse.text()).toBe("fast slow");
+
+                const redirectResponse = await fetch(href("GET /redirect"));
+                expect(redirectResponse.redirected).toBe(true);
+                expect(await redirectResponse.text()).toBe("fast slow");
+
+                const lateStatusCodeResponse = await fetch(href("GET /late-status-code"));
+                expect(lateStatusCodeResponse.status).toBe(200);
+                expect(await lateStatusCodeResponse.text()).toMatch(
+                    /^fast fatal-error-callback: Error: Cannot set the HTTP status code after/,
+                );
+            },
+            { streaming: true },
+        );
+    });
 });
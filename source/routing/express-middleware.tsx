@@ -1,10 +1,75 @@
-import type { Request, RequestHandler } from "express";
-import { HttpResponse } from "@/http/http-context";
+import { Readable } from "node:stream";
+import type { Request, RequestHandler, Response } from "express";
+import {
+    computeETag,
+    type ETag,
+    type ETagOptions,
+    isNotModified,
+    type LastModified,
+} from "@/http/conditional-get";
+import { createCspNonce, type CspOptions, ensureValidCspOptions } from "@/http/csp";
+import type { CsrfOptions } from "@/http/csrf";
+import { type CsrfToken, ensureResponseNotStreamed, HttpResponse } from "@/http/http-context";
 import { toHttpStatusCode } from "@/http/http-error";
-import type { ErrorBoundary } from "@/jsx/error-boundary";
-import { renderToString } from "@/jsx/jsx-runtime";
+import {
+    isMultipartContentType,
+    type MultipartOptions,
+    type MultipartRequestBody,
+    parseMultipartRequestBody,
+} from "@/http/multipart";
+import type { SessionOptions, useSession } from "@/http/session";
+import type { CspNonce } from "@/jsx/csp-nonce";
+import type { ErrorBoundary, FlushPoint } from "@/jsx/error-boundary";
+import { renderToStream, renderToString } from "@/jsx/jsx-runtime";
 import type { JsxElement } from "@/jsx/jsx-types";
 import type { Router } from "@/routing/router";
+import type { SigningOptions } from "@/routing/signing";
+import type { encrypted, EncryptionKeyring } from "@/serialization/encryption";
+
+export type ExpressMiddlewareOptions = {
+    /**
+     * If `true`, the HTML is streamed to the browser as it is rendered, see {@link renderToStream}.
+     * HTTP status codes, headers, and redirects must then be set before the first part of the HTML
+     * is sent; otherwise, an error is thrown. As the HTML within an {@link ErrorBoundary} is held
+     * back until it reaches a {@link FlushPoint}, place a flush point after the document's `<head>`
+     * within the top-level error boundary.
+     */
+    readonly streaming?: boolean;
+    /**
+     * Limits the size of `multipart/form-data` requests, e.g., for forms uploading files. Multipart
+     * requests are parsed by HyTTS, so make sure no other Express middleware consumes their
+     * bodies.
+     */
+    readonly multipart?: MultipartOptions;
+    /** Enables signed route parameters, see the `signed` option of `route` and `param`. */
+    readonly signing?: SigningOptions;
+    /** Enables encrypted route parameters, see {@link encrypted}. */
+    readonly keyring?: EncryptionKeyring;
+    /**
+     * Enables the protection against cross-site request forgery (CSRF) attacks, if `true` or if
+     * options are given: All non-GET routes then require the session's CSRF token that HyTTS sends
+     * automatically with all non-GET requests it issues, provided that the document's head contains
+     * the {@link CsrfToken} component.
+     */
+    readonly csrf?: boolean | CsrfOptions;
+    /** Enables sessions, see {@link useSession}. */
+    readonly session?: SessionOptions;
+    /**
+     * Sends a `Content-Security-Policy` header with each response, if `true` or if options are
+     * given. By default, inline scripts are allowed via the request's CSP nonce, see
+     * {@link CspNonce}.
+     */
+    readonly csp?: boolean | CspOptions;
+    /**
+     * If `true` or if options are given, computes ETags from the rendered HTML for all successful
+     * GET responses that do not declare an {@link ETag} themselves. Regardless of this option, GET
+     * requests are answered with a "304 - not modified" status code if the browser's cached copy
+     * matches the response's ETag or {@link LastModified} date, though only for frame requests if
+     * the content security policy uses a nonce. ETags cannot be computed from the HTML when
+     * streaming.
+     */
+    readonly etag?: boolean | ETagOptions;
+};
 
 /**
  * Creates an Express middleware for rendering JSX-based routes. This must be the last middleware in
@@ -22,16 +87,28 @@ import type { Router } from "@/routing/router";
  *   top-most {@link ErrorBoundary}. This function must return a plain HTML string that is
  *   immediately sent to the browser. Ensure that this callback never throws an error, or that there
  *   is an Express middleware later on that handles such errors. If no callback is provided, a
- *   generic error message not containing any details is shown.
+ *   generic error message not containing any details is shown. When streaming, the error HTML is
+ *   appended to the HTML that has already been sent, if any.
+ * @param options Configures the middleware, e.g., to enable streaming.
  * @returns A middleware for Express that can be used with `express.use`.
  */
 export function createExpressMiddleware(
     element: JsxElement,
     onFatalError?: (error: unknown) => string | Promise<string>,
+    options?: ExpressMiddlewareOptions,
 ): RequestHandler {
+    ensureValidCspOptions(options?.csp, options?.streaming);
+
     // eslint-disable-next-line @typescript-eslint/no-misused-promises
     return async (req, res) => {
+        if (options?.streaming) {
+            await stream(req, res, element, onFatalError, options);
+            return;
+        }
+
+        const cspNonce = createCspNonce();
         try {
+            const { requestBody, uploadedFiles } = await getRequestBody(req, options?.multipart);
             send(
                 await renderToString(
                     <HttpResponse
@@ -39,10 +116,21 @@ export function createExpressMiddleware(
                             method: req.method,
                             requestPath: req.path.split("/"),
                             searchParams: getSearchParams(req),
-                            requestBody: getRequestBody(req),
-                            redirect: (url) => res.redirect(url),
+                            requestBody,
+                            uploadedFiles,
+                            signing: options?.signing,
+                            keyring: options?.keyring,
+                            csrf: options?.csrf,
+                            session: options?.session,
+                            csp: options?.csp,
+                            cspNonce,
+                            // Non-GET requests are redirected with a 303 status code, because
+                            // browsers would otherwise repeat, e.g., a DELETE request for the
+                            // redirect target instead of issuing a GET request.
+                            redirect: (url) => res.redirect(req.method === "GET" ? 302 : 303, url),
                             getHeader: (header) => req.get(header),
                             setHeader: (header, value) => res.setHeader(header, value),
+                            appendHeader: (header, value) => res.append(header, value),
                             setStatusCode: (code) => res.status(code),
                         }}
                     >
@@ -58,15 +146,133 @@ export function createExpressMiddleware(
         // We might not be able to send the response, for instance when the browser was
         // redirected during JSX rendering.
         function send(html: string) {
-            if (!res.headersSent) {
-                res.send(html);
-            } else {
+            if (res.headersSent) {
                 res.end();
+                return;
+            }
+
+            if (
+                options?.etag &&
+                req.method === "GET" &&
+                res.statusCode === 200 &&
+                !res.get("etag")
+            ) {
+                res.setHeader(
+                    "etag",
+                    computeETag(html, cspNonce, options.etag === true ? {} : options.etag),
+                );
+            }
+
+            if (
+                isNotModified(req.method, res.statusCode, toHeaderLookup(req), toHeaderLookup(res))
+            ) {
+                res.status(304).end();
+            } else {
+                res.send(html);
             }
         }
     };
 }
 
+/** Renders the response via {@link renderToStream}, sending the HTML as it becomes available. */
+async function stream(
+    req: Request,
+    res: Response,
+    element: JsxElement,
+    onFatalError: ((error: unknown) => string | Promise<string>) | undefined,
+    options: ExpressMiddlewareOptions,
+) {
+    const state = { isStreaming: false, isRedirected: false };
+
+    try {
+        const { requestBody, uploadedFiles } = await getRequestBody(req, options.multipart);
+        const htmlStream = renderToStream(
+            <HttpResponse
+                value={{
+                    method: req.method,
+                    requestPath: req.path.split("/"),
+                    searchParams: getSearchParams(req),
+                    requestBody,
+                    uploadedFiles,
+                    signing: options.signing,
+                    keyring: options.keyring,
+                    csrf: options.csrf,
+                    session: options.session,
+                    csp: options.csp,
+                    // See above for why non-GET requests are redirected with a 303 status code.
+                    redirect: (url) => {
+                        ensureResponseNotStreamed(state.isStreaming, "redirect");
+                        state.isRedirected = true;
+                        res.redirect(req.method === "GET" ? 302 : 303, url);
+                    },
+                    getHeader: (header) => req.get(header),
+                    setHeader: (header, value) => {
+                        ensureResponseNotStreamed(
+                            state.isStreaming,
+                            `set the HTTP header '${header}'`,
+                        );
+                        res.setHeader(header, value);
+                    },
+                    appendHeader: (header, value) => {
+                        ensureResponseNotStreamed(
+                            state.isStreaming,
+                            `set the HTTP header '${header}'`,
+                        );
+                        res.append(header, value);
+                    },
+                    setStatusCode: (code) => {
+                        ensureResponseNotStreamed(state.isStreaming, "set the HTTP status code");
+                        res.status(code);
+                    },
+                }}
+            >
+                {element}
+            </HttpResponse>,
+            { onFirstFlush: () => (state.isStreaming = true) },
+        );
+
+        const reader = htmlStream.getReader();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            // We can't send anything once the browser was redirected during JSX rendering.
+            if (state.isRedirected) {
+                await reader.cancel();
+                break;
+            }
+
+            if (!res.headersSent) {
+                if (
+                    isNotModified(
+                        req.method,
+                        res.statusCode,
+                        toHeaderLookup(req),
+                        toHeaderLookup(res),
+                    )
+                ) {
+                    await reader.cancel();
+                    res.status(304);
+                    break;
+                }
+
+                res.type("html");
+            }
+
+            res.write(chunk.value);
+        }
+    } catch (e: unknown) {
+        if (!res.headersSent) {
+            res.status(toHttpStatusCode(e)).type("html");
+        }
+
+        if (!res.writableEnded) {
+            res.write(onFatalError ? await onFatalError(e) : "An error occurred.");
+        }
+    }
+
+    if (!res.writableEnded) {
+        res.end();
+    }
+}
+
 /**
  * Ensures that the request's search params are a string and returns it. The string is expected to
  * be URL encoded, but that is not checked here.
@@ -84,11 +290,21 @@ function getSearchParams(req: Request): string {
     return query ?? "";
 }
 
+/** Provides access to the headers of an Express request or response. */
+function toHeaderLookup(reqOrRes: Request | Response) {
+    return { get: (header: string) => reqOrRes.get(header) };
+}
+
 /**
- * For form-urlencoded requests, ensures that the request body is a string and returns it. The
- * string is expected to be URL encoded, but that is not checked here.
+ * For form-urlencoded requests of any HTTP method carrying a body, ensures that the request body is
+ * a string and returns it. The string is expected to be URL encoded, but that is not checked here.
+ * Multipart requests are converted into an equivalent URL-encoded request body with references to
+ * the uploaded files.
  */
-function getRequestBody(req: Request): string {
+async function getRequestBody(
+    req: Request,
+    multipartOptions: MultipartOptions | undefined,
+): Promise<MultipartRequestBody> {
     if (req.is("application/x-www-form-urlencoded")) {
         if (req.body && typeof req.body !== "string") {
             throw new Error(
@@ -96,9 +312,30 @@ function getRequestBody(req: Request): string {
                     'Express like so: `app.use(express.text({ type: "application/x-www-form-urlencoded" }))`',
             );
         } else {
-            return req.body;
+            return { requestBody: req.body, uploadedFiles: new Map() };
+        }
+    }
+
+    if (isMultipartContentType(req.get("content-type"))) {
+        return await parseMultipartRequestBody(toWebRequest(req), multipartOptions);
+    }
+
+    return { requestBody: "", uploadedFiles: new Map() };
+}
+
+/** Converts the Express request into a standard Web Fetch API `Request` with a streamed body. */
+function toWebRequest(req: Request) {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+        for (const v of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            headers.append(name, v);
         }
     }
 
-    return "";
+    return new Request(`${req.protocol}://${req.get("host") ?? "localhost"}${req.originalUrl}`, {
+        method: req.method,
+        headers,
+        body: Readable.toWeb(req) as ReadableStream<Uint8Array>,
+        duplex: "half",
+    } as RequestInit);
 }
@@ -0,0 +1,181 @@
+import { z } from "zod";
+import { HttpHeader, HttpStatusCode, Redirect, useRequestHeader } from "@/http/http-context";
+import { CspNonce } from "@/jsx/csp-nonce";
+import { createFetchHandler, type FetchHandlerOptions } from "@/routing/fetch-handler";
+import { getHrefs, type Href } from "@/routing/href";
+import { param, route, Router, routes, type RoutesComponent } from "@/routing/router";
+
+describe("fetch-handler", () => {
+    function createFetch(rs: RoutesComponent<any>, options?: FetchHandlerOptions) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            options,
+        );
+
+        return (href: Href<any, any>, headers?: Record<string, string>) =>
+            handler(
+                new Request(
+                    `http://localhost${href.url}`,
+                    href.method === "GET"
+                        ? { headers }
+                        : {
+                              method: href.method,
+                              body: href.body,
+                              headers: {
+                                  ...headers,
+                                  "x-hy": "true",
+                                  "content-type": "application/x-www-form-urlencoded",
+                              },
+                          },
+                ),
+            );
+    }
+
+    it("provides access to the HTTP request for routing and param retrieval", async () => {
+        const rs = routes({
+            "/:n": param(z.number(), (n) =>
+                routes({
+                    "GET /a": route(z.object({ b: z.number() }), ({ b }) => (
+                        <>
+                            GET {n()} {b} {useRequestHeader("x-test")}
+                        </>
+                    )),
+                    "PUT /b": route(z.object({ b: z.number() }), ({ b }) => (
+                        <>
+                            PUT {n()} {b}
+                        </>
+                    )),
+                }),
+            ),
+        });
+        const href = getHrefs<typeof rs>();
+        const fetch = createFetch(rs);
+
+        const getResponse = await fetch(href("GET /:n/a", { n: 1 }, { b: 2 }), { "x-test": "h" });
+        expect(getResponse.status).toBe(200);
+        expect(getResponse.headers.get("content-type")).toBe("text/html; charset=utf-8");
+        expect(await getResponse.text()).toBe("GET 1 2 h");
+
+        const putResponse = await fetch(href("PUT /:n/b", { n: 1 }, { b: 2 }));
+        expect(await putResponse.text()).toBe("PUT 1 2");
+    });
+
+    it("allows modifying the HTTP response", async () => {
+        const rs = routes({
+            "GET /statusCode": () => <HttpStatusCode code={201}>status: 201</HttpStatusCode>,
+            "GET /headers": () => (
+                <HttpHeader name="x-test" value="test">
+                    header
+                </HttpHeader>
+            ),
+            "GET /redirect": () => <Redirect href={href("GET /statusCode")} />,
+            "POST /redirect": () => <Redirect href={href("GET /statusCode")} />,
+        });
+        const href = getHrefs<typeof rs>();
+        const fetch = createFetch(rs);
+
+        const statusCodeResponse = await fetch(href("GET /statusCode"));
+        expect(await statusCodeResponse.text()).toBe("status: 201");
+        expect(statusCodeResponse.status).toBe(201);
+
+        const headerResponse = await fetch(href("GET /headers"));
+        expect(await headerResponse.text()).toBe("header");
+        expect(headerResponse.headers.get("x-test")).toBe("test");
+
+        const getRedirectResponse = await fetch(href("GET /redirect"));
+        expect(getRedirectResponse.status).toBe(302);
+        expect(getRedirectResponse.headers.get("location")).toBe("/statusCode");
+
+        const postRedirectResponse = await fetch(href("POST /redirect"));
+        expect(postRedirectResponse.status).toBe(303);
+        expect(postRedirectResponse.headers.get("location")).toBe("/statusCode");
+    });
+
+    it("returns 404 for unknown routes", async () => {
+        const fetch = createFetch(routes({ "GET /a": () => <>a</> }));
+
+        const response = await fetch({ url: "/b", method: "GET" } as Href<"GET">);
+        expect(response.status).toBe(404);
+    });
+
+    it("invokes the error callback for fatal errors", async () => {
+        const rs = routes({
+            "GET /error": () => {
+                throw new Error("test");
+            },
+        });
+        const fetch = createFetch(rs);
+
+        const response = await fetch(getHrefs<typeof rs>()("GET /error"));
+        expect(await response.text()).toBe("fatal-error-callback: Error: test");
+        expect(response.status).toBe(500);
+    });
+
+    it("streams the HTML if streaming is enabled", async () => {
+        const sleep = () => new Promise((resolve) => setTimeout(resolve, 10));
+        const Slow = async () => <>{await sleep()}slow</>;
+        const LateHeader = async () => {
+            await sleep();
+            return <HttpHeader name="x-test" value="test" />;
+        };
+        const rs = routes({
+            "GET /stream": () => (
+                <HttpStatusCode code={201}>
+                    <HttpHeader name="x-test" value="test">
+                        fast <Slow />
+                    </HttpHeader>
+                </HttpStatusCode>
+            ),
+            "GET /redirect": () => <Redirect href={href("GET /stream")} />,
+            "GET /late-header": () => (
+                <>
+                    fast <LateHeader />
+                </>
+            ),
+        });
+        const href = getHrefs<typeof rs>();
+        const fetch = createFetch(rs, { streaming: true });
+
+        const streamResponse = await fetch(href("GET /stream"));
+        expect(streamResponse.status).toBe(201);
+        expect(streamResponse.headers.get("x-test")).toBe("test");
+        expect(await streamResponse.text()).toBe("fast slow");
+
+        const redirectResponse = await fetch(href("GET /redirect"));
+        expect(redirectResponse.status).toBe(302);
+        expect(redirectResponse.headers.get("location")).toBe("/stream");
+
+        const lateHeaderResponse = await fetch(href("GET /late-header"));
+        expect(lateHeaderResponse.status).toBe(200);
+        expect(await lateHeaderResponse.text()).toBe(
+            "fast fatal-error-callback: Error: Cannot set the HTTP header 'x-test' after the first " +
+                "part of the response has been streamed to the browser. Set HTTP status codes, " +
+                "headers, and redirects before any HTML is streamed, or disable streaming.",
+        );
+    });
+
+    it("answers only frame requests with 304 if a nonce-based CSP is used", async () => {
+        const rs = routes({
+            "GET /": () => (
+                <>
+                    <CspNonce /> page
+                </>
+            ),
+        });
+        const href = getHrefs<typeof rs>();
+        const fetch = createFetch(rs, { csp: true, etag: true });
+
+        const response = await fetch(href("GET /"));
+        const etag = response.headers.get("etag")!;
+        expect(response.status).toBe(200);
+
+        // The cached document's inline scripts only match the policy of the original request.
+        const documentResponse = await fetch(href("GET /"), { "if-none-match": etag });
+        expect(documentResponse.status).toBe(200);
+        expect(documentResponse.headers.get("content-security-policy")).toContain("'nonce-");
+
+        const frameResponse = await fetch(href("GET /"), { "if-none-match": etag, "x-hy": "true" });
+        expect(frameResponse.status).toBe(304);
+    });
+});
@@ -0,0 +1,286 @@
+import {
+    computeETag,
+    type ETag,
+    type ETagOptions,
+    isNotModified,
+    type LastModified,
+} from "@/http/conditional-get";
+import { createCspNonce, type CspOptions, ensureValidCspOptions } from "@/http/csp";
+import type { CsrfOptions } from "@/http/csrf";
+import { type CsrfToken, ensureResponseNotStreamed, HttpResponse } from "@/http/http-context";
+import { toHttpStatusCode } from "@/http/http-error";
+import {
+    isMultipartContentType,
+    type MultipartOptions,
+    type MultipartRequestBody,
+    parseMultipartRequestBody,
+} from "@/http/multipart";
+import type { SessionOptions, useSession } from "@/http/session";
+import type { CspNonce } from "@/jsx/csp-nonce";
+import type { ErrorBoundary, FlushPoint } from "@/jsx/error-boundary";
+import { renderToStream, renderToString } from "@/jsx/jsx-runtime";
+import type { JsxElement } from "@/jsx/jsx-types";
+import type { createExpressMiddleware } from "@/routing/express-middleware";
+import type { Router } from "@/routing/router";
+import type { SigningOptions } from "@/routing/signing";
+import type { encrypted, EncryptionKeyring } from "@/serialization/encryption";
+
+/** Handles a standard Web Fetch API `Request`, returning the corresponding `Response`. */
+export type FetchHandler = (request: Request) => Promise<Response>;
+
+export type FetchHandlerOptions = {
+    /**
+     * If `true`, the HTML is streamed to the browser as it is rendered, see {@link renderToStream}.
+     * HTTP status codes, headers, and redirects must then be set before the first part of the HTML
+     * is sent; otherwise, an error is thrown. As the HTML within an {@link ErrorBoundary} is held
+     * back until it reaches a {@link FlushPoint}, place a flush point after the document's `<head>`
+     * within the top-level error boundary.
+     */
+    readonly streaming?: boolean;
+    /** Limits the size of `multipart/form-data` requests, e.g., for forms uploading files. */
+    readonly multipart?: MultipartOptions;
+    /** Enables signed route parameters, see the `signed` option of `route` and `param`. */
+    readonly signing?: SigningOptions;
+    /** Enables encrypted route parameters, see {@link encrypted}. */
+    readonly keyring?: EncryptionKeyring;
+    /**
+     * Enables the protection against cross-site request forgery (CSRF) attacks, if `true` or if
+     * options are given: All non-GET routes then require the session's CSRF token that HyTTS sends
+     * automatically with all non-GET requests it issues, provided that the document's head contains
+     * the {@link CsrfToken} component.
+     */
+    readonly csrf?: boolean | CsrfOptions;
+    /** Enables sessions, see {@link useSession}. */
+    readonly session?: SessionOptions;
+    /**
+     * Sends a `Content-Security-Policy` header with each response, if `true` or if options are
+     * given. By default, inline scripts are allowed via the request's CSP nonce, see
+     * {@link CspNonce}.
+     */
+    readonly csp?: boolean | CspOptions;
+    /**
+     * If `true` or if options are given, computes ETags from the rendered HTML for all successful
+     * GET responses that do not declare an {@link ETag} themselves. Regardless of this option, GET
+     * requests are answered with a "304 - not modified" status code if the browser's cached copy
+     * matches the response's ETag or {@link LastModified} date, though only for frame requests if
+     * the content security policy uses a nonce. ETags cannot be computed from the HTML when
+     * streaming.
+     */
+    readonly etag?: boolean | ETagOptions;
+};
+
+/**
+ * Creates a request handler for rendering JSX-based routes based on the standard Web Fetch API,
+ * i.e., the handler takes a `Request` and returns a `Response`. It can be used with any runtime or
+ * framework that supports the Web Fetch API, or in tests to call the app without starting an HTTP
+ * server. It returns a "404 - not found" status code for all unknown routes.
+ *
+ * @param element The JSX element that handles all incoming requests. The contained component tree
+ *   should provide:
+ *
+ *   - A top-level {@link ErrorBoundary} that catches all errors during JSX rendering.
+ *   - A {@link Router} component somewhere within the component tree.
+ *   - A component that injects all relevant contexts to access other services, the database, etc.
+ *
+ * @param onFatalError Generates the error HTML that is returned to the browser when a fatal error
+ *   occurs, i.e., when there are errors both during normal JSX rendering and while rendering the
+ *   top-most {@link ErrorBoundary}. This function must return a plain HTML string. If no callback is
+ *   provided, a generic error message not containing any details is shown. When streaming, the
+ *   error HTML is appended to the HTML that has already been sent, if any. See
+ *   {@link createExpressMiddleware} for the Express-based equivalent.
+ * @param options Configures the handler, e.g., to enable streaming.
+ * @returns A function that handles a `Request` and returns a `Response`.
+ */
+export function createFetchHandler(
+    element: JsxElement,
+    onFatalError?: (error: unknown) => string | Promise<string>,
+    options?: FetchHandlerOptions,
+): FetchHandler {
+    ensureValidCspOptions(options?.csp, options?.streaming);
+
+    return async (request) => {
+        const url = new URL(request.url);
+        const headers = new Headers({ "content-type": "text/html; charset=utf-8" });
+        const response: { status: number; redirectUrl?: string; isStreaming: boolean } = {
+            status: 200,
+            isStreaming: false,
+        };
+
+        try {
+            const { requestBody, uploadedFiles } = await getRequestBody(
+                request,
+                options?.multipart,
+            );
+            const cspNonce = createCspNonce();
+            const responseElement = (
+                <HttpResponse
+                    value={{
+                        method: request.method,
+                        requestPath: url.pathname.split("/"),
+                        searchParams: url.search.slice(1),
+                        requestBody,
+                        uploadedFiles,
+                        signing: options?.signing,
+                        keyring: options?.keyring,
+                        csrf: options?.csrf,
+                        session: options?.session,
+                        csp: options?.csp,
+                        cspNonce,
+                        redirect: (url) => {
+                            ensureResponseNotStreamed(response.isStreaming, "redirect");
+                            if (response.redirectUrl !== undefined) {
+                                throw new Error("Cannot redirect more than once.");
+                            }
+                            response.redirectUrl = url;
+                        },
+                        getHeader: (header) => request.headers.get(header) ?? undefined,
+                        setHeader: (header, value) => {
+                            ensureResponseNotStreamed(
+                                response.isStreaming,
+                                `set the HTTP header '${header}'`,
+                            );
+                            headers.set(header, value);
+                        },
+                        appendHeader: (header, value) => {
+                            ensureResponseNotStreamed(
+                                response.isStreaming,
+                                `set the HTTP header '${header}'`,
+                            );
+                            headers.append(header, value);
+                        },
+                        setStatusCode: (code) => {
+                            ensureResponseNotStreamed(
+                                response.isStreaming,
+                                "set the HTTP status code",
+                            );
+                            response.status = code;
+                        },
+                    }}
+                >
+                    {element}
+                </HttpResponse>
+            );
+
+            if (!options?.streaming) {
+                const html = await renderToString(responseElement);
+                if (response.redirectUrl !== undefined) {
+                    return createRedirectResponse(request, response.redirectUrl, headers);
+                }
+
+                if (
+                    options?.etag &&
+                    request.method === "GET" &&
+                    response.status === 200 &&
+                    !headers.has("etag")
+                ) {
+                    headers.set(
+                        "etag",
+                        computeETag(html, cspNonce, options.etag === true ? {} : options.etag),
+                    );
+                }
+
+                return isNotModified(request.method, response.status, request.headers, headers)
+                    ? createNotModifiedResponse(headers)
+                    : new Response(html, { status: response.status, headers });
+            }
+
+            const reader = renderToStream(responseElement, {
+                onFirstFlush: () => (response.isStreaming = true),
+            }).getReader();
+
+            // The status code and the headers are final once we've received the first chunk.
+            const firstChunk = await reader.read();
+            if (response.redirectUrl !== undefined) {
+                await reader.cancel();
+                return createRedirectResponse(request, response.redirectUrl, headers);
+            }
+
+            if (isNotModified(request.method, response.status, request.headers, headers)) {
+                await reader.cancel();
+                return createNotModifiedResponse(headers);
+            }
+
+            const encoder = new TextEncoder();
+            const body = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    if (firstChunk.done) {
+                        controller.close();
+                    } else {
+                        controller.enqueue(encoder.encode(firstChunk.value));
+                    }
+                },
+                async pull(controller) {
+                    try {
+                        const chunk = await reader.read();
+                        if (chunk.done) {
+                            controller.close();
+                        } else {
+                            controller.enqueue(encoder.encode(chunk.value));
+                        }
+                    } catch (e: unknown) {
+                        // The status code has already been sent, so all we can do is to append
+                        // the error HTML.
+                        controller.enqueue(encoder.encode(await renderFatalError(e)));
+                        controller.close();
+                    }
+                },
+                cancel: (reason) => reader.cancel(reason),
+            });
+
+            return new Response(body, { status: response.status, headers });
+        } catch (e: unknown) {
+            return new Response(await renderFatalError(e), {
+                status: toHttpStatusCode(e),
+                headers: { "content-type": "text/html; charset=utf-8" },
+            });
+        }
+    };
+
+    async function renderFatalError(error: unknown) {
+        return onFatalError ? await onFatalError(error) : "An error occurred.";
+    }
+}
+
+/**
+ * Non-GET requests are redirected with a 303 status code, because browsers would otherwise repeat,
+ * e.g., a DELETE request for the redirect target instead of issuing a GET request. Cookies set
+ * before the redirect are retained, e.g., so that users can be redirected after logging in.
+ */
+function createRedirectResponse(request: Request, url: string, headers: Headers) {
+    const redirectHeaders = new Headers({ location: url });
+    for (const cookie of headers.getSetCookie()) {
+        redirectHeaders.append("set-cookie", cookie);
+    }
+
+    return new Response(null, {
+        status: request.method === "GET" ? 302 : 303,
+        headers: redirectHeaders,
+    });
+}
+
+/** Creates an empty response signaling that the browser's cached copy is still up-to-date. */
+function createNotModifiedResponse(headers: Headers) {
+    headers.delete("content-type");
+    return new Response(null, { status: 304, headers });
+}
+
+/**
+ * For form-urlencoded requests of any HTTP method carrying a body, returns the request body. The
+ * string is expected to be URL encoded, but that is not checked here. Multipart requests are
+ * converted into an equivalent URL-encoded request body with references to the uploaded files.
+ */
+async function getRequestBody(
+    request: Request,
+    multipartOptions: MultipartOptions | undefined,
+): Promise<MultipartRequestBody> {
+    const contentType = request.headers.get("content-type");
+    if (contentType?.split(";")[0]?.trim().toLowerCase() === "application/x-www-form-urlencoded") {
+        return { requestBody: await request.text(), uploadedFiles: new Map() };
+    }
+
+    if (isMultipartContentType(contentType)) {
+        return await parseMultipartRequestBody(request, multipartOptions);
+    }
+
+    return { requestBody: "", uploadedFiles: new Map() };
+}
@@ -1,12 +1,21 @@
-import { type HttpMethod, httpMethods } from "@/http/http-context";
-import type {
-    FormComponent,
-    ParamComponent,
-    RouteComponent,
-    RoutesComponent,
-    RoutesDefinition,
+import { type HttpMethod, httpMethods, useSigningOptions } from "@/http/http-context";
+import { HttpError } from "@/http/http-error";
+import {
+    type FormComponent,
+    getRoutingNode,
+    type ParamComponent,
+    resolveProvider,
+    type RouteComponent,
+    type Router,
+    type RoutesComponent,
+    type RoutesDefinition,
+    type RoutingComponent,
+    useRoutes,
+    type WildcardComponent,
 } from "@/routing/router";
-import { toUrlSearchParams } from "@/serialization/url-params";
+import { sign, signatureParam } from "@/routing/signing";
+import { unpack } from "@/serialization/data-packing";
+import { parseUrlSearchParams, toUrlSearchParams } from "@/serialization/url-params";
 
 const hrefSymbol = Symbol();
 
@@ -48,6 +57,12 @@ export type HrefCreator<Routes extends RoutesComponent<any>> = ReturnType<
  * {@link RoutesComponent} and returns an object that can be used to construct {@link Href}s, i.e.,
  * references to the routes contained in the {@link RoutesComponent}, in a fully type-safe way.
  *
+ * If signing is enabled for the current HTTP request, hrefs to signed routes and to routes nested
+ * within signed path parameters are signed. Hrefs created outside of an HTTP request are never
+ * signed. If the route can't be looked up, i.e., outside of a {@link Router} or for lazily-loaded
+ * routes that haven't been loaded yet, all hrefs with path or route parameters are signed, so that
+ * hrefs to signed routes are always valid.
+ *
  * @param routes The set of routes the hrefs should be generated for. This parameter is only used
  *   for type inference. Its value is ignored at runtime to allow for lazy loading of sub-routers
  *   once they are first requested.
@@ -66,26 +81,55 @@ export function getHrefs<
             throw new Error("Invalid href.");
         }
 
-        const hasPathParams = url.includes(":");
+        const hasPathParams = url.includes(":") || url.includes("*");
+        const path = hasPathParams ? replacePathParams(url, params[0]) : url;
         const routeParams = toUrlSearchParams(params[hasPathParams ? 1 : 0]);
 
+        const signing = hasPathParams || routeParams ? useSigningOptions() : undefined;
+        const signedRouteParams =
+            signing && isSigned(httpMethod, url)
+                ? [
+                      routeParams,
+                      toUrlSearchParams({
+                          [signatureParam]: sign(signing, httpMethod, path, routeParams),
+                      }),
+                  ]
+                      .filter((params) => params !== "")
+                      .join("&")
+                : routeParams;
+
         return {
-            url:
-                (hasPathParams ? replacePathParams(url, params[0]) : url) +
-                (routeParams && httpMethod === "GET" ? `?${routeParams}` : ""),
+            url: path + (signedRouteParams && httpMethod === "GET" ? `?${signedRouteParams}` : ""),
             method: httpMethod,
-            body: httpMethod !== "GET" && routeParams ? routeParams : undefined,
+            body: httpMethod !== "GET" && signedRouteParams ? signedRouteParams : undefined,
             [hrefSymbol]: null,
         };
 
         function replacePathParams(url: string, pathParams: Record<string, unknown> | undefined) {
             Object.entries(pathParams ?? {}).forEach(([key, value]) => {
-                const parameter = value ? `/${encodeURIComponent(`${value}`)}` : "";
-                url = url.replaceAll(`/:${key}`, parameter);
+                if (url.includes(`/*${key}`)) {
+                    // Wildcard path parameters are arrays, each element of which is encoded as a
+                    // separate path segment. Without any path segments, the URL would point to the
+                    // `/` routes of the wildcard's routes definition instead.
+                    const segments = Array.isArray(value) ? value : [];
+                    if (segments.length === 0) {
+                        throw new Error(
+                            `Wildcard path parameter '${key}' requires at least one path segment.`,
+                        );
+                    }
+
+                    const parameter = segments
+                        .map((segment) => `/${encodeURIComponent(`${segment}`)}`)
+                        .join("");
+                    url = url.replaceAll(`/*${key}`, parameter);
+                } else {
+                    const parameter = value ? `/${encodeURIComponent(`${value}`)}` : "";
+                    url = url.replaceAll(`/:${key}`, parameter);
+                }
             });
 
-            // There might be leftover optional path parameters that we have to remove
-            url = url.replaceAll(/\/:[^/]*/g, "");
+            // There might be leftover optional or wildcard path parameters that we have to remove
+            url = url.replaceAll(/\/[:*][^/]*/g, "");
 
             // If the URL is now empty, return "/" so that the URL always starts with a leading slash
             return url ? url : "/";
@@ -93,17 +137,261 @@ export function getHrefs<
     };
 }
 
+/**
+ * Checks whether the route with the given `method` and path pattern, e.g., `/invoices/:id/approve`,
+ * or one of the path parameters leading to it is signed. Returns `true` if the route can't be
+ * looked up.
+ */
+function isSigned(method: HttpMethod, url: string): boolean {
+    const routes = useRoutes();
+    const pathSegments = url.split("/").filter((segment) => segment !== "");
+    return !routes || (isSignedRecursive(routes, pathSegments) ?? true);
+
+    function isSignedRecursive(
+        component: RoutingComponent,
+        pathSegments: string[],
+    ): boolean | undefined {
+        // The path pattern is matched the same way `matchHref` matches an actual path, as the
+        // patterns of path parameters never occur in the lookup of a routes definition.
+        const node = getRoutingNode(component);
+        switch (node.kind) {
+            case "routes": {
+                const matchedComponent = node.lookup[method].get(pathSegments[0] ?? "");
+                if (matchedComponent) {
+                    return isSignedRecursive(matchedComponent, pathSegments.slice(1));
+                } else if (node.fallback) {
+                    return isSignedRecursive(node.fallback.component, pathSegments);
+                } else {
+                    return undefined;
+                }
+            }
+            case "route":
+                return node.signed;
+            case "param":
+                return node.signed || isSignedRecursive(node.nestedRoutes, pathSegments.slice(1));
+            case "wildcard":
+                return node.signed || isSignedRecursive(node.nestedRoutes, []);
+            case "lazy": {
+                const loadedComponent = node.getLoaded();
+                return loadedComponent && isSignedRecursive(loadedComponent, pathSegments);
+            }
+            case "guard":
+                return isSignedRecursive(node.component, pathSegments);
+            default: {
+                // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                const switchGuard: never = node;
+                throw new Error("Unknown routing node.");
+            }
+        }
+    }
+}
+
+/**
+ * The result of a successful {@link matchHref} invocation for a route of the given `Method`, i.e.,
+ * the matched route's key as it is passed to the function returned by {@link getHrefs} as well as
+ * the route's parsed path and route parameters.
+ */
+export type HrefMatch<
+    Routes extends RoutesComponent<any>,
+    Method extends HttpMethod = HttpMethod,
+    Hrefs extends Record<string, any> = GetHrefs<Routes>,
+> = {
+    [Ref in keyof Hrefs & string]: Hrefs[Ref]["method"] extends Method
+        ? {
+              readonly route: Ref;
+              readonly pathParams: Hrefs[Ref]["pathParamsOut"];
+              readonly routeParams: Hrefs[Ref]["routeParamsOut"];
+          }
+        : never;
+}[keyof Hrefs & string];
+
+/**
+ * The inverse of {@link getHrefs}: Parses the given URL, matching it against the given set of routes
+ * the same way an incoming HTTP request would be routed. Returns `undefined` if there is no
+ * matching route, if the path or route parameters are invalid according to the routes' Zod schemas,
+ * or if the URL is not a relative one, i.e., a URL that points to some other origin. This makes the
+ * function suitable, for instance, to check `returnTo` URLs before redirecting to them.
+ *
+ * Guards are not executed, as they might depend on the current HTTP request, but lazily-loaded
+ * routes are loaded if necessary.
+ *
+ * @param routes The set of routes the URL should be matched against, typically the application's
+ *   root routes.
+ * @param method The HTTP method of the route that should be matched.
+ * @param url The URL, including the search params, that should be matched.
+ * @param body The URL-encoded body of a non-GET request. Non-GET routes parse their route params
+ *   from the body instead of from the URL's search params, just like they do during routing.
+ */
+export async function matchHref<Routes extends RoutesComponent<any>, Method extends HttpMethod>(
+    routes: Routes,
+    method: Method,
+    url: string,
+    body?: string,
+): Promise<HrefMatch<Routes, Method> | undefined> {
+    // SECURITY: Absolute and protocol-relative URLs never match, see also the `Redirect` component.
+    // The origin is checked after parsing as well, as browsers treat, e.g., `/\\` like `//`.
+    const origin = "https://example.com";
+    if (URL.canParse(url) || url.startsWith("//") || !URL.canParse(url, origin)) {
+        return undefined;
+    }
+
+    const parsedUrl = new URL(url, origin);
+    if (parsedUrl.origin !== origin) {
+        return undefined;
+    }
+
+    try {
+        return (await matchRecursive(
+            routes,
+            parsedUrl.pathname.split("/").filter((segment) => segment !== ""),
+            "",
+            {},
+            "",
+        )) as HrefMatch<Routes, Method> | undefined;
+    } catch (e: unknown) {
+        // Invalid path or route params as well as malformed URL-encoded path segments simply
+        // result in a mismatch.
+        if (e instanceof HttpError || e instanceof URIError) {
+            return undefined;
+        }
+
+        throw e;
+    }
+
+    async function matchRecursive(
+        component: RoutingComponent,
+        pathSegments: string[],
+        path: string,
+        pathParams: Record<string, unknown>,
+        paramName: string,
+    ): Promise<
+        { route: string; pathParams: Record<string, unknown>; routeParams: unknown } | undefined
+    > {
+        const node = getRoutingNode(component);
+        switch (node.kind) {
+            case "routes": {
+                // Just like the router, we do not backtrack once a path segment was matched.
+                const pathSegment = pathSegments[0] ?? "";
+                const matchedComponent = node.lookup[method].get(pathSegment);
+
+                if (matchedComponent) {
+                    return await matchRecursive(
+                        matchedComponent,
+                        pathSegments.slice(1),
+                        combinePaths(path, pathSegment),
+                        pathParams,
+                        "",
+                    );
+                } else if (node.fallback) {
+                    return await matchRecursive(
+                        node.fallback.component,
+                        pathSegments,
+                        path,
+                        pathParams,
+                        node.fallback.name,
+                    );
+                } else {
+                    return undefined;
+                }
+            }
+            case "route": {
+                if (pathSegments.length !== 0) {
+                    return undefined;
+                }
+
+                const schema = await resolveProvider(node.schemaProvider);
+                return {
+                    route: `${method} ${path || "/"}`,
+                    pathParams,
+                    routeParams: parseUrlSearchParams(
+                        schema,
+                        method === "GET" ? parsedUrl.search : body,
+                    ),
+                };
+            }
+            case "param": {
+                const schema = await resolveProvider(node.schemaProvider);
+                const param = unpack(
+                    schema,
+                    pathSegments[0] ? decodeURIComponent(pathSegments[0]) : undefined,
+                );
+
+                return await matchRecursive(
+                    node.nestedRoutes,
+                    pathSegments.slice(1),
+                    combinePaths(path, `:${paramName}`),
+                    { ...pathParams, [paramName]: param },
+                    "",
+                );
+            }
+            case "wildcard": {
+                if (pathSegments.length === 0) {
+                    return undefined;
+                }
+
+                const schema = await resolveProvider(node.schemaProvider);
+                const param = unpack(
+                    schema,
+                    pathSegments.map((segment) => decodeURIComponent(segment)),
+                );
+
+                return await matchRecursive(
+                    node.nestedRoutes,
+                    [],
+                    combinePaths(path, `*${paramName}`),
+                    { ...pathParams, [paramName]: param },
+                    "",
+                );
+            }
+            case "lazy":
+                return await matchRecursive(
+                    await node.load(),
+                    pathSegments,
+                    path,
+                    pathParams,
+                    paramName,
+                );
+            case "guard":
+                return await matchRecursive(
+                    node.component,
+                    pathSegments,
+                    path,
+                    pathParams,
+                    paramName,
+                );
+            default: {
+                // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                const switchGuard: never = node;
+                throw new Error("Unknown routing node.");
+            }
+        }
+    }
+}
+
+/**
+ * Combines the given path with the given sub path the same way the type-level `CombinePaths` does,
+ * i.e., the way the route keys accepted by {@link getHrefs} are constructed.
+ */
+export function combinePaths(path: string, subPath: string) {
+    return path === "" || path === "/"
+        ? `/${subPath}`
+        : subPath === ""
+          ? path
+          : `${path}/${subPath}`;
+}
+
 type GetHrefs<Routes extends RoutesComponent<any>> = ToHrefLookup<
-    CollectRoutesFromRouter<Routes, "", {}>
+    CollectRoutesFromRouter<Routes, "", {}, {}>
 >;
 
 type CollectRoutesFromRouter<
     Routes extends RoutesComponent<any>,
     Path extends string,
     PathParams extends Record<string, any>,
+    PathParamsOut extends Record<string, any>,
 > =
     Routes extends RoutesComponent<infer Def>
-        ? CollectRoutesFromRouterDefinition<Def, keyof Def, Path, PathParams>
+        ? CollectRoutesFromRouterDefinition<Def, keyof Def, Path, PathParams, PathParamsOut>
         : never;
 
 type CollectRoutesFromRouterDefinition<
@@ -111,33 +399,80 @@ type CollectRoutesFromRouterDefinition<
     Key extends keyof Routes,
     Path extends string,
     PathParams extends Record<string, any>,
+    PathParamsOut extends Record<string, any>,
 > = Key extends `${infer Method extends HttpMethod} /${infer SubPath}`
-    ? Routes[Key] extends RouteComponent<infer Params, infer Form>
-        ? [Method, `${Method} ${CombinePaths<Path, SubPath>}`, PathParams, Params, FormValues<Form>]
+    ? Routes[Key] extends RouteComponent<infer Params, infer Form, infer ParamsOut>
+        ? [
+              Method,
+              `${Method} ${CombinePaths<Path, SubPath>}`,
+              PathParams,
+              Params,
+              FormValues<Form>,
+              PathParamsOut,
+              ParamsOut,
+          ]
         : Routes[Key] extends FormComponent<infer Form>
-          ? [Method, `${Method} ${CombinePaths<Path, SubPath>}`, PathParams, {}, FormValues<Form>]
-          : [Method, `${Method} ${CombinePaths<Path, SubPath>}`, PathParams, {}, FormValues<{}>]
-    : Key extends `/:${infer ParamPath}?`
-      ? Routes[Key] extends ParamComponent<infer Param, infer Sub>
+          ? [
+                Method,
+                `${Method} ${CombinePaths<Path, SubPath>}`,
+                PathParams,
+                {},
+                FormValues<Form>,
+                PathParamsOut,
+                {},
+            ]
+          : [
+                Method,
+                `${Method} ${CombinePaths<Path, SubPath>}`,
+                PathParams,
+                {},
+                FormValues<{}>,
+                PathParamsOut,
+                {},
+            ]
+    : Key extends `/*${infer ParamPath}`
+      ? Routes[Key] extends WildcardComponent<infer Param, infer Sub, infer ParamOut>
           ? CollectRoutesFromRouter<
                 Sub,
-                CombinePaths<Path, `:${ParamPath}`>,
-                Required<PathParams> & { [K in ParamPath]?: Param }
+                CombinePaths<Path, `*${ParamPath}`>,
+                PathParams & {
+                    [K in ParamPath]: Param;
+                },
+                PathParamsOut & {
+                    [K in ParamPath]: ParamOut;
+                }
             >
           : never
-      : Key extends `/:${infer ParamPath}`
-        ? Routes[Key] extends ParamComponent<infer Param, infer Sub>
+      : Key extends `/:${infer ParamPath}?`
+        ? Routes[Key] extends ParamComponent<infer Param, infer Sub, infer ParamOut>
             ? CollectRoutesFromRouter<
                   Sub,
                   CombinePaths<Path, `:${ParamPath}`>,
-                  PathParams & {
-                      [K in ParamPath]: Param;
-                  }
+                  Required<PathParams> & { [K in ParamPath]?: Param },
+                  PathParamsOut & { [K in ParamPath]: ParamOut }
               >
             : never
-        : Key extends `/${infer SubPath}`
-          ? CollectRoutesFromRouter<Routes[Key], CombinePaths<Path, SubPath>, PathParams>
-          : never;
+        : Key extends `/:${infer ParamPath}`
+          ? Routes[Key] extends ParamComponent<infer Param, infer Sub, infer ParamOut>
+              ? CollectRoutesFromRouter<
+                    Sub,
+                    CombinePaths<Path, `:${ParamPath}`>,
+                    PathParams & {
+                        [K in ParamPath]: Param;
+                    },
+                    PathParamsOut & {
+                        [K in ParamPath]: ParamOut;
+                    }
+                >
+              : never
+          : Key extends `/${infer SubPath}`
+            ? CollectRoutesFromRouter<
+                  Routes[Key],
+                  CombinePaths<Path, SubPath>,
+                  PathParams,
+                  PathParamsOut
+              >
+            : never;
 
 type CombinePaths<Path extends string, SubPath extends string> = Path extends `${"" | "/"}`
     ? SubPath extends ""
@@ -154,6 +489,8 @@ type ToHrefLookup<
         pathParams: Record<string, any>,
         routeParams: Record<string, any>,
         formState: Record<string, any>,
+        pathParamsOut: Record<string, any>,
+        routeParamsOut: Record<string, any>,
     ],
 > = {
     [T in RouteInfo as T[1]]: {
@@ -166,5 +503,7 @@ type ToHrefLookup<
               : [pathParams: T[2], routeParams: T[3]];
         method: T[0];
         formState: T[4];
+        pathParamsOut: T[5];
+        routeParamsOut: T[6];
     };
 };
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import type { PropsWithChildren } from "@/jsx/jsx-types";
+import { formatRouteTable, getRouteTable } from "@/routing/route-table";
+import { guard, lazy, param, route, routes, wildcard } from "@/routing/router";
+
+describe("route-table", () => {
+    const Guard = ({ children }: PropsWithChildren) => <>{children}</>;
+    const searchParams = z.object({ q: z.string() });
+
+    // The lazy routes are loaded at most once, so each test creates its own routes.
+    const createRoutes = () =>
+        routes({
+            "GET /": () => <></>,
+            "GET /search": route(searchParams, () => <></>),
+            "POST /search": route(z.object({}), () => <></>),
+            "/users": routes({
+                "GET /": () => <></>,
+                "/:id?": param(z.number().optional(), () =>
+                    routes({
+                        "GET /": () => <></>,
+                        "PUT /": () => <></>,
+                        "/files": routes({
+                            "/*path": wildcard(z.array(z.string()), () =>
+                                routes({ "DELETE /": () => <></> }),
+                            ),
+                        }),
+                    }),
+                ),
+            }),
+            "/admin": guard(Guard, routes({ "GET /dashboard": () => <></> })),
+            "/lazy": lazy(() =>
+                Promise.resolve({
+                    default: routes({ "GET /a": () => <></>, "PATCH /b": () => <></> }),
+                }),
+            ),
+        });
+
+    it("lists all routes sorted by path and HTTP method", async () => {
+        const entries = await getRouteTable(createRoutes());
+
+        expect(
+            entries.map((entry) => [
+                entry.kind === "route" ? entry.route : `lazy ${entry.path}`,
+                entry.pathParams,
+                entry.isLazy,
+                entry.isGuarded,
+            ]),
+        ).toStrictEqual([
+            ["GET /", [], false, false],
+            ["GET /admin/dashboard", [], false, true],
+            ["lazy /lazy", [], true, false],
+            ["GET /search", [], false, false],
+            ["POST /search", [], false, false],
+            ["GET /users", [], false, false],
+            ["GET /users/:id", ["id"], false, false],
+            ["PUT /users/:id", ["id"], false, false],
+            ["DELETE /users/:id/files/*path", ["id", "path"], false, false],
+        ]);
+
+        const searchEntry = entries.find(
+            (entry) => entry.kind === "route" && entry.route === "GET /search",
+        );
+        expect(searchEntry?.kind === "route" && searchEntry.schema).toBe(searchParams);
+    });
+
+    it("optionally loads lazy routes", async () => {
+        const entries = await getRouteTable(createRoutes(), { loadLazyRoutes: true });
+
+        expect(
+            entries
+                .filter((entry) => entry.isLazy)
+                .map((entry) => [entry.kind, entry.kind === "route" && entry.route]),
+        ).toStrictEqual([
+            ["route", "GET /lazy/a"],
+            ["route", "PATCH /lazy/b"],
+        ]);
+    });
+
+    it("lists the routes of lazy routes loaded previously", async () => {
+        const rs = createRoutes();
+        await getRouteTable(rs, { loadLazyRoutes: true });
+
+        expect(
+            (await getRouteTable(rs))
+                .filter((entry) => entry.isLazy)
+                .map((entry) => [entry.kind, entry.kind === "route" && entry.route]),
+        ).toStrictEqual([
+            ["route", "GET /lazy/a"],
+            ["route", "PATCH /lazy/b"],
+        ]);
+    });
+
+    it("formats the route table", async () => {
+        expect(formatRouteTable(await getRouteTable(createRoutes()))).toBe(
+            [
+                "GET     /",
+                "GET     /admin/dashboard        guarded",
+                "*       /lazy                   lazy (not loaded)",
+                "GET     /search",
+                "POST    /search",
+                "GET     /users",
+                "GET     /users/:id",
+                "PUT     /users/:id",
+                "DELETE  /users/:id/files/*path",
+            ].join("\n"),
+        );
+    });
+});
@@ -0,0 +1,226 @@
+import type { ZodType } from "zod";
+import { type HttpMethod, httpMethods } from "@/http/http-context";
+import { combinePaths, type getHrefs } from "@/routing/href";
+import {
+    getRoutingNode,
+    type lazy,
+    resolveProvider,
+    type RoutesComponent,
+    type RoutingComponent,
+} from "@/routing/router";
+
+/** Describes a single entry of an application's route table. */
+export type RouteTableEntry =
+    | {
+          readonly kind: "route";
+          /** The route's key as it is passed to the function returned by {@link getHrefs}. */
+          readonly route: string;
+          readonly method: HttpMethod;
+          /** The route's full path pattern, e.g., `/users/:id/files/*path`. */
+          readonly path: string;
+          /** The names of all path parameters and wildcard path parameters of the route. */
+          readonly pathParams: readonly string[];
+          /** Indicates whether the route is part of a lazily-loaded set of routes. */
+          readonly isLazy: boolean;
+          /** Indicates whether the route is protected by at least one guard. */
+          readonly isGuarded: boolean;
+          /** The schema of the route's search or body params, depending on the HTTP method. */
+          readonly schema: ZodType;
+      }
+    | {
+          /** A lazily-loaded set of routes that has not been loaded yet. */
+          readonly kind: "lazy";
+          /** The path pattern the lazily-loaded routes are mounted at. */
+          readonly path: string;
+          readonly pathParams: readonly string[];
+          readonly isLazy: true;
+          readonly isGuarded: boolean;
+      };
+
+export type RouteTableOptions = {
+    /**
+     * If `true`, lazily-loaded routes are loaded so that their routes can be listed as well.
+     * Otherwise, lazily-loaded sets of routes that haven't been loaded yet are listed as a single
+     * entry of kind `"lazy"`, whereas the routes of already loaded ones are listed individually.
+     */
+    readonly loadLazyRoutes?: boolean;
+};
+
+/**
+ * Lists all routes contained in the given set of routes, e.g., to print a route table at server
+ * start, to generate a sitemap, or to assert in tests that no route was removed accidentally. The
+ * routes are sorted by path and HTTP method.
+ *
+ * @param routes The set of routes that should be listed, typically the application's root routes.
+ * @param options Controls whether sets of routes loaded via {@link lazy} are loaded for the listing.
+ */
+export async function getRouteTable(
+    routes: RoutesComponent<any>,
+    options?: RouteTableOptions,
+): Promise<RouteTableEntry[]> {
+    const entries: RouteTableEntry[] = [];
+    await collectRoutes(routes, httpMethods, "", [], "", false, false);
+    return entries.sort(
+        (a, b) =>
+            a.path.localeCompare(b.path) ||
+            getMethodIndex(a) - getMethodIndex(b) ||
+            a.kind.localeCompare(b.kind),
+    );
+
+    async function collectRoutes(
+        component: RoutingComponent,
+        methods: readonly HttpMethod[],
+        path: string,
+        pathParams: readonly string[],
+        paramName: string,
+        isLazy: boolean,
+        isGuarded: boolean,
+    ): Promise<void> {
+        const node = getRoutingNode(component);
+        switch (node.kind) {
+            case "routes": {
+                // Route forwardings are registered for all HTTP methods, so we group the lookup by
+                // component to visit each nested set of routes only once.
+                const components = new Map<
+                    RoutingComponent,
+                    { pathSegment: string; methods: HttpMethod[] }
+                >();
+
+                for (const method of methods) {
+                    for (const [pathSegment, component] of node.lookup[method]) {
+                        const entry = components.get(component) ?? { pathSegment, methods: [] };
+                        entry.methods.push(method);
+                        components.set(component, entry);
+                    }
+                }
+
+                for (const [component, { pathSegment, methods }] of components) {
+                    await collectRoutes(
+                        component,
+                        methods,
+                        combinePaths(path, pathSegment),
+                        pathParams,
+                        "",
+                        isLazy,
+                        isGuarded,
+                    );
+                }
+
+                if (node.fallback) {
+                    await collectRoutes(
+                        node.fallback.component,
+                        methods,
+                        path,
+                        pathParams,
+                        node.fallback.name,
+                        isLazy,
+                        isGuarded,
+                    );
+                }
+
+                break;
+            }
+            case "route": {
+                const schema = await resolveProvider(node.schemaProvider);
+                const routePath = path || "/";
+
+                for (const method of methods) {
+                    entries.push({
+                        kind: "route",
+                        route: `${method} ${routePath}`,
+                        method,
+                        path: routePath,
+                        pathParams,
+                        isLazy,
+                        isGuarded,
+                        schema,
+                    });
+                }
+
+                break;
+            }
+            case "param":
+            case "wildcard":
+                await collectRoutes(
+                    node.nestedRoutes,
+                    methods,
+                    combinePaths(path, `${node.kind === "param" ? ":" : "*"}${paramName}`),
+                    [...pathParams, paramName],
+                    "",
+                    isLazy,
+                    isGuarded,
+                );
+                break;
+            case "lazy": {
+                // Routes that have already been loaded are always listed, as they're being served.
+                const loadedComponent = node.getLoaded();
+                if (loadedComponent || options?.loadLazyRoutes) {
+                    await collectRoutes(
+                        loadedComponent ?? (await node.load()),
+                        methods,
+                        path,
+                        pathParams,
+                        paramName,
+                        true,
+                        isGuarded,
+                    );
+                } else {
+                    entries.push({
+                        kind: "lazy",
+                        path: path || "/",
+                        pathParams,
+                        isLazy: true,
+                        isGuarded,
+                    });
+                }
+                break;
+            }
+            case "guard":
+                await collectRoutes(
+                    node.component,
+                    methods,
+                    path,
+                    pathParams,
+                    paramName,
+                    isLazy,
+                    true,
+                );
+                break;
+            default: {
+                // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                const switchGuard: never = node;
+                throw new Error("Unknown routing node.");
+            }
+        }
+    }
+}
+
+/**
+ * Formats the given route table entries as a human-readable table, e.g., to print all of the
+ * application's routes at server start.
+ */
+export function formatRouteTable(entries: readonly RouteTableEntry[]): string {
+    const rows = entries.map((entry) => [
+        entry.kind === "route" ? entry.method : "*",
+        entry.path,
+        [
+            entry.kind === "lazy" ? "lazy (not loaded)" : entry.isLazy ? "lazy" : "",
+            entry.isGuarded ? "guarded" : "",
+        ]
+            .filter((flag) => !!flag)
+            .join(", "),
+    ]);
+
+    const methodWidth = Math.max(0, ...rows.map(([method]) => method!.length));
+    const pathWidth = Math.max(0, ...rows.map(([, path]) => path!.length));
+
+    return rows
+        .map(([method, path, flags]) =>
+            `${method!.padEnd(methodWidth)}  ${path!.padEnd(pathWidth)}  ${flags}`.trimEnd(),
+        )
+        .join("\n");
+}
+
+function getMethodIndex(entry: RouteTableEntry) {
+    return entry.kind === "route" ? httpMethods.indexOf(entry.method) : httpMethods.length;
+}
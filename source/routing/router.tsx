@@ -1,8 +1,18 @@
 import { z, type ZodType } from "zod";
-import { type HttpMethod, httpMethods, useHttpContext, useRequester } from "@/http/http-context";
+import { Cache, type CacheProps } from "@/dom/cache";
+import { ensureValidCsrfToken } from "@/http/csrf";
+import {
+    type HttpMethod,
+    httpMethods,
+    useHttpContext,
+    useRequestedFrameId,
+    useRequester,
+} from "@/http/http-context";
 import { HttpError } from "@/http/http-error";
-import { createContext, useContext } from "@/jsx/context";
-import type { JsxComponent, JsxElement } from "@/jsx/jsx-types";
+import { createContext, useContext, useContextOrDefault } from "@/jsx/context";
+import type { JsxComponent, JsxElement, PropsWithChildren } from "@/jsx/jsx-types";
+import type { getHrefs } from "@/routing/href";
+import { ensureValidSignature } from "@/routing/signing";
 import { unpack } from "@/serialization/data-packing";
 import { parseUrlSearchParams } from "@/serialization/url-params";
 
@@ -17,28 +27,35 @@ export type RoutesDefinition<T extends Record<string, unknown>> = {
                 : Param extends `${string}?`
                   ? Param extends `${string}?${string}?${string}`
                       ? "ERROR: Path parameters can only contain a question mark at the end."
-                      : T[Key] extends ParamComponent<undefined, any>
+                      : T[Key] extends ParamComponent<undefined, any, any>
                         ? T[Key]
                         : "ERROR: Schema for optional path parameter must handle `undefined` values."
                   : ParamComponent<any, any>
-            : Key extends `/${infer Path}`
-              ? Path extends `${string}:${string}`
-                  ? "ERROR: Colons are not allowed in a path segment."
-                  : Path extends `${string}?${string}`
-                    ? "ERROR: Question marks are not allowed in a path segment."
-                    : RoutesComponent<any>
-              : Key extends `${HttpMethod} /${infer Path}`
+            : Key extends `/*${infer Param}`
+              ? Param extends `${string}${":" | "*" | "?"}${string}`
+                  ? "ERROR: Wildcard path parameters cannot contain colons, asterisks, or question marks."
+                  : WildcardComponent<any, any>
+              : Key extends `/${infer Path}`
                 ? Path extends `${string}:${string}`
                     ? "ERROR: Colons are not allowed in a path segment."
                     : Path extends `${string}?${string}`
                       ? "ERROR: Question marks are not allowed in a path segment."
-                      : JsxComponent | FormComponent<any> | RouteComponent<any, any>
-                : "ERROR: Properties must start with '{HttpMethod} /' or just '/'.";
+                      : RoutesComponent<any>
+                : Key extends `${HttpMethod} /${infer Path}`
+                  ? Path extends `${string}:${string}`
+                      ? "ERROR: Colons are not allowed in a path segment."
+                      : Path extends `${string}?${string}`
+                        ? "ERROR: Question marks are not allowed in a path segment."
+                        : Path extends `*${string}`
+                          ? "ERROR: Wildcard path parameters cannot be used in route definitions."
+                          : JsxComponent | FormComponent<any> | RouteComponent<any, any>
+                  : "ERROR: Properties must start with '{HttpMethod} /' or just '/'.";
 };
 
 const routesSymbol = Symbol();
 const routeSymbol = Symbol();
 const paramSymbol = Symbol();
+const wildcardSymbol = Symbol();
 const formSymbol = Symbol();
 
 export type RoutingComponent = JsxComponent<{
@@ -53,16 +70,30 @@ export type RoutesComponent<Def extends RoutesDefinition<Def>> = RoutingComponen
 export type RouteComponent<
     Params extends Record<string, unknown>,
     FormState extends Record<string, unknown>,
+    ParamsOut extends Record<string, unknown> = Params,
 > = RoutingComponent & {
-    readonly [routeSymbol]: [Params, FormState] | undefined;
+    readonly [routeSymbol]: [Params, FormState, ParamsOut] | undefined;
     readonly kind: typeof routeSymbol;
 };
 
-export type ParamComponent<PathParam, Routes extends RoutesComponent<any>> = RoutingComponent & {
-    readonly [paramSymbol]: [(param: PathParam) => void, Routes] | undefined;
+export type ParamComponent<
+    PathParam,
+    Routes extends RoutesComponent<any>,
+    PathParamOut = PathParam,
+> = RoutingComponent & {
+    readonly [paramSymbol]: [(param: PathParam) => void, Routes, PathParamOut] | undefined;
     readonly kind: typeof paramSymbol;
 };
 
+export type WildcardComponent<
+    PathParam,
+    Routes extends RoutesComponent<any>,
+    PathParamOut = PathParam,
+> = RoutingComponent & {
+    readonly [wildcardSymbol]: [(param: PathParam) => void, Routes, PathParamOut] | undefined;
+    readonly kind: typeof wildcardSymbol;
+};
+
 export type FormElement<FormValues extends Record<string, unknown>> = JsxElement & {
     // Always `undefined` at runtime and only used at the type-level to infer the type of
     // the form values of an `Href`.
@@ -74,18 +105,112 @@ export type FormComponent<FormValues extends Record<string, unknown>> =
 
 export type Provide<T> = T | (() => T | Promise<T>);
 
+export type RouteOptions = {
+    /**
+     * If `true`, the route only accepts requests with route parameters signed by {@link getHrefs},
+     * so that the parameters can't be tampered with, e.g., for confirmation links. Requests with
+     * missing, invalid, or expired signatures are rejected with status code 400 (bad request)
+     * before the route's handler is rendered. Requires a signing secret to be configured.
+     */
+    readonly signed?: boolean;
+    /**
+     * Caches the HTML rendered for GET requests, see the {@link Cache} component. The HTML is cached
+     * separately for each request path, search params, requested frame, and requester.
+     */
+    readonly cache?: RouteCacheOptions;
+};
+
+export type RouteCacheOptions = {
+    /** The number of seconds the route's HTML is cached. */
+    readonly ttl: number;
+    /**
+     * Returns additional values the route's HTML depends on, see {@link CacheProps}. The function is
+     * invoked when the route is rendered, so it can access hooks such as `useSession`.
+     */
+    readonly vary?: () => readonly unknown[];
+};
+
+export type ParamOptions = {
+    /**
+     * If `true`, the path parameter only accepts requests signed by {@link getHrefs}, i.e., the
+     * entire path and the route parameters of the request can't be tampered with. Requests with
+     * missing, invalid, or expired signatures are rejected with status code 400 (bad request)
+     * before the nested routes are matched. Requires a signing secret to be configured.
+     */
+    readonly signed?: boolean;
+};
+
+/**
+ * Describes the structure of a routing component, allowing the routing structure to be traversed
+ * without rendering it, e.g., for reverse routing. This is a HyTTS-internal type.
+ */
+export type RoutingNode =
+    | {
+          readonly kind: "routes";
+          /** The routing components for a combination of HTTP method and path segment. */
+          readonly lookup: Readonly<Record<HttpMethod, ReadonlyMap<string, RoutingComponent>>>;
+          /**
+           * The `/` route, the path parameter, or the wildcard path parameter of the routes
+           * definition, if any. The name is the empty string for the `/` route.
+           */
+          readonly fallback:
+              | { readonly name: string; readonly component: RoutingComponent }
+              | undefined;
+      }
+    | {
+          readonly kind: "route";
+          readonly schemaProvider: Provide<ZodType>;
+          readonly signed: boolean;
+      }
+    | {
+          readonly kind: "param" | "wildcard";
+          readonly schemaProvider: Provide<ZodType>;
+          readonly nestedRoutes: RoutingComponent;
+          readonly signed: boolean;
+      }
+    | {
+          readonly kind: "lazy";
+          readonly load: () => Promise<RoutingComponent>;
+          /** Returns the lazily-loaded routing component if it has already been loaded. */
+          readonly getLoaded: () => RoutingComponent | undefined;
+      }
+    | { readonly kind: "guard"; readonly component: RoutingComponent };
+
 type TypeMap = {
     [routesSymbol]: RoutesComponent<any>;
     [routeSymbol]: RouteComponent<any, any>;
     [paramSymbol]: ParamComponent<any, any>;
+    [wildcardSymbol]: WildcardComponent<any, any>;
 };
 
-function tag<T extends keyof TypeMap>(symbol: T, component: RoutingComponent): TypeMap[T] {
+const routingNodeSymbol = Symbol();
+
+function tag<T extends keyof TypeMap>(
+    symbol: T,
+    node: RoutingNode,
+    component: RoutingComponent,
+): TypeMap[T] {
     (component as any)[symbol] = undefined;
+    (component as any)[routingNodeSymbol] = node;
     (component as any).kind = symbol;
     return component as TypeMap[T];
 }
 
+/** Resolves the value provided by the given `provider`. */
+export async function resolveProvider<T>(provider: Provide<T>): Promise<T> {
+    return typeof provider === "function" ? await (provider as () => T | Promise<T>)() : provider;
+}
+
+/** Returns the structural description of the given routing component. */
+export function getRoutingNode(component: RoutingComponent): RoutingNode {
+    const node = (component as any)[routingNodeSymbol] as RoutingNode | undefined;
+    if (!node) {
+        throw new Error("Invalid routing component.");
+    }
+
+    return node;
+}
+
 function is<T extends keyof TypeMap>(symbol: T, value: unknown): value is TypeMap[T] {
     return !!value && typeof value === "function" && symbol in value;
 }
@@ -96,6 +221,7 @@ function is<T extends keyof TypeMap>(symbol: T, value: unknown): value is TypeMa
  * @param schemaProvider The schema for the route's search or body parameter, depending on the
  *   route's HTTP method.
  * @param Handler The JSX component that renders the route's HTML output.
+ * @param options Configures the route, e.g., to only accept signed route parameters.
  */
 export function route<
     ParamsIn extends Record<string, unknown> = {},
@@ -104,9 +230,12 @@ export function route<
 >(
     schemaProvider: Provide<ZodType<ParamsOut, any, ParamsIn>>,
     Handler: JsxComponent<ParamsOut> | FormComponent<FormValues>,
-): RouteComponent<ParamsIn, FormValues> {
-    return tag(routeSymbol, async ({ pathSegments }) => {
-        const { method, searchParams, requestBody } = useHttpContext();
+    options?: RouteOptions,
+): RouteComponent<ParamsIn, FormValues, ParamsOut> {
+    const node: RoutingNode = { kind: "route", schemaProvider, signed: !!options?.signed };
+
+    return tag(routeSymbol, node, async ({ pathSegments }) => {
+        const { method, requestPath, searchParams, requestBody, csrfToken } = useHttpContext();
         if (pathSegments.length !== 0) {
             throw new HttpError(
                 "NotFound",
@@ -114,20 +243,39 @@ export function route<
             );
         }
 
-        if (method !== "GET" && useRequester() !== "HyTTS") {
+        // Without CSRF protection, non-GET routes are protected by the custom `x-hy` header that
+        // HyTTS sends with all requests. Otherwise, the router has already checked the CSRF token,
+        // so that forms submitted natively by the browser are supported as well.
+        if (method !== "GET" && csrfToken === undefined && useRequester() !== "HyTTS") {
             throw new HttpError(
                 "BadRequest",
                 "Non-GET requests originating from the browser are unsupported.",
             );
         }
 
+        if (options?.signed) {
+            ensureValidSignature();
+        }
+
         const schema =
             typeof schemaProvider === "function" ? await schemaProvider() : schemaProvider;
 
         const paramsSource = method === "GET" ? searchParams : requestBody;
         const params = parseUrlSearchParams(schema, paramsSource);
 
-        return <Handler {...params} />;
+        if (method !== "GET" || !options?.cache) {
+            return <Handler {...params} />;
+        }
+
+        return (
+            <Cache
+                cacheKey={`GET /${requestPath.join("/")}?${searchParams}`}
+                ttl={options.cache.ttl}
+                vary={[useRequester(), useRequestedFrameId(), ...(options.cache.vary?.() ?? [])]}
+            >
+                <Handler {...params} />
+            </Cache>
+        );
     });
 }
 
@@ -144,9 +292,10 @@ export function route<
  * TypeScript compiler, others might throw at runtime when the route definition is first loaded
  * (typically at server start, but potentially also later on due to lazy loading). In particular:
  *
- * - There can be only a single dynamic path parameter in a routes set.
+ * - There can be only a single dynamic path parameter or wildcard path parameter in a routes set.
  * - Route forwarding (e.g., `/abc`) and route definitions (e.g., `GET /abc`) cannot overlap.
- * - Route forwardings on `/` are only allowed if there is no path parameter.
+ * - Route forwardings on `/` are only allowed if there is neither a path parameter nor a wildcard
+ *   path parameter.
  *
  * However, it _is_ OK to have both "GET /abc" and "POST /abc", because these can be disambiguated
  * based on the HTTP method.
@@ -161,11 +310,16 @@ export function routes<Def extends RoutesDefinition<Def>>(def: Def): RoutesCompo
         Map<string, RouteComponent<any, any> | RoutesComponent<any>>
     >;
 
-    // Represents the `/` route that forwards to a subrouter or the `/:param` route of
+    // Represents the `/` route that forwards to a subrouter, or the `/:param` or `/*param` route of
     // this router, of which there can be at most one, as the routing would otherwise be
     // ambiguous, since we can't know whether we should capture the parameter or forward
     // to the subrouter.
-    let fallbackComponent: RoutesComponent<any> | ParamComponent<any, any> | undefined = undefined;
+    let fallbackComponent:
+        | RoutesComponent<any>
+        | ParamComponent<any, any>
+        | WildcardComponent<any, any>
+        | undefined = undefined;
+    let fallbackName = "";
 
     function ensureIsValidPathSegment(pathSegment: string) {
         if (
@@ -181,7 +335,7 @@ export function routes<Def extends RoutesDefinition<Def>>(def: Def): RoutesCompo
     }
 
     function setFallbackComponent(
-        component: RoutesComponent<any> | ParamComponent<any, any>,
+        component: RoutesComponent<any> | ParamComponent<any, any> | WildcardComponent<any, any>,
         pathSegment: string,
     ) {
         ensureIsValidPathSegment(pathSegment);
@@ -191,6 +345,7 @@ export function routes<Def extends RoutesDefinition<Def>>(def: Def): RoutesCompo
         }
 
         fallbackComponent = component;
+        fallbackName = pathSegment;
     }
 
     function addToLookup(
@@ -204,6 +359,12 @@ export function routes<Def extends RoutesDefinition<Def>>(def: Def): RoutesCompo
 
         ensureIsValidPathSegment(pathSegment);
 
+        if (pathSegment.startsWith("*")) {
+            throw new Error(
+                `Wildcard path parameter '/${pathSegment}' cannot be used in a route definition.`,
+            );
+        }
+
         for (const method of methods) {
             const httpMethod = method?.trim() as HttpMethod;
             if (!httpMethods.includes(httpMethod)) {
@@ -237,6 +398,12 @@ export function routes<Def extends RoutesDefinition<Def>>(def: Def): RoutesCompo
             } else {
                 throw new Error("Param def for a path parameter expected.");
             }
+        } else if (route.startsWith("/*")) {
+            if (is(wildcardSymbol, value)) {
+                setFallbackComponent(value, route.slice(2));
+            } else {
+                throw new Error("Wildcard def for a wildcard path parameter expected.");
+            }
         } else if (route.startsWith("/")) {
             if (route === "/") {
                 if (is(routesSymbol, value)) {
@@ -269,7 +436,15 @@ export function routes<Def extends RoutesDefinition<Def>>(def: Def): RoutesCompo
         }
     }
 
-    return tag(routesSymbol, ({ pathSegments }) => {
+    // TypeScript doesn't see the assignment within `setFallbackComponent`, so we have to help out.
+    const fallback = fallbackComponent as RoutingComponent | undefined;
+    const node: RoutingNode = {
+        kind: "routes",
+        lookup,
+        fallback: fallback && { name: fallbackName, component: fallback },
+    };
+
+    return tag(routesSymbol, node, ({ pathSegments }) => {
         const httpContext = useHttpContext();
         let remainingPathSegments = pathSegments;
         let Component: RoutingComponent | undefined = lookup[httpContext.method].get(
@@ -297,15 +472,27 @@ export function routes<Def extends RoutesDefinition<Def>>(def: Def): RoutesCompo
  * @param schemaProvider The Zod schema the path parameter must adhere to. If a parsing error
  *   occurs, status code 400 (bad request) is returned to the browser by default.
  * @param nestedRoutes The child routes that have access to the parsed parameter value.
+ * @param options Configures the path parameter, e.g., to only accept signed requests.
  */
 export function param<PathParamIn, PathParamOut, Router extends RoutesComponent<any>>(
     schemaProvider: Provide<ZodType<PathParamOut, any, PathParamIn>>,
     nestedRoutes: (pathParam: () => PathParamOut) => Router,
-): ParamComponent<PathParamIn, Router> {
+    options?: ParamOptions,
+): ParamComponent<PathParamIn, Router, PathParamOut> {
     const ParamContext = createContext<PathParamOut>({ name: "path parameter" });
     const Component = nestedRoutes(() => useContext(ParamContext));
+    const node: RoutingNode = {
+        kind: "param",
+        schemaProvider,
+        nestedRoutes: Component,
+        signed: !!options?.signed,
+    };
+
+    return tag(paramSymbol, node, async ({ pathSegments }) => {
+        if (options?.signed) {
+            ensureValidSignature();
+        }
 
-    return tag(paramSymbol, async ({ pathSegments }) => {
         const paramSchema =
             typeof schemaProvider === "function" ? await schemaProvider() : schemaProvider;
         const param = unpack(
@@ -321,6 +508,105 @@ export function param<PathParamIn, PathParamOut, Router extends RoutesComponent<
     });
 }
 
+/**
+ * A wildcard path parameter is a dynamic path parameter that captures all remaining path segments
+ * of the request, regardless of how many there are, as long as there is at least one. Otherwise,
+ * the URL would be the same as the one of the routes definition's `/` routes, so requests without
+ * any remaining path segments never match a wildcard path parameter. The captured path segments are
+ * decoded individually and passed as an array to the given Zod schema. Just like {@link param},
+ * there can be only one path parameter or wildcard path parameter in a single routes definition.
+ * Since there are no path segments left to match after a wildcard path parameter, the nested routes
+ * typically only define routes for `/`, e.g., `GET /`.
+ *
+ * Note that empty path segments are ignored, so an empty string within the array is lost when
+ * roundtripping the path parameter through an URL.
+ *
+ * @param schemaProvider The Zod schema the captured path segments must adhere to, typically some
+ *   array schema such as `z.array(z.string())`. The array is never empty. If a parsing error
+ *   occurs, status code 400 (bad request) is returned to the browser by default.
+ * @param nestedRoutes The child routes that have access to the parsed parameter value.
+ * @param options Configures the wildcard path parameter, e.g., to only accept signed requests.
+ */
+export function wildcard<
+    PathParamIn extends readonly unknown[] | undefined,
+    PathParamOut,
+    Router extends RoutesComponent<any>,
+>(
+    schemaProvider: Provide<ZodType<PathParamOut, any, PathParamIn>>,
+    nestedRoutes: (pathParam: () => PathParamOut) => Router,
+    options?: ParamOptions,
+): WildcardComponent<PathParamIn, Router, PathParamOut> {
+    const WildcardContext = createContext<PathParamOut>({ name: "wildcard path parameter" });
+    const Component = nestedRoutes(() => useContext(WildcardContext));
+    const node: RoutingNode = {
+        kind: "wildcard",
+        schemaProvider,
+        nestedRoutes: Component,
+        signed: !!options?.signed,
+    };
+
+    return tag(wildcardSymbol, node, async ({ pathSegments }) => {
+        if (pathSegments.length === 0) {
+            throw new HttpError("NotFound", "Missing path segments for wildcard path parameter.");
+        }
+
+        if (options?.signed) {
+            ensureValidSignature();
+        }
+
+        const paramSchema =
+            typeof schemaProvider === "function" ? await schemaProvider() : schemaProvider;
+        const param = unpack(
+            paramSchema,
+            pathSegments.map((segment) => decodeURIComponent(segment)),
+        )!;
+
+        return (
+            <WildcardContext value={param}>
+                <Component pathSegments={[]} />
+            </WildcardContext>
+        );
+    });
+}
+
+/**
+ * Guards a set of routes, a single route, or a (wildcard) path parameter with the given `Guard`
+ * component that is rendered before the route matching continues within the guarded component. The
+ * guard decides whether the request may proceed by rendering its `children`. Alternatively, it can
+ * throw an `HttpError`, e.g., `HttpError("Unauthorized")`, or render a `Redirect` instead of its
+ * children. Since the guarded component is rendered as a child of the guard, the guard can also
+ * provide contexts, such as the currently logged-in user, to all nested routes.
+ *
+ * The guarded component retains its type, so guards neither affect the type-safety of the
+ * {@link getHrefs} function nor the routes definition's ambiguity checks. Guards can be nested to
+ * combine multiple checks, in which case the outermost guard runs first. Within the nested routes
+ * of a {@link param}, guards have access to the path parameter, and the routes returned by
+ * {@link lazy} can be guarded without loading them eagerly.
+ *
+ * @param Guard The component that checks whether the request may proceed and, if so, renders its
+ *   children.
+ * @param component The routing component that is only matched if the guard renders its children.
+ */
+export function guard<
+    T extends
+        | RoutesComponent<any>
+        | RouteComponent<any, any>
+        | ParamComponent<any, any>
+        | WildcardComponent<any, any>,
+>(Guard: JsxComponent<PropsWithChildren>, component: T): T {
+    const Component: RoutingComponent = component;
+
+    return tag(
+        component.kind as keyof TypeMap,
+        { kind: "guard", component },
+        ({ pathSegments }) => (
+            <Guard>
+                <Component pathSegments={pathSegments} />
+            </Guard>
+        ),
+    ) as T;
+}
+
 /**
  * Allows for lazy loading of nested routes definition. Thus, the code for these lazily loaded
  * routes doesn't get loaded on server start, but only once the first request is made that resolves
@@ -338,12 +624,19 @@ export function lazy<T extends RoutesComponent<any> | ((...p: any[]) => RoutesCo
 ): T extends RoutesComponent<any> ? T : ReturnType<T> {
     let Component: RoutesComponent<any> | undefined = undefined;
 
-    return tag(routesSymbol, async ({ pathSegments }) => {
+    async function load() {
         if (!Component) {
             const imported = (await loadModule()).default;
             Component = is(routesSymbol, imported) ? imported : imported(...params);
         }
 
+        return Component;
+    }
+
+    const node: RoutingNode = { kind: "lazy", load, getLoaded: () => Component };
+
+    return tag(routesSymbol, node, async ({ pathSegments }) => {
+        const Component = await load();
         return <Component pathSegments={pathSegments} />;
     }) as any;
 }
@@ -352,10 +645,34 @@ export type RouterProps<Routes extends RoutesComponent<any>> = {
     readonly routes: Routes;
 };
 
-/** A router that determines the route that should be rendered based on the current HTTP request. */
+const RoutesContext = createContext<RoutingComponent>({ name: "routes" });
+
+/**
+ * Returns the routes of the enclosing {@link Router}, or `undefined` when called outside of a
+ * router. This is a HyTTS-internal function.
+ */
+export function useRoutes(): RoutingComponent | undefined {
+    return useContextOrDefault(RoutesContext, undefined);
+}
+
+/**
+ * A router that determines the route that should be rendered based on the current HTTP request. If
+ * CSRF protection is enabled, non-GET requests without the session's CSRF token are rejected before
+ * any routes are matched.
+ */
 export function Router<Routes extends RoutesComponent<any>>({
     routes: Routes,
 }: RouterProps<Routes>) {
-    const { requestPath } = useHttpContext();
-    return <Routes pathSegments={requestPath} />;
+    const { method, requestPath, requestBody, csrfToken, getHeader } = useHttpContext();
+
+    // The CSRF token is checked before any of the guards or path params are rendered.
+    if (method !== "GET" && csrfToken !== undefined) {
+        ensureValidCsrfToken(csrfToken, getHeader, requestBody);
+    }
+
+    return (
+        <RoutesContext value={Routes}>
+            <Routes pathSegments={requestPath} />
+        </RoutesContext>
+    );
 }
@@ -1,10 +1,22 @@
 import { LocalDate } from "@js-joda/core";
 import { z } from "zod";
 import { createForm } from "@/form/form";
-import { HttpResponse, Redirect } from "@/http/http-context";
+import { HttpResponse, Redirect, useRequestHeader } from "@/http/http-context";
+import { HttpError } from "@/http/http-error";
+import { createContext, useContext } from "@/jsx/context";
 import { renderToString } from "@/jsx/jsx-runtime";
-import { type FormValues, getHrefs, type Href } from "@/routing/href";
-import { lazy, param, route, Router, routes, type RoutesComponent } from "@/routing/router";
+import type { PropsWithChildren } from "@/jsx/jsx-types";
+import { type FormValues, getHrefs, type Href, matchHref } from "@/routing/href";
+import {
+    guard,
+    lazy,
+    param,
+    route,
+    Router,
+    routes,
+    type RoutesComponent,
+    wildcard,
+} from "@/routing/router";
 import { zLocalDate } from "@/serialization/date-time";
 
 describe("routing", () => {
@@ -37,6 +49,55 @@ describe("routing", () => {
         const y: Href<"POST"> = href("POST /");
     });
 
+    it("allows routes for PUT, PATCH, and DELETE requests", async () => {
+        const rs = routes({
+            "GET /": () => <>g</>,
+            "PUT /": route(z.object({ s: z.string() }), ({ s }) => <>put {s}</>),
+            "PATCH /": route(z.object({ n: z.number() }), ({ n }) => <>patch {n}</>),
+            "/:id": param(z.number(), (id) =>
+                routes({
+                    "DELETE /": () => <>delete {id()}</>,
+                }),
+            ),
+        });
+        const href = getHrefs<typeof rs>();
+
+        expect(href("PUT /", { s: "a?" }).body).toBe("s=a%3F");
+        expect(href("PUT /", { s: "a?" }).url).toBe("/");
+        expect(href("PUT /", { s: "a?" }).method).toBe("PUT");
+        expect(await render(rs, href("PUT /", { s: "a?" }))).toBe("put a?");
+
+        expect(href("PATCH /", { n: 1 }).body).toBe("n=1");
+        expect(href("PATCH /", { n: 1 }).url).toBe("/");
+        expect(href("PATCH /", { n: 1 }).method).toBe("PATCH");
+        expect(await render(rs, href("PATCH /", { n: 1 }))).toBe("patch 1");
+
+        expect(href("DELETE /:id", { id: 17 }).body).toBeUndefined();
+        expect(href("DELETE /:id", { id: 17 }).url).toBe("/17");
+        expect(href("DELETE /:id", { id: 17 }).method).toBe("DELETE");
+        expect(await render(rs, href("DELETE /:id", { id: 17 }))).toBe("delete 17");
+
+        await expect(() => render(rs, href("PATCH /", { n: "a" } as any))).rejects.toThrow(
+            "BadRequest",
+        );
+        await expect(() =>
+            render(rs, href("DELETE /:id", { id: 1 }), () => undefined),
+        ).rejects.toThrow("BadRequest");
+
+        // @ts-expect-error
+        href("DELETE /");
+
+        // @ts-expect-error
+        href("PUT /", { s: 1 });
+
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const x: Href<"DELETE"> = href("DELETE /:id", { id: 1 });
+
+        // @ts-expect-error
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const y: Href<"POST"> = href("PUT /", { s: "" });
+    });
+
     it("allows multiple different routes", async () => {
         const rs = routes({ "GET /a": () => <>a</>, "GET /b": () => <>b</> });
         const href = getHrefs<typeof rs>();
@@ -238,6 +299,101 @@ describe("routing", () => {
         expect(await render(rs, href("GET /params/abc"))).toBe("17");
     });
 
+    it("supports guards for routes, route definitions, and path params", async () => {
+        const UserContext = createContext<string>();
+        const RequireUser = ({ children }: PropsWithChildren) => {
+            const user = useRequestHeader("x-user");
+            if (!user) {
+                throw new HttpError("Unauthorized");
+            }
+
+            return <UserContext value={user}>{children}</UserContext>;
+        };
+
+        const rs = routes({
+            "GET /public": () => <>public</>,
+            "GET /single": guard(
+                RequireUser,
+                route(z.object({ s: z.string() }), ({ s }) => (
+                    <>
+                        {useContext(UserContext)} {s}
+                    </>
+                )),
+            ),
+            "/admin": guard(
+                RequireUser,
+                routes({
+                    "GET /": () => <>admin {useContext(UserContext)}</>,
+                    "/:id": guard(
+                        RequireUser,
+                        param(z.number(), (id) =>
+                            routes({
+                                "GET /": guard(
+                                    ({ children }) =>
+                                        id() === 1 ? (
+                                            <>{children}</>
+                                        ) : (
+                                            <Redirect href={href("GET /public")} />
+                                        ),
+                                    route(z.object({}), () => <>id {id()}</>),
+                                ),
+                            }),
+                        ),
+                    ),
+                    "/lazy": guard(
+                        ({ children }) => <>guarded {children}</>,
+                        lazy(() =>
+                            Promise.resolve({ default: routes({ "GET /": () => <>lazy</> }) }),
+                        ),
+                    ),
+                }),
+            ),
+        });
+        const href = getHrefs<typeof rs>();
+        const withUser = (header: string) =>
+            header === "x-user" ? "user" : header === "x-hy" ? "true" : undefined;
+
+        expect(href("GET /single", { s: "s" }).url).toBe("/single?s=s");
+        expect(href("GET /admin/:id", { id: 1 }).url).toBe("/admin/1");
+        expect(href("GET /admin/lazy").url).toBe("/admin/lazy");
+
+        expect(await render(rs, href("GET /public"))).toBe("public");
+        expect(await render(rs, href("GET /single", { s: "s" }), withUser)).toBe("user s");
+        expect(await render(rs, href("GET /admin"), withUser)).toBe("admin user");
+        expect(await render(rs, href("GET /admin/:id", { id: 1 }), withUser)).toBe("id 1");
+        expect(await render(rs, href("GET /admin/lazy"), withUser)).toBe("guarded lazy");
+        expect(await getRedirectUrl(rs, href("GET /admin/:id", { id: 2 }), withUser)).toBe(
+            "/public",
+        );
+
+        await expect(() => render(rs, href("GET /single", { s: "s" }))).rejects.toThrow(
+            "Unauthorized",
+        );
+        await expect(() => render(rs, href("GET /admin"))).rejects.toThrow("Unauthorized");
+        await expect(() => render(rs, href("GET /admin/lazy"))).rejects.toThrow("Unauthorized");
+
+        // @ts-expect-error
+        href("GET /single");
+
+        // @ts-expect-error
+        href("GET /admin/:id", { id: "1" });
+
+        expect(() =>
+            routes({
+                "/": guard(RequireUser, routes({})),
+                "/:p": guard(
+                    RequireUser,
+                    param(z.string(), () => routes({})),
+                ),
+            }),
+        ).toThrow("can only have one");
+
+        expect(() =>
+            // @ts-expect-error
+            routes({ "/:p": guard(RequireUser, routes({})) }),
+        ).toThrow("Param def");
+    });
+
     it("supports route params", async () => {
         const rs = routes({
             "GET /component": () => <>component</>,
@@ -403,6 +559,115 @@ describe("routing", () => {
         ).rejects.toThrow("NotFound");
     });
 
+    it("supports wildcard path params", async () => {
+        const rs = routes({
+            "GET /": () => <>root</>,
+            "GET /a": () => <>a</>,
+            "/*path": wildcard(z.array(z.string()), (path) =>
+                routes({
+                    "GET /": route(z.object({ s: z.string() }), ({ s }) => {
+                        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                        const shouldBeStringArray: () => string[] = path;
+
+                        return (
+                            <>
+                                {path().join("|")} {s}
+                            </>
+                        );
+                    }),
+                }),
+            ),
+            "/numbers": routes({
+                "/*n": wildcard(z.array(z.number()).min(1), (n) =>
+                    routes({
+                        "GET /": () => <>{n().reduce((sum, value) => sum + value, 0)}</>,
+                    }),
+                ),
+            }),
+        });
+        const href = getHrefs<typeof rs>();
+
+        expect(href("GET /*path", { path: ["a", "b/c", "d?"] }, { s: "s" }).url).toBe(
+            "/a/b%2Fc/d%3F?s=s",
+        );
+        expect(() => href("GET /*path", { path: [] }, { s: "s" })).toThrow(
+            "requires at least one path segment",
+        );
+        expect(href("GET /numbers/*n", { n: [1, 2, 3] }).url).toBe("/numbers/1/2/3");
+
+        expect(await render(rs, href("GET /"))).toBe("root");
+        expect(await render(rs, href("GET /a"))).toBe("a");
+        expect(await render(rs, href("GET /*path", { path: ["b"] }, { s: "s" }))).toBe("b s");
+        expect(await render(rs, href("GET /*path", { path: ["x", "b/c", "d?"] }, { s: "s" }))).toBe(
+            "x|b/c|d? s",
+        );
+        expect(await render(rs, href("GET /numbers/*n", { n: [1, 2, 3] }))).toBe("6");
+
+        await expect(() =>
+            render(rs, { url: "/numbers", method: "GET" } as Href<"GET">),
+        ).rejects.toThrow("NotFound");
+        await expect(() =>
+            render(rs, href("GET /numbers/*n", { n: ["a"] as any })),
+        ).rejects.toThrow("BadRequest");
+
+        // Wildcard hrefs never match the `/` routes of the same routes definition.
+        expect(
+            await matchHref(rs, "GET", href("GET /*path", { path: ["b"] }, { s: "s" }).url),
+        ).toStrictEqual({
+            route: "GET /*path",
+            pathParams: { path: ["b"] },
+            routeParams: { s: "s" },
+        });
+        expect(await matchHref(rs, "GET", href("GET /").url)).toStrictEqual({
+            route: "GET /",
+            pathParams: {},
+            routeParams: {},
+        });
+        expect(await matchHref(rs, "GET", "/numbers")).toBeUndefined();
+
+        expect(() =>
+            // @ts-expect-error
+            href("GET /*path", { path: "a" }, { s: "s" }),
+        ).toThrow("requires at least one path segment");
+
+        // @ts-expect-error
+        href("GET /numbers/*n", { n: ["a"] });
+
+        expect(() =>
+            routes({
+                "/*p": wildcard(z.array(z.string()), () => routes({})),
+                "/:q": param(z.string(), () => routes({})),
+            }),
+        ).toThrow("can only have one");
+
+        expect(() =>
+            routes({
+                "/": routes({}),
+                "/*p": wildcard(z.array(z.string()), () => routes({})),
+            }),
+        ).toThrow("can only have one");
+
+        expect(() =>
+            // @ts-expect-error
+            routes({ "/*p": routes({}) }),
+        ).toThrow("Wildcard def");
+
+        expect(() =>
+            // @ts-expect-error
+            routes({ "/*p": param(z.string(), () => routes({})) }),
+        ).toThrow("Wildcard def");
+
+        expect(() =>
+            // @ts-expect-error
+            routes({ "GET /*p": () => <></> }),
+        ).toThrow("Wildcard path parameter");
+
+        expect(() =>
+            // @ts-expect-error
+            routes({ "/*p?": wildcard(z.array(z.string()), () => routes({})) }),
+        ).toThrow("Invalid space, slash, question mark, or colon");
+    });
+
     it("supports both path and route params at the same time", async () => {
         const rs = routes({
             "/:n": param(z.number(), (n) =>
@@ -744,6 +1009,106 @@ describe("routing", () => {
         x = a;
     });
 
+    it("matches URLs back to their routes", async () => {
+        const rs = routes({
+            "GET /": () => <></>,
+            "POST /": route(z.object({ s: z.string() }), () => <></>),
+            "GET /search": route(z.object({ s: z.string().transform((s) => s.length) }), () => (
+                <></>
+            )),
+            "/:n": param(zLocalDate(), (n) =>
+                routes({
+                    "GET /": () => <>{`${n()}`}</>,
+                    "/:m?": param(z.number().optional(), () => routes({ "GET /m": () => <></> })),
+                }),
+            ),
+            "/files": guard(
+                () => {
+                    throw new Error("guards are not executed");
+                },
+                routes({
+                    "/*path": wildcard(z.array(z.string()).min(1), () =>
+                        routes({ "DELETE /": () => <></> }),
+                    ),
+                }),
+            ),
+            "/lazy": lazy(() => Promise.resolve({ default: routes({ "GET /abc": () => <></> }) })),
+        });
+        const href = getHrefs<typeof rs>();
+        const date = LocalDate.of(2024, 2, 29);
+
+        expect(await matchHref(rs, "GET", "/")).toStrictEqual({
+            route: "GET /",
+            pathParams: {},
+            routeParams: {},
+        });
+        expect(await matchHref(rs, "POST", "/", "s=a")).toStrictEqual({
+            route: "POST /",
+            pathParams: {},
+            routeParams: { s: "a" },
+        });
+        expect(await matchHref(rs, "GET", href("GET /search", { s: "abc" }).url)).toStrictEqual({
+            route: "GET /search",
+            pathParams: {},
+            routeParams: { s: 3 },
+        });
+        expect(await matchHref(rs, "GET", href("GET /:n", { n: date }).url)).toStrictEqual({
+            route: "GET /:n",
+            pathParams: { n: date },
+            routeParams: {},
+        });
+        expect(
+            await matchHref(rs, "GET", href("GET /:n/:m/m", { n: date, m: 1 }).url),
+        ).toStrictEqual({
+            route: "GET /:n/:m/m",
+            pathParams: { n: date, m: 1 },
+            routeParams: {},
+        });
+        expect(
+            await matchHref(rs, "DELETE", href("DELETE /files/*path", { path: ["a", "b/c"] }).url),
+        ).toStrictEqual({
+            route: "DELETE /files/*path",
+            pathParams: { path: ["a", "b/c"] },
+            routeParams: {},
+        });
+        expect(await matchHref(rs, "GET", "/lazy/abc?x=1")).toStrictEqual({
+            route: "GET /lazy/abc",
+            pathParams: {},
+            routeParams: {},
+        });
+
+        expect(await matchHref(rs, "GET", "/unknown")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "/search")).toBeUndefined();
+        expect(await matchHref(rs, "POST", "/search")).toBeUndefined();
+        expect(await matchHref(rs, "POST", "/")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "/2024-02-30")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "/2024-02-29/x/m")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "/%E0%A4%A")).toBeUndefined();
+        expect(await matchHref(rs, "DELETE", "/files")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "/lazy/abc/def")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "https://google.com/")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "//google.com/search?s=a")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "https://example.com/search?s=a")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "/\\google.com/search?s=a")).toBeUndefined();
+        expect(await matchHref(rs, "GET", "http://[")).toBeUndefined();
+
+        const match = await matchHref(rs, "GET", "/search?s=abc");
+        if (match?.route === "GET /search") {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const x: number = match.routeParams.s;
+        }
+
+        if (match?.route === "GET /:n") {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const x: LocalDate = match.pathParams.n;
+        }
+
+        // @ts-expect-error
+        if (match?.route === "POST /") {
+            // not a GET route
+        }
+    });
+
     it("supports routes that redirect", async () => {
         const rs = routes({
             "GET /redirect": () => <Redirect href={href("GET /target")} />,
@@ -788,8 +1153,12 @@ async function render(
     return html;
 }
 
-async function getRedirectUrl(routes: RoutesComponent<any>, href: Href<any, any>) {
-    const { redirectUrl } = await executeRouter(routes, href);
+async function getRedirectUrl(
+    routes: RoutesComponent<any>,
+    href: Href<any, any>,
+    getHeader?: (header: string) => string | undefined,
+) {
+    const { redirectUrl } = await executeRouter(routes, href, getHeader);
     return redirectUrl;
 }
 
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import type { JsxElement } from "@/jsx/jsx-types";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { getHrefs } from "@/routing/href";
+import { param, route, Router, routes } from "@/routing/router";
+import type { SigningOptions } from "@/routing/signing";
+
+describe("signing", () => {
+    const rs = routes({
+        "GET /links": (): JsxElement => (
+            <>
+                {href("GET /confirm", { token: "abc" }).url}{" "}
+                {href("POST /invoices/:id/approve", { id: 42 }, { note: "ok" }).url}{" "}
+                {href("POST /invoices/:id/approve", { id: 42 }, { note: "ok" }).body}{" "}
+                {href("GET /open", { token: "x" }).url}
+            </>
+        ),
+        "GET /confirm": route(
+            z.object({ token: z.string() }),
+            ({ token }) => <>confirm {token}</>,
+            {
+                signed: true,
+            },
+        ),
+        "GET /open": route(z.object({ token: z.string().optional() }), ({ token }) => (
+            <>open {token}</>
+        )),
+        "/invoices": routes({
+            "/:id": param(
+                z.number(),
+                (id) =>
+                    routes({
+                        "POST /approve": route(z.object({ note: z.string() }), ({ note }) => (
+                            <>
+                                approve {id()} {note}
+                            </>
+                        )),
+                    }),
+                { signed: true },
+            ),
+        }),
+    });
+    const href = getHrefs<typeof rs>();
+
+    function createFetch(signing?: SigningOptions) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            { signing },
+        );
+
+        return (url: string, body?: string) =>
+            handler(
+                new Request(
+                    `http://localhost${url}`,
+                    body === undefined
+                        ? {}
+                        : {
+                              method: "POST",
+                              body,
+                              headers: {
+                                  "x-hy": "true",
+                                  "content-type": "application/x-www-form-urlencoded",
+                              },
+                          },
+                ),
+            );
+    }
+
+    async function getLinks(fetch: ReturnType<typeof createFetch>) {
+        const [confirmUrl, approveUrl, approveBody, openUrl] = (
+            await (await fetch("/links")).text()
+        )
+            .replaceAll("&amp;", "&")
+            .split(" ");
+        return {
+            confirmUrl: confirmUrl!,
+            approveUrl: approveUrl!,
+            approveBody: approveBody!,
+            openUrl,
+        };
+    }
+
+    const options = { secret: "secret-for-tests-only" };
+
+    it("signs hrefs to signed routes and path parameters only", async () => {
+        const fetch = createFetch(options);
+        const { confirmUrl, approveUrl, approveBody, openUrl } = await getLinks(fetch);
+
+        expect(confirmUrl).toMatch(/^\/confirm\?token=abc&%24sig=[\w-]+$/);
+        expect(approveUrl).toBe("/invoices/42/approve");
+        expect(approveBody).toMatch(/^note=ok&%24sig=[\w-]+$/);
+        expect(openUrl).toBe("/open?token=x");
+
+        // Hrefs created outside of HTTP requests are never signed.
+        expect(href("GET /confirm", { token: "abc" }).url).toBe("/confirm?token=abc");
+    });
+
+    it("signs all hrefs with parameters outside of a router", async () => {
+        const OpenLink = () => <>{href("GET /open", { token: "x" }).url}</>;
+        const handler = createFetchHandler(<OpenLink />, undefined, { signing: options });
+        const response = await handler(new Request("http://localhost/"));
+        const openUrl = (await response.text()).replaceAll("&amp;", "&");
+
+        expect(openUrl).toMatch(/^\/open\?token=x&%24sig=[\w-]+$/);
+        expect(await (await createFetch(options)(openUrl)).text()).toBe("open x");
+    });
+
+    it("accepts requests with valid signatures", async () => {
+        const fetch = createFetch(options);
+        const { confirmUrl, approveUrl, approveBody } = await getLinks(fetch);
+
+        expect(await (await fetch(confirmUrl)).text()).toBe("confirm abc");
+        expect(await (await fetch(approveUrl, approveBody)).text()).toBe("approve 42 ok");
+
+        // Form values and other HyTTS-internal parameters are not signed.
+        expect(
+            await (
+                await fetch(approveUrl, `%24form.a=1&${approveBody}&%24formArray.path=a`)
+            ).text(),
+        ).toBe("approve 42 ok");
+
+        // Unsigned routes ignore signatures.
+        expect(await (await fetch("/open?token=x&%24sig=invalid")).text()).toBe("open x");
+    });
+
+    it("rejects requests with missing or invalid signatures", async () => {
+        const fetch = createFetch(options);
+        const { confirmUrl, approveUrl, approveBody } = await getLinks(fetch);
+        const signature = confirmUrl.split("&")[1]!;
+
+        const rejected = [
+            await fetch("/confirm?token=abc"),
+            await fetch(`/confirm?token=abd&${signature}`),
+            await fetch(`/confirm?token=abc&token=abd&${signature}`),
+            await fetch(`/confirm?token=abc&${signature}x`),
+            await fetch(`/confirm?token=abc&${signature}&${signature}`),
+            await fetch(approveUrl, "note=ok"),
+            await fetch(approveUrl, approveBody.replace("note=ok", "note=ko")),
+            await fetch(approveUrl.replace("42", "43"), approveBody),
+            await fetch(approveUrl.replace("42", "%E0%A4%A"), approveBody),
+            await createFetch({ secret: "other-secret" })(confirmUrl),
+        ];
+
+        for (const response of rejected) {
+            expect(response.status).toBe(400);
+        }
+    });
+
+    it("rejects expired signatures", async () => {
+        const fetch = createFetch({ ...options, maxAge: 60 });
+        const { confirmUrl } = await getLinks(fetch);
+        expect(confirmUrl).toMatch(/^\/confirm\?token=abc&%24sig=\d+\.[\w-]+$/);
+
+        expect((await fetch(confirmUrl)).status).toBe(200);
+
+        const now = Date.now();
+        const dateSpy = jest.spyOn(Date, "now").mockReturnValue(now + 61_000);
+        try {
+            const response = await fetch(confirmUrl);
+            expect(response.status).toBe(400);
+            expect(await response.text()).toBe("fatal-error-callback: Error: BadRequest");
+        } finally {
+            dateSpy.mockRestore();
+        }
+
+        // The expiration timestamp is part of the signature.
+        const [, expiresAt] = /sig=(\d+)/.exec(confirmUrl)!;
+        const tamperedUrl = confirmUrl.replace(`sig=${expiresAt}`, `sig=${Number(expiresAt) + 1}`);
+        expect((await fetch(tamperedUrl)).status).toBe(400);
+    });
+
+    it("requires a signing secret for signed routes", async () => {
+        const response = await createFetch()("/confirm?token=abc");
+        expect(response.status).toBe(500);
+    });
+});
@@ -0,0 +1,126 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { type HttpMethod, useHttpContext } from "@/http/http-context";
+import { HttpError } from "@/http/http-error";
+import { parseRawUrlSearchParams, toUrlSearchParams } from "@/serialization/url-params";
+
+/**
+ * Configures the signatures of route parameters that protect signed routes and path parameters
+ * against tampering, see the `signed` option of `route` and `param`.
+ */
+export type SigningOptions = {
+    /**
+     * The server secret used to compute the signatures. It must be kept secret and should consist
+     * of at least 32 random bytes. Changing the secret invalidates all previously generated
+     * signatures.
+     */
+    readonly secret: string;
+    /** The number of seconds a signature remains valid. Signatures never expire by default. */
+    readonly maxAge?: number;
+};
+
+/** The name of the route parameter that holds the signature. */
+export const signatureParam = "$sig";
+
+/**
+ * Computes the signature for a request to the given `path` with the given URL-encoded
+ * `routeParams`. The signature covers the HTTP method, the path including all path parameters, and
+ * the route parameters, and optionally an expiration timestamp.
+ */
+export function sign(
+    options: SigningOptions,
+    method: HttpMethod,
+    path: string,
+    routeParams: string,
+): string {
+    const expiresAt =
+        options.maxAge === undefined ? undefined : Math.floor(Date.now() / 1000) + options.maxAge;
+    const hmac = computeHmac(options, method, path, routeParams, expiresAt);
+
+    return expiresAt === undefined ? hmac : `${expiresAt}.${hmac}`;
+}
+
+/**
+ * Ensures that the current request carries a valid signature for its path and route parameters,
+ * throwing an {@link HttpError} with a "BadRequest" error code otherwise.
+ */
+export function ensureValidSignature() {
+    const { method, requestPath, searchParams, requestBody, signing } = useHttpContext();
+    if (!signing) {
+        throw new Error(
+            "Signed routes and path parameters require a signing secret. Configure it with the " +
+                "`signing` option of the fetch handler or the Express middleware.",
+        );
+    }
+
+    const routeParams = method === "GET" ? searchParams : requestBody;
+    const signature = parseRawUrlSearchParams(routeParams)[signatureParam];
+    if (typeof signature !== "string") {
+        throw new HttpError("BadRequest", "Missing signature.");
+    }
+
+    const [expiresAt, hmac] = signature.includes(".")
+        ? signature.split(".", 2)
+        : [undefined, signature];
+
+    if (expiresAt !== undefined && !/^\d+$/.test(expiresAt)) {
+        throw new HttpError("BadRequest", "Invalid signature.");
+    }
+
+    let expectedHmac: string;
+    try {
+        expectedHmac = computeHmac(
+            signing,
+            method,
+            requestPath.join("/"),
+            routeParams,
+            expiresAt === undefined ? undefined : Number(expiresAt),
+        );
+    } catch (e: unknown) {
+        // Malformed URL-encoded path segments can't have been signed by us.
+        if (e instanceof URIError) {
+            throw new HttpError("BadRequest", "Invalid signature.");
+        }
+
+        throw e;
+    }
+
+    const expected = Buffer.from(expectedHmac);
+    const actual = Buffer.from(hmac);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new HttpError("BadRequest", "Invalid signature.");
+    }
+
+    // Once the signature is known to be valid, the expiration timestamp can be trusted.
+    if (expiresAt !== undefined && Number(expiresAt) < Date.now() / 1000) {
+        throw new HttpError("BadRequest", "Expired signature.");
+    }
+}
+
+function computeHmac(
+    options: SigningOptions,
+    method: HttpMethod,
+    path: string,
+    routeParams: string,
+    expiresAt: number | undefined,
+) {
+    // The browser might encode the path and the route parameters slightly differently, and forms
+    // add their own values to the request body, so both are normalized before computing the HMAC.
+    // All parameters starting with `$` are reserved for HyTTS, e.g., the signature itself or the
+    // values of a form, so they aren't signed.
+    const normalizedPath = path
+        .split("/")
+        .filter((segment) => segment !== "")
+        .map((segment) => encodeURIComponent(decodeURIComponent(segment)))
+        .join("/");
+    const normalizedRouteParams = toUrlSearchParams(
+        Object.fromEntries(
+            Object.entries(parseRawUrlSearchParams(routeParams)).filter(
+                ([key]) => !key.startsWith("$"),
+            ),
+        ),
+    );
+
+    return createHmac("sha256", options.secret)
+        .update(`${method}\n/${normalizedPath}\n${expiresAt ?? ""}\n${normalizedRouteParams}`)
+        .digest("base64url");
+}
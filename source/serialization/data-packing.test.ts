@@ -192,6 +192,152 @@ describe("data packing", () => {
         ).toBe(12);
     });
 
+    it("handles `bigint`", () => {
+        expect(pack(BigInt("12345678901234567890"))).toBe("12345678901234567890");
+        expect(pack(BigInt(-1))).toBe("-1");
+        expect(unpack(z.bigint(), "12345678901234567890")).toBe(BigInt("12345678901234567890"));
+        expect(unpack(z.bigint(), "-1")).toBe(BigInt(-1));
+        expect(() => unpack(z.bigint(), "1.5")).toThrow();
+        expect(() => unpack(z.bigint(), "test")).toThrow();
+        expect(unpack(z.bigint(), "1".repeat(1000))).toBe(BigInt("1".repeat(1000)));
+        expect(() => unpack(z.bigint(), "1".repeat(1001))).toThrow();
+    });
+
+    it("handles native enums", () => {
+        enum Numeric {
+            A,
+            B = 10,
+        }
+        enum Text {
+            A = "a",
+            B = "b",
+        }
+
+        expect(pack(Numeric.B)).toBe("10");
+        expect(unpack(z.nativeEnum(Numeric), "0")).toBe(Numeric.A);
+        expect(unpack(z.nativeEnum(Numeric), "10")).toBe(Numeric.B);
+        expect(() => unpack(z.nativeEnum(Numeric), "1")).toThrow();
+        expect(() => unpack(z.nativeEnum(Numeric), "A")).toThrow();
+
+        expect(pack(Text.B)).toBe("b");
+        expect(unpack(z.nativeEnum(Text), "b")).toBe(Text.B);
+        expect(() => unpack(z.nativeEnum(Text), "c")).toThrow();
+    });
+
+    it("handles tuples", () => {
+        const schema = z.tuple([z.number(), z.string(), zLocalDate()]);
+        const value = [1, "a", LocalDate.of(2024, 1, 2)];
+
+        expect(pack(value)).toStrictEqual(["1", "a", "2024-01-02"]);
+        expect(unpack(schema, pack(value))).toStrictEqual(value);
+        expect(() => unpack(schema, ["1", "a"])).toThrow();
+        expect(() => unpack(schema, ["1", "a", "2024-01-02", "x"])).toThrow("Data is not a tuple.");
+        expect(() => unpack(schema, { 0: "1", 1: "a", 2: "2024-01-02" })).toThrow(
+            "Data is not a tuple.",
+        );
+
+        const restSchema = z.tuple([z.string()]).rest(z.boolean());
+        expect(unpack(restSchema, ["a", "true", "false"])).toStrictEqual(["a", true, false]);
+    });
+
+    it("handles records", () => {
+        const schema = z.record(z.object({ a: z.number() }));
+
+        expect(pack({ x: { a: 1 }, y: { a: 2 } })).toStrictEqual({ x: { a: "1" }, y: { a: "2" } });
+        expect(unpack(schema, { x: { a: "1" }, y: { a: "2" } })).toStrictEqual({
+            x: { a: 1 },
+            y: { a: 2 },
+        });
+        expect(unpack(z.record(z.enum(["x", "y"]), z.boolean()), { x: "true" })).toStrictEqual({
+            x: true,
+        });
+        expect(() => unpack(z.record(z.enum(["x", "y"]), z.boolean()), { z: "true" })).toThrow();
+        expect(() => unpack(schema, ["1"])).toThrow("Data is not a record.");
+        expect(() => unpack(schema, "test")).toThrow("Data is not a record.");
+        expect(() => unpack(z.record(z.string()), { "a.b": "1" })).toThrow("Invalid symbol '.'");
+
+        const entries = (count: number) =>
+            Object.fromEntries(Array.from({ length: count }, (_, index) => [`k${index}`, "1"]));
+        expect(Object.keys(unpack(z.record(z.number()), entries(100))!)).toHaveLength(100);
+        expect(() => unpack(z.record(z.number()), entries(101))).toThrow(
+            "Data exceeds the maximum allowed record size.",
+        );
+    });
+
+    it("handles sets", () => {
+        const schema = z.set(z.number());
+
+        expect(pack(new Set([1, 2]))).toStrictEqual(["1", "2"]);
+        expect(unpack(schema, ["1", "2", "1"])).toStrictEqual(new Set([1, 2]));
+        expect(unpack(z.set(z.number()).max(1), ["1", "1"])).toStrictEqual(new Set([1]));
+        expect(() => unpack(z.set(z.number()).max(1), ["1", "2"])).toThrow();
+        expect(() => unpack(schema, { 0: "1" })).toThrow("Data is not a set.");
+    });
+
+    it("handles maps", () => {
+        const schema = z.map(zLocalDate(), z.object({ a: z.boolean() }));
+        const value = new Map([
+            [LocalDate.of(2024, 1, 2), { a: true }],
+            [LocalDate.of(2024, 1, 3), { a: false }],
+        ]);
+
+        expect(pack(value)).toStrictEqual([
+            ["2024-01-02", { a: "true" }],
+            ["2024-01-03", { a: "false" }],
+        ]);
+        expect(unpack(schema, pack(value))).toStrictEqual(value);
+        expect(() => unpack(schema, { "2024-01-02": { a: "true" } })).toThrow("Data is not a map.");
+        expect(() => unpack(schema, [["2024-01-02"]])).toThrow("Data is not a map entry.");
+    });
+
+    it("handles branded types", () => {
+        const schema = z.number().brand("Id");
+        expect(unpack(schema, "1")).toBe(1);
+        expect(() => unpack(schema, "test")).toThrow();
+    });
+
+    it("handles pipelines", () => {
+        const schema = z
+            .string()
+            .transform((v) => v.split(","))
+            .pipe(z.number().array());
+
+        expect(unpack(z.number().pipe(z.number().min(1)), "1")).toBe(1);
+        expect(() => unpack(z.number().pipe(z.number().min(1)), "0")).toThrow();
+        // Only the pipeline's input is unpacked, its output schema receives the transformed data.
+        expect(() => unpack(schema, "1,2")).toThrow();
+    });
+
+    it("handles catch", () => {
+        expect(unpack(z.number().catch(0), "1")).toBe(1);
+        expect(unpack(z.number().catch(0), "test")).toBe(0);
+        expect(unpack(z.object({ a: z.number() }).catch({ a: 0 }), { a: "1" })).toStrictEqual({
+            a: 1,
+        });
+    });
+
+    it("handles recursive lazy schemas", () => {
+        type Category = { name: string; order: number; children: Category[] };
+        const schema: z.ZodType<Category> = z.lazy(() =>
+            z.object({ name: z.string(), order: z.number(), children: schema.array() }),
+        );
+        const value: Category = {
+            name: "a",
+            order: 1,
+            children: [{ name: "b", order: 2, children: [] }],
+        };
+
+        // Empty arrays aren't sent by the browser at all, see the URL search params tests.
+        expect(
+            unpack(schema, {
+                name: "a",
+                order: "1",
+                children: [{ name: "b", order: "2", children: [] }],
+            }),
+        ).toStrictEqual(value);
+        expect(() => unpack(schema, { name: "a", order: "1", children: ["b"] })).toThrow();
+    });
+
     it("throws if property name contains '.'", () => {
         expect(() => pack({ "a.b": 1 })).toThrow("Invalid symbol '.'");
         expect(() => unpack(z.object({ "a.b": z.number() }), { "a.b": "1" })).toThrow();
@@ -232,6 +378,46 @@ describe("data packing", () => {
         expect(unpack(schema, "test")).toBe(4);
     });
 
+    it("handles unions of structurally distinct objects", () => {
+        const schema = z
+            .object({ a: z.number() })
+            .or(z.object({ b: z.boolean(), c: z.array(z.number()) }))
+            .or(z.string());
+
+        expect(unpack(schema, { a: "1" })).toStrictEqual({ a: 1 });
+        expect(unpack(schema, { b: "true", c: ["1", "2"] })).toStrictEqual({ b: true, c: [1, 2] });
+        expect(unpack(schema, "a")).toBe("a");
+        expect(() => unpack(schema, { b: "x" })).toThrow("BadRequest");
+    });
+
+    it("handles discriminated unions", () => {
+        const schema = z.discriminatedUnion("type", [
+            z.object({ type: z.literal("card"), number: z.number() }),
+            z.object({ type: z.literal(1), due: zLocalDate() }),
+            z.object({ type: z.literal(false), items: z.array(z.object({ n: z.number() })) }),
+        ]);
+
+        expect(pack({ type: 1, due: LocalDate.of(2023, 5, 1) })).toStrictEqual({
+            type: "1",
+            due: "2023-05-01",
+        });
+        expect(unpack(schema, { type: "card", number: "1" })).toStrictEqual({
+            type: "card",
+            number: 1,
+        });
+        expect(unpack(schema, { type: "1", due: "2023-05-01" })).toStrictEqual({
+            type: 1,
+            due: LocalDate.of(2023, 5, 1),
+        });
+        expect(unpack(schema, { type: "false", items: [{ n: "2" }] })).toStrictEqual({
+            type: false,
+            items: [{ n: 2 }],
+        });
+        expect(() => unpack(schema, { type: "card", due: "2023-05-01" })).toThrow("BadRequest");
+        expect(() => unpack(schema, { type: "other" })).toThrow("BadRequest");
+        expect(() => unpack(schema, "card")).toThrow("BadRequest");
+    });
+
     it("handles js-joda types", () => {
         expect(unpack(zLocalDate(), "2023-05-01")).toStrictEqual(LocalDate.of(2023, 5, 1));
     });
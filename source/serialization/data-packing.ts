@@ -3,21 +3,32 @@ import {
     z,
     ZodAny,
     ZodArray,
+    ZodBigInt,
     ZodBoolean,
+    ZodBranded,
+    ZodCatch,
     ZodDate,
     ZodDefault,
+    ZodDiscriminatedUnion,
     ZodEffects,
     ZodEnum,
     ZodError,
     ZodIntersection,
+    ZodLazy,
     ZodLiteral,
+    ZodMap,
+    ZodNativeEnum,
     ZodNull,
     ZodNullable,
     ZodNumber,
     ZodObject,
     ZodOptional,
+    ZodPipeline,
     ZodReadonly,
+    ZodRecord,
+    ZodSet,
     ZodString,
+    ZodTuple,
     type ZodType,
     type ZodTypeDef,
     ZodUndefined,
@@ -28,21 +39,42 @@ import { HttpError } from "@/http/http-error";
 
 export type PackedData = undefined | null | string | { [key: string]: PackedData } | PackedData[];
 
+/**
+ * The maximum number of entries of a record. Like the maximum array length enforced when parsing
+ * URL search params, this ensures that noone can attempt a denial of service attack by sending
+ * records with a huge number of keys.
+ */
+const maxRecordSize = 100;
+
+/** The maximum number of digits of a `bigint`, as parsing arbitrarily long numbers is expensive. */
+const maxBigIntDigits = 1000;
+const bigIntRegex = new RegExp(`^[+-]?\\d{1,${maxBigIntDigits}}$`);
+
 /**
  * Packs the given `value` such that its structure (e.g., arrays, objects, nested arrays and
  * objects, ...) is maintained while all "leaf properties" are serialized into `string`s, except for
- * `null` and `undefined`. "Leaf properties" are `boolean`, `number`, `Date` as well as any type
- * that provides its own implementation of the `toString()` method.
+ * `null` and `undefined`. "Leaf properties" are `boolean`, `number`, `bigint`, `Date` as well as
+ * any type that provides its own implementation of the `toString()` method. `Set`s are packed like
+ * arrays, whereas `Map`s are packed as arrays of key-value pairs, because their keys aren't
+ * necessarily strings.
  */
 export function pack(value: unknown): PackedData {
     if (value === undefined || value === null) {
         return value;
-    } else if (typeof value === "boolean" || typeof value === "number") {
+    } else if (
+        typeof value === "boolean" ||
+        typeof value === "number" ||
+        typeof value === "bigint"
+    ) {
         return value.toString();
     } else if (typeof value === "string") {
         return value;
     } else if (value instanceof Date) {
         return value.toISOString();
+    } else if (value instanceof Set) {
+        return [...value].map((e) => pack(e));
+    } else if (value instanceof Map) {
+        return [...value].map(([key, value]) => [pack(key), pack(value)]);
     } else {
         if (Array.isArray(value)) {
             return value.map((e) => pack(e));
@@ -90,7 +122,7 @@ export function unpack<Output, Def extends ZodTypeDef, Input>(
     }
 
     try {
-        return schema.parse(unpackRecursive(schema, data, false));
+        return schema.parse(unpackRecursive(schema, data));
     } catch (e: unknown) {
         if (e instanceof ZodError) {
             throw new HttpError("BadRequest", e);
@@ -99,7 +131,7 @@ export function unpack<Output, Def extends ZodTypeDef, Input>(
         }
     }
 
-    function unpackRecursive(schema: ZodType, data: any, insideUnion: boolean): any {
+    function unpackRecursive(schema: ZodType, data: any): any {
         if (
             data === undefined ||
             data === null ||
@@ -113,6 +145,8 @@ export function unpack<Output, Def extends ZodTypeDef, Input>(
             return typeof data === "string" && /^[+-]?\d+(\.\d+)?$/.test(data)
                 ? Number(data)
                 : data;
+        } else if (schema instanceof ZodBigInt) {
+            return typeof data === "string" && bigIntRegex.test(data) ? BigInt(data) : data;
         } else if (schema instanceof ZodBoolean) {
             return data === "true" ? true : data === "false" ? false : data;
         } else if (schema instanceof ZodDate) {
@@ -121,10 +155,8 @@ export function unpack<Output, Def extends ZodTypeDef, Input>(
         } else if (schema instanceof ZodAny) {
             return data;
         } else if (schema instanceof ZodLiteral) {
-            if (typeof schema.value === "boolean")
-                return unpackRecursive(z.boolean(), data, insideUnion);
-            else if (typeof schema.value === "number")
-                return unpackRecursive(z.number(), data, insideUnion);
+            if (typeof schema.value === "boolean") return unpackRecursive(z.boolean(), data);
+            else if (typeof schema.value === "number") return unpackRecursive(z.number(), data);
             else if (typeof schema.value === "string") return data;
             else {
                 throw new Error(
@@ -132,10 +164,6 @@ export function unpack<Output, Def extends ZodTypeDef, Input>(
                 );
             }
         } else if (schema instanceof ZodObject) {
-            if (insideUnion) {
-                throw new Error("Objects are not supported within unions.");
-            }
-
             if (!(typeof data === "object")) {
                 throw new Error("Data is not an object.");
             }
@@ -145,13 +173,9 @@ export function unpack<Output, Def extends ZodTypeDef, Input>(
                     // We can't roundtrip in this case...
                     throw new Error(`Invalid symbol '.' in property name '${key}'.`);
                 }
-                return unpackRecursive(value, data[key], false);
+                return unpackRecursive(value, data[key]);
             });
         } else if (schema instanceof ZodArray) {
-            if (insideUnion) {
-                throw new Error("Arrays are not supported within unions.");
-            }
-
             if (!Array.isArray(data)) {
                 // This happens, for example, when qs converts an array into an object as a security precaution...
                 throw new Error(
@@ -159,39 +183,129 @@ export function unpack<Output, Def extends ZodTypeDef, Input>(
                 );
             }
 
-            return data.map((e: string) => unpackRecursive(schema.element, e, false));
+            return data.map((e: string) => unpackRecursive(schema.element, e));
+        } else if (schema instanceof ZodTuple) {
+            const items: ZodType[] = schema.items;
+            const rest: ZodType | null = schema._def.rest;
+            if (!Array.isArray(data) || (!rest && data.length > items.length)) {
+                throw new Error("Data is not a tuple.");
+            }
+
+            // `rest` can only be `null` here if all indices are in bounds, as checked above.
+            return data.map((e: string, index) => unpackRecursive((items[index] ?? rest)!, e));
+        } else if (schema instanceof ZodSet) {
+            if (!Array.isArray(data)) {
+                throw new Error(
+                    "Data is not a set. Possibly, the maximum allowed array size is exceeded.",
+                );
+            }
+
+            return new Set(data.map((e: string) => unpackRecursive(schema._def.valueType, e)));
+        } else if (schema instanceof ZodMap) {
+            if (!Array.isArray(data)) {
+                throw new Error(
+                    "Data is not a map. Possibly, the maximum allowed array size is exceeded.",
+                );
+            }
+
+            return new Map(
+                data.map((entry: PackedData) => {
+                    if (!Array.isArray(entry) || entry.length !== 2) {
+                        throw new Error("Data is not a map entry.");
+                    }
+
+                    return [
+                        unpackRecursive(schema.keySchema, entry[0]),
+                        unpackRecursive(schema.valueSchema, entry[1]),
+                    ];
+                }),
+            );
+        } else if (schema instanceof ZodRecord) {
+            if (typeof data !== "object" || Array.isArray(data)) {
+                throw new Error("Data is not a record.");
+            }
+
+            const entries = Object.entries(data);
+            if (entries.length > maxRecordSize) {
+                throw new Error("Data exceeds the maximum allowed record size.");
+            }
+
+            // The keys are always strings when sent by the browser, and Zod also parses record keys
+            // from the object's string keys, so we only have to unpack the values.
+            return Object.fromEntries(
+                entries.map(([key, value]) => {
+                    if (key.includes(".")) {
+                        // We can't roundtrip in this case...
+                        throw new Error(`Invalid symbol '.' in property name '${key}'.`);
+                    }
+                    return [key, unpackRecursive(schema.valueSchema, value)];
+                }),
+            );
         } else if (schema instanceof ZodNullable) {
-            return unpackRecursive(schema.unwrap(), data, insideUnion);
+            return unpackRecursive(schema.unwrap(), data);
         } else if (schema instanceof ZodDefault) {
-            return unpackRecursive(schema.removeDefault(), data, insideUnion);
+            return unpackRecursive(schema.removeDefault(), data);
         } else if (schema instanceof ZodOptional) {
-            return unpackRecursive(schema.unwrap(), data, insideUnion);
+            return unpackRecursive(schema.unwrap(), data);
         } else if (schema instanceof ZodReadonly) {
-            return unpackRecursive(schema._def.innerType, data, insideUnion);
+            return unpackRecursive(schema._def.innerType, data);
         } else if (schema instanceof ZodEnum) {
             return data;
+        } else if (schema instanceof ZodNativeEnum) {
+            // Native enums can have both string and numeric values, so we have to find the value
+            // with the matching string representation.
+            const values: unknown[] = Object.values(schema.enum);
+            return values.find((value) => typeof value === "number" && `${value}` === data) ?? data;
+        } else if (schema instanceof ZodBranded) {
+            return unpackRecursive(schema.unwrap(), data);
+        } else if (schema instanceof ZodCatch) {
+            return unpackRecursive(schema.removeCatch(), data);
+        } else if (schema instanceof ZodPipeline) {
+            // The data is the input of the pipeline, the pipeline's output schema never sees it.
+            return unpackRecursive(schema._def.in, data);
+        } else if (schema instanceof ZodLazy) {
+            // The recursion of recursive schemas is bounded by the nesting depth of the data.
+            return unpackRecursive(schema.schema, data);
         } else if (schema instanceof ZodEffects) {
-            return unpackRecursive(schema.innerType(), data, insideUnion);
+            return unpackRecursive(schema.innerType(), data);
         } else if (schema instanceof ZodIntersection) {
             return {
-                ...unpackRecursive(schema._def.left, data, insideUnion),
-                ...unpackRecursive(schema._def.right, data, insideUnion),
+                ...unpackRecursive(schema._def.left, data),
+                ...unpackRecursive(schema._def.right, data),
             };
+        } else if (schema instanceof ZodDiscriminatedUnion) {
+            // The discriminator value is still a string, so we have to unpack it for each option to
+            // find the option it belongs to, e.g., for Boolean or numeric discriminators.
+            const discriminator: string = schema.discriminator;
+            const option = (schema.options as ZodObject<any>[]).find((option) => {
+                const discriminatorSchema: ZodType = option.shape[discriminator];
+                return discriminatorSchema.safeParse(
+                    unpackRecursive(discriminatorSchema, data?.[discriminator]),
+                ).success;
+            });
+
+            // If there is no matching option, we return the data unmodified and let the top-level
+            // parsing generate the error.
+            return option && typeof data === "object" ? unpackRecursive(option, data) : data;
         } else if (schema instanceof ZodUnion) {
             // This is a best-effort implementation for unions that uses the first option that somehow
             // matches. It might return a different result compared to Zod's standard parse function due
-            // to this function's string coercion behavior. Also, we currently do not support nested objects
-            // or arrays within unions.
-            // Since this implementation might be somewhat problematic, it is not officially documented.
-            // It is mostly used for HyTTS-internal types.
+            // to this function's string coercion behavior. For unions of objects, prefer discriminated
+            // unions, or ensure that the objects are structurally distinct.
             for (const option of (schema as ZodUnion<[ZodType]>).options) {
-                const transformedData = unpackRecursive(option, data, true);
-                const result = option.safeParse(transformedData);
-                if (result.success) {
-                    // Return the recursively obtained data that we now know will successfully parse when
-                    // the outer function returns. We can't return the already parsed `result.data` here,
-                    // as we don't know if the schema accepts its own output as its input.
-                    return transformedData;
+                try {
+                    const transformedData = unpackRecursive(option, data);
+                    const result = option.safeParse(transformedData);
+                    if (result.success) {
+                        // Return the recursively obtained data that we now know will successfully parse
+                        // when the outer function returns. We can't return the already parsed
+                        // `result.data` here, as we don't know if the schema accepts its own output as
+                        // its input.
+                        return transformedData;
+                    }
+                } catch {
+                    // The data doesn't match the option's structure, e.g., because the option expects
+                    // an object but the data is a string, so let's try the next option.
                 }
             }
 
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import type { JsxElement } from "@/jsx/jsx-types";
+import { createFetchHandler } from "@/routing/fetch-handler";
+import { getHrefs } from "@/routing/href";
+import { route, Router, routes } from "@/routing/router";
+import { encrypt, encrypted, type EncryptionKeyring } from "@/serialization/encryption";
+
+describe("encryption", () => {
+    const rs = routes({
+        "GET /links": (): JsxElement => (
+            <>
+                {
+                    href("POST /step", {
+                        state: encrypt({ step: 2, approver: "alice" }),
+                        visible: true,
+                    }).body
+                }{" "}
+                {href("POST /step", { state: encrypt({ step: -1, approver: "bob" }) }).body}
+            </>
+        ),
+        "POST /step": route(
+            z.object({
+                state: encrypted(z.object({ step: z.number().min(0), approver: z.string() })),
+                visible: z.boolean().optional(),
+            }),
+            ({ state: { step, approver }, visible }) => (
+                <>
+                    {step} {approver} {String(visible)}
+                </>
+            ),
+        ),
+    });
+    const href = getHrefs<typeof rs>();
+
+    function createFetch(keyring?: EncryptionKeyring) {
+        const handler = createFetchHandler(
+            <Router routes={rs} />,
+            (error) => `fatal-error-callback: ${error}`,
+            { keyring },
+        );
+
+        return (url: string, body?: string) =>
+            handler(
+                new Request(
+                    `http://localhost${url}`,
+                    body === undefined
+                        ? {}
+                        : {
+                              method: "POST",
+                              body,
+                              headers: {
+                                  "x-hy": "true",
+                                  "content-type": "application/x-www-form-urlencoded",
+                              },
+                          },
+                ),
+            );
+    }
+
+    async function getBodies(fetch: ReturnType<typeof createFetch>) {
+        const [validBody, invalidBody] = (await (await fetch("/links")).text())
+            .replaceAll("&amp;", "&")
+            .split(" ");
+        return { validBody: validBody!, invalidBody: invalidBody! };
+    }
+
+    const key1 = { id: "k1", secret: "first-secret-for-tests-only" };
+    const key2 = { id: "k2", secret: "second-secret-for-tests-only" };
+
+    it("encrypts route parameters and decrypts them before validation", async () => {
+        const fetch = createFetch({ keys: [key1] });
+        const { validBody, invalidBody } = await getBodies(fetch);
+
+        expect(validBody).toMatch(/^state=k1\.[\w-]+&visible=true$/);
+        expect(validBody).not.toContain("alice");
+        expect(await (await fetch("/step", validBody)).text()).toBe("2 alice true");
+
+        // The decrypted value is validated with the inner schema.
+        expect((await fetch("/step", invalidBody)).status).toBe(400);
+    });
+
+    it("uses fresh ciphertexts for every encryption", async () => {
+        const fetch = createFetch({ keys: [key1] });
+        expect((await getBodies(fetch)).validBody).not.toBe((await getBodies(fetch)).validBody);
+    });
+
+    it("rejects tampered or unencrypted values", async () => {
+        const fetch = createFetch({ keys: [key1] });
+        const { validBody } = await getBodies(fetch);
+        const [, blob] = /state=k1\.([\w-]+)/.exec(validBody)!;
+        const tamperedBlob = `${blob!.slice(0, 20)}${blob![20] === "A" ? "B" : "A"}${blob!.slice(21)}`;
+
+        const rejectedBodies = [
+            validBody.replace(blob!, tamperedBlob),
+            validBody.replace("k1.", "k2."),
+            validBody.replace("k1.", ""),
+            "state=k1.abc",
+            "state.step=2&state.approver=mallory",
+        ];
+
+        for (const body of rejectedBodies) {
+            expect((await fetch("/step", body)).status).toBe(400);
+        }
+    });
+
+    it("supports key rotation", async () => {
+        const { validBody } = await getBodies(createFetch({ keys: [key1] }));
+
+        const rotatedFetch = createFetch({ keys: [key2, key1] });
+        expect(await (await rotatedFetch("/step", validBody)).text()).toBe("2 alice true");
+        expect((await getBodies(rotatedFetch)).validBody).toMatch(/^state=k2\./);
+
+        const retiredFetch = createFetch({ keys: [key2] });
+        expect((await retiredFetch("/step", validBody)).status).toBe(400);
+    });
+
+    it("requires an encryption keyring", async () => {
+        expect((await createFetch()("/links")).status).toBe(500);
+    });
+});
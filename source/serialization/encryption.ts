@@ -0,0 +1,142 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from "node:crypto";
+import { z, type ZodEffects, type ZodString, type ZodType, type ZodTypeDef } from "zod";
+import { useEncryptionKeyring } from "@/http/http-context";
+import type { Href } from "@/routing/href";
+import { pack, type PackedData, unpack } from "@/serialization/data-packing";
+
+export type EncryptionKey = {
+    /**
+     * Identifies the key within the keyring, so that the key that was used to encrypt a value can
+     * be found again when the value is decrypted. Must consist of letters, digits, `_`, or `-`
+     * only.
+     */
+    readonly id: string;
+    /**
+     * The secret the encryption key is derived from. It must be kept secret and should consist of
+     * at least 32 random bytes.
+     */
+    readonly secret: string;
+};
+
+/** The keys used to encrypt and decrypt values of {@link encrypted} route parameters. */
+export type EncryptionKeyring = {
+    /**
+     * Values are always encrypted with the first key, whereas values encrypted with any of the keys
+     * can be decrypted. To rotate keys, add the new key at the start of the list and remove the old
+     * key once values encrypted with it are no longer in use.
+     */
+    readonly keys: readonly [EncryptionKey, ...EncryptionKey[]];
+};
+
+const algorithm = "aes-256-gcm";
+const ivLength = 12;
+const authTagLength = 16;
+
+/**
+ * A value that is encrypted when it is serialized into URL search params, typically the route
+ * parameter of an {@link Href} that is passed to an {@link encrypted} schema. Use {@link encrypt} to
+ * create instances.
+ */
+export class EncryptedValue<T> {
+    public constructor(public readonly value: T) {}
+
+    /** Encrypts the value with the first key of the current HTTP request's keyring. */
+    public toString(): string {
+        const [key] = getKeyring().keys;
+        const iv = randomBytes(ivLength);
+        const cipher = createCipheriv(algorithm, deriveKey(key), iv, { authTagLength });
+        cipher.setAAD(Buffer.from(key.id));
+
+        const ciphertext = Buffer.concat([
+            cipher.update(JSON.stringify(pack(this.value) ?? null)),
+            cipher.final(),
+        ]);
+
+        return `${key.id}.${Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64url")}`;
+    }
+}
+
+/**
+ * Marks the given `value` as a value that must be encrypted when it is passed as a route parameter,
+ * see {@link encrypted}.
+ */
+export function encrypt<T>(value: T): EncryptedValue<T> {
+    return new EncryptedValue(value);
+}
+
+/**
+ * Wraps the given schema of a route parameter such that the parameter's value can't be read or
+ * modified by the user. The values must be wrapped with {@link encrypt} when creating an
+ * {@link Href}, so that they are serialized as authenticated-encrypted blobs. When the route is
+ * requested, the blob is decrypted and subsequently validated with the given `schema`. Requires an
+ * encryption keyring to be configured, see the `keyring` option of the fetch handler or the Express
+ * middleware.
+ *
+ * Note that an encrypted value can be copied to any other route parameter with the same schema, and
+ * it can be reused as long as its key remains in the keyring. Sign the route if it must only be
+ * reachable with the hrefs you rendered.
+ */
+export function encrypted<Output, Def extends ZodTypeDef, Input>(
+    schema: ZodType<Output, Def, Input>,
+): ZodEffects<ZodString, Output, EncryptedValue<Input>> {
+    return z.string().transform((value, ctx) => {
+        const data = decrypt(value);
+        if (data === undefined) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid encrypted value" });
+            return z.NEVER;
+        }
+
+        // Throws a "BadRequest" `HttpError` if the decrypted value is invalid.
+        return unpack(schema, data)!;
+    }) as unknown as ZodEffects<ZodString, Output, EncryptedValue<Input>>;
+}
+
+/** Decrypts the given blob, returning `undefined` if that isn't possible for whatever reason. */
+function decrypt(blob: string): PackedData | undefined {
+    const separatorIndex = blob.indexOf(".");
+    const keyId = blob.slice(0, separatorIndex);
+    const key = getKeyring().keys.find((key) => key.id === keyId);
+    const data = Buffer.from(blob.slice(separatorIndex + 1), "base64url");
+
+    if (separatorIndex < 0 || !key || data.length < ivLength + authTagLength) {
+        return undefined;
+    }
+
+    try {
+        const decipher = createDecipheriv(algorithm, deriveKey(key), data.subarray(0, ivLength), {
+            authTagLength,
+        });
+        decipher.setAAD(Buffer.from(key.id));
+        decipher.setAuthTag(data.subarray(data.length - authTagLength));
+
+        const plaintext = Buffer.concat([
+            decipher.update(data.subarray(ivLength, data.length - authTagLength)),
+            decipher.final(),
+        ]);
+
+        return JSON.parse(plaintext.toString()) as PackedData;
+    } catch {
+        // The blob was tampered with or encrypted with a different key.
+        return undefined;
+    }
+}
+
+function getKeyring() {
+    const keyring = useEncryptionKeyring();
+    if (!keyring) {
+        throw new Error(
+            "Encrypted route parameters require an encryption keyring. Configure it with the " +
+                "`keyring` option of the fetch handler or the Express middleware.",
+        );
+    }
+
+    return keyring;
+}
+
+function deriveKey(key: EncryptionKey) {
+    if (!/^[\w-]+$/.test(key.id)) {
+        throw new Error(`Invalid encryption key id '${key.id}'.`);
+    }
+
+    return Buffer.from(hkdfSync("sha256", key.secret, "", "hytts encrypted values", 32));
+}
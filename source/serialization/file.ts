@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { useUploadedFile } from "@/http/http-context";
+import { UploadedFile } from "@/http/multipart";
+
+export type FileSchemaOptions = {
+    /** The maximum size of the file in bytes. */
+    readonly maxSize?: number;
+    /** The list of accepted MIME types, e.g., `["image/png", "image/jpeg"]`. */
+    readonly mimeTypes?: readonly string[];
+};
+
+/**
+ * Declares a form field of type `<input type="file">` that yields the {@link UploadedFile} sent by
+ * the browser with a `multipart/form-data` request. Use `.optional()` for file inputs that don't
+ * have to be filled in, as empty file inputs are treated as if they weren't present at all.
+ */
+export const zFile = (options?: FileSchemaOptions) =>
+    z
+        .custom<UploadedFile>((v) => v instanceof UploadedFile)
+        .or(
+            z.string().transform((v, ctx) => {
+                const file = useUploadedFile(v);
+                if (!file) {
+                    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Not a file" });
+                    return z.NEVER;
+                }
+                return file;
+            }),
+        )
+        .superRefine((file, ctx) => {
+            if (options?.maxSize !== undefined && file.size > options.maxSize) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: "File too large" });
+            }
+
+            if (options?.mimeTypes && !options.mimeTypes.includes(file.mimeType)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Unsupported file type" });
+            }
+        });
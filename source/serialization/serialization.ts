@@ -41,8 +41,20 @@ Zod schema, unfortunately (currently?) disallowing any custom, third-party class
 In addition to not allowing any third-party `ZodType` instances (if possible, use `z.custom()` instead), there are also 
 some additional restrictions on the set of supported first-party Zod types. In some cases, there is no (or no secure) 
 string representation of a type (e.g., for `ZodNever`, `ZodPromise`, or `ZodFunction`), while in other cases support
-could potentially be added in the future. Probably the largest restriction right now is that `ZodUnion` is unsupported 
-in the general case.
+could potentially be added in the future.
+
+Unions are deserialized by choosing the option the data belongs to. For `ZodDiscriminatedUnion`, the option is chosen
+by the discriminator value, which is also retained by the structure-only schema so that forms always know which option
+is active. For general `ZodUnion`s, the first option the data can be successfully parsed with is chosen, so unions of
+objects should be structurally distinct; if in doubt, prefer discriminated unions.
+
+Tuples and sets are serialized like arrays, and records like objects, so the same restrictions apply: Tuples must not
+have more elements than defined by the schema, and records must not have more than 100 entries nor keys containing a
+`.`. Maps are serialized as arrays of key-value pairs, e.g., a value of `{ m: new Map([[1, true]]) }` is serialized as
+`?m.0.0=1&m.0.1=true`, because their keys can be of any type. Native enums and bigints are serialized like numbers and
+strings; bigints are limited to 1000 digits as parsing is expensive for larger numbers. For pipelines, only the input
+schema is considered during deserialization, whereas the output schema receives the transformed value. Lazy schemas
+are fully supported, even recursive ones, as the nesting depth of the data is limited during parsing.
 
 */
 
@@ -68,31 +80,31 @@ const supportedFirstPartyTypes: Record<ZodFirstPartyTypeKind, boolean> = {
     [z.ZodFirstPartyTypeKind.ZodDefault]: true,
     [z.ZodFirstPartyTypeKind.ZodUnknown]: true,
     [z.ZodFirstPartyTypeKind.ZodReadonly]: true,
+    [z.ZodFirstPartyTypeKind.ZodUnion]: true,
+    [z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion]: true,
+    [z.ZodFirstPartyTypeKind.ZodBigInt]: true,
+    [z.ZodFirstPartyTypeKind.ZodTuple]: true,
+    [z.ZodFirstPartyTypeKind.ZodRecord]: true,
+    [z.ZodFirstPartyTypeKind.ZodMap]: true,
+    [z.ZodFirstPartyTypeKind.ZodSet]: true,
+    [z.ZodFirstPartyTypeKind.ZodBranded]: true,
+    [z.ZodFirstPartyTypeKind.ZodPipeline]: true,
+    [z.ZodFirstPartyTypeKind.ZodCatch]: true,
+    [z.ZodFirstPartyTypeKind.ZodLazy]: true,
+    [z.ZodFirstPartyTypeKind.ZodNativeEnum]: true,
 
     // Zod types with partial support:
-    [z.ZodFirstPartyTypeKind.ZodUnion]: false, // mostly HyTTS-internal
     [z.ZodFirstPartyTypeKind.ZodAny]:
         true /* because of `z.custom()`, must not be used for structured data
                 and be able to convert from string */,
 
     // Currently unsupported Zod types, but might potentially be supported in the future:
     [z.ZodFirstPartyTypeKind.ZodNaN]: false,
-    [z.ZodFirstPartyTypeKind.ZodBigInt]: false,
-    [z.ZodFirstPartyTypeKind.ZodTuple]: false,
-    [z.ZodFirstPartyTypeKind.ZodRecord]: false,
-    [z.ZodFirstPartyTypeKind.ZodMap]: false,
-    [z.ZodFirstPartyTypeKind.ZodSet]: false,
-    [z.ZodFirstPartyTypeKind.ZodBranded]: false,
-    [z.ZodFirstPartyTypeKind.ZodPipeline]: false,
-    [z.ZodFirstPartyTypeKind.ZodCatch]: false,
-    [z.ZodFirstPartyTypeKind.ZodLazy]: false,
-    [z.ZodFirstPartyTypeKind.ZodNativeEnum]: false,
 
     // Zod types for which there is no (secure) string representation:
     [z.ZodFirstPartyTypeKind.ZodUndefined]: false, // but optional properties are supported
     [z.ZodFirstPartyTypeKind.ZodNever]: false,
     [z.ZodFirstPartyTypeKind.ZodVoid]: false,
-    [z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion]: false,
     [z.ZodFirstPartyTypeKind.ZodFunction]: false,
     [z.ZodFirstPartyTypeKind.ZodPromise]: false,
     [z.ZodFirstPartyTypeKind.ZodSymbol]: false,
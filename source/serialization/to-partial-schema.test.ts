@@ -188,6 +188,123 @@ describe("structural form schema", () => {
         const y: typeof parseResult1 = x;
     });
 
+    it("accepts discriminated unions, retaining the discriminators", () => {
+        const schema = toPartialSchema(
+            z.object({
+                payment: z.discriminatedUnion("type", [
+                    z.object({ type: z.literal("card"), number: z.number().min(3) }),
+                    z.object({ type: z.literal("invoice"), due: zLocalDate() }),
+                ]),
+            }),
+        );
+
+        const parseResult1 = schema.parse({ payment: { type: "card", number: "a" } });
+        expect(parseResult1).toStrictEqual({ payment: { type: "card", number: "a" } });
+
+        const parseResult2 = schema.parse({ payment: { type: "invoice", due: "b" } });
+        expect(parseResult2).toStrictEqual({ payment: { type: "invoice", due: "b" } });
+
+        // Missing or unknown discriminators are left to the original schema to report.
+        expect(schema.parse({ payment: { type: "other", number: "a" } })).toStrictEqual({
+            payment: { type: "other" },
+        });
+        const parseResult3 = schema.parse({ payment: {} });
+        expect(parseResult3).toStrictEqual({ payment: {} });
+
+        expect(() => schema.parse({ payment: { type: "card", number: ["a"] } })).toThrow();
+
+        const x:
+            | { payment: { type: "card"; number: number | string } }
+            | { payment: { type: "invoice"; due: LocalDate | string } }
+            | { payment: { type?: string } } = parseResult3;
+        const y: typeof parseResult3 = x;
+    });
+
+    it("accepts tuples, records, sets, and maps", () => {
+        const schema = toPartialSchema(
+            z.object({
+                t: z.tuple([z.number().min(10), zLocalDate()]).rest(z.boolean()),
+                r: z.record(z.number()),
+                s: z.set(z.number()).min(3),
+                m: z.map(z.number(), z.number()),
+            }),
+        );
+
+        const parseResult = schema.parse({
+            t: [1, "a", true, "b"],
+            r: { a: "b" },
+            s: new Set(["a", 1]),
+            m: new Map([["a", 1]]),
+        });
+        expect(parseResult).toStrictEqual({
+            t: [1, "a", true, "b"],
+            r: { a: "b" },
+            s: new Set(["a", 1]),
+            m: new Map([["a", 1]]),
+        });
+
+        expect(() => schema.parse({ t: [1], r: {}, s: new Set(), m: new Map() })).toThrow();
+        expect(() => schema.parse({ t: [1, "a"], r: [], s: new Set(), m: new Map() })).toThrow();
+
+        const x: {
+            t: [number | string, LocalDate | string, ...(boolean | string)[]];
+            r: Record<string, number | string>;
+            s: Set<number | string>;
+            m: Map<number | string, number | string>;
+        } = parseResult;
+        const y: typeof parseResult = x;
+    });
+
+    it("accepts bigints, native enums, branded types, pipelines, and catch", () => {
+        enum E {
+            A,
+            B,
+        }
+        const schema = toPartialSchema(
+            z.object({
+                b: z.bigint().positive(),
+                e: z.nativeEnum(E),
+                id: z.number().min(1).brand("Id"),
+                p: z.string().pipe(z.string().min(10)),
+                c: z.object({ a: z.number() }).catch({ a: 1 }),
+            }),
+        );
+
+        const parseResult = schema.parse({ b: "x", e: "y", id: 0, p: "a", c: { a: "b" } });
+        expect(parseResult).toStrictEqual({ b: "x", e: "y", id: 0, p: "a", c: { a: "b" } });
+        expect(schema.parse({ b: BigInt(-1), e: E.B, id: "a", p: "a", c: "c" })).toStrictEqual({
+            b: BigInt(-1),
+            e: E.B,
+            id: "a",
+            p: "a",
+            c: { a: 1 },
+        });
+
+        const x: {
+            b: bigint | string;
+            e: E | string;
+            id: (number | string) & z.BRAND<"Id">;
+            p: string;
+            c: { a: number | string };
+        } = parseResult;
+        const y: typeof parseResult = x;
+    });
+
+    it("accepts recursive lazy schemas", () => {
+        type Category = { order: number; children: Category[] };
+        const category: z.ZodType<Category> = z.lazy(() =>
+            z.object({ order: z.number().min(10), children: category.array() }),
+        );
+        const schema = toPartialSchema(z.object({ category }));
+
+        expect(
+            schema.parse({ category: { order: "a", children: [{ order: 1, children: [] }] } }),
+        ).toStrictEqual({ category: { order: "a", children: [{ order: 1, children: [] }] } });
+        expect(() =>
+            schema.parse({ category: { order: "a", children: [{ order: 1, children: {} }] } }),
+        ).toThrow();
+    });
+
     it("fails validation for array instead of object", () => {
         const schema = toPartialSchema(z.object({ b: z.object({ x: z.number() }) }));
         expect(() => schema.parse({ b: ["1"] })).toThrow("Expected object, received array");
@@ -3,19 +3,33 @@ import {
     z,
     ZodAny,
     ZodArray,
+    ZodBigInt,
     ZodBoolean,
+    ZodBranded,
+    ZodCatch,
     ZodDefault,
+    ZodDiscriminatedUnion,
+    type ZodDiscriminatedUnionOption,
     ZodEffects,
     ZodEnum,
     ZodIntersection,
+    ZodLazy,
+    ZodLiteral,
+    ZodMap,
+    ZodNativeEnum,
     ZodNull,
     ZodNullable,
     ZodNumber,
     ZodObject,
     ZodOptional,
+    ZodPipeline,
     type ZodRawShape,
     ZodReadonly,
+    ZodRecord,
+    ZodSet,
     ZodString,
+    ZodTuple,
+    type ZodTupleItems,
     type ZodType,
     ZodUndefined,
     ZodUnion,
@@ -52,6 +66,9 @@ import {
  * values.
  */
 export function toPartialSchema<T extends ZodType>(schema: T): ToPartialSchema<T> {
+    // Maps lazy schemas to their partial counterparts, so that recursive schemas remain recursive
+    // instead of being expanded infinitely.
+    const lazySchemas = new Map<ZodLazy<any>, ZodType>();
     return recurse(schema) as any;
 
     function recurse(schema: ZodType): ZodType {
@@ -69,7 +86,10 @@ export function toPartialSchema<T extends ZodType>(schema: T): ToPartialSchema<T
             // Ignore all validations defined for a Boolean schema by creating a new one.
             // The browser doesn't send anything for checkboxes when they're not checked, so default to `false`.
             return z.boolean().or(z.string()).default(false);
-        } else if (schema instanceof ZodEnum) {
+        } else if (schema instanceof ZodBigInt) {
+            // Ignore all validations defined for a bigint schema by creating a new one.
+            return z.bigint().or(z.string());
+        } else if (schema instanceof ZodEnum || schema instanceof ZodNativeEnum) {
             return schema.or(z.string());
         } else if (schema instanceof ZodObject) {
             const shape = mapValues(schema.shape, (value) => recurse(value));
@@ -77,6 +97,21 @@ export function toPartialSchema<T extends ZodType>(schema: T): ToPartialSchema<T
             return x;
         } else if (schema instanceof ZodArray) {
             return z.array(recurse(schema.element), schema._def);
+        } else if (schema instanceof ZodTuple) {
+            const rest: ZodType | null = schema._def.rest;
+            return new ZodTuple({
+                ...schema._def,
+                items: (schema.items as ZodType[]).map(recurse) as [ZodType],
+                rest: rest ? recurse(rest) : null,
+            });
+        } else if (schema instanceof ZodRecord) {
+            // Record keys are always strings when sent by the browser.
+            return z.record(recurse(schema.valueSchema));
+        } else if (schema instanceof ZodMap) {
+            return z.map(recurse(schema.keySchema), recurse(schema.valueSchema));
+        } else if (schema instanceof ZodSet) {
+            // Ignore the size validations defined for a set schema by creating a new one.
+            return z.set(recurse(schema._def.valueType));
         } else if (schema instanceof ZodNullable) {
             return recurse(schema.unwrap()).nullable();
         } else if (schema instanceof ZodDefault) {
@@ -107,8 +142,46 @@ export function toPartialSchema<T extends ZodType>(schema: T): ToPartialSchema<T
             return recurse(schema._def.left).and(recurse(schema._def.right));
         } else if (schema instanceof ZodUnion) {
             return z.union(schema.options.map(recurse));
+        } else if (schema instanceof ZodDiscriminatedUnion) {
+            // The discriminators are retained, as we have to know which option the data belongs to.
+            // A missing or unknown discriminator, e.g., a radio group without a checked option, is a
+            // validation error reported by the original schema; as the structure of the data is
+            // unknown in that case, only the discriminator is kept.
+            const discriminator: string = schema.discriminator;
+            const discriminatorValues = new Set<unknown>(schema.optionsMap.keys());
+            const options = (schema.options as ZodObject<any>[]).map((option) => {
+                const partialOption = recurse(option) as ZodObject<any>;
+                return partialOption.extend({ [discriminator]: option.shape[discriminator] });
+            });
+            return z.union([
+                z.discriminatedUnion(discriminator, options as [ZodObject<any>]),
+                z.object({
+                    [discriminator]: z
+                        .string()
+                        .refine((value) => !discriminatorValues.has(value))
+                        .optional(),
+                }),
+            ]);
+        } else if (schema instanceof ZodLiteral) {
+            // Literals are retained as well, as they typically discriminate the options of unions.
+            return schema;
         } else if (schema instanceof ZodReadonly) {
             return schema._def.innerType.readonly();
+        } else if (schema instanceof ZodBranded) {
+            return recurse(schema.unwrap()).brand();
+        } else if (schema instanceof ZodCatch) {
+            return new ZodCatch({ ...schema._def, innerType: recurse(schema.removeCatch()) });
+        } else if (schema instanceof ZodPipeline) {
+            // Like transforms, the output schema of the pipeline is ignored.
+            return recurse(schema._def.in);
+        } else if (schema instanceof ZodLazy) {
+            const lazySchema = schema;
+            let partialSchema = lazySchemas.get(lazySchema);
+            if (!partialSchema) {
+                partialSchema = z.lazy(() => recurse(lazySchema.schema));
+                lazySchemas.set(lazySchema, partialSchema);
+            }
+            return partialSchema;
         } else if (schema instanceof ZodAny) {
             return schema;
         } else {
@@ -136,14 +209,62 @@ export type ToPartialSchema<T extends ZodType> =
                       ? ZodReadonly<ToPartialSchema<I>>
                       : T extends ZodUnion<infer U>
                         ? ZodUnion<ConvertUnionCases<U>>
-                        : T extends ZodString
-                          ? ZodString
-                          : T extends ZodType<Record<string, unknown>> // this case covers generic code over "object-like" ZodTypes
+                        : T extends ZodDiscriminatedUnion<infer D, infer U>
+                          ? ZodUnion<
+                                [
+                                    ZodDiscriminatedUnion<D, ConvertDiscriminatedUnionCases<D, U>>,
+                                    ZodObject<{ [K in D]: ZodOptional<ZodString> }>,
+                                ]
+                            >
+                          : T extends ZodLiteral<any>
                             ? T
-                            : ZodUnion<[T, ZodString]>;
+                            : T extends ZodString
+                              ? ZodString
+                              : T extends ZodTuple<infer I, infer R>
+                                ? ZodTuple<
+                                      ConvertTupleItems<I>,
+                                      R extends ZodType ? ToPartialSchema<R> : null
+                                  >
+                                : T extends ZodRecord<any, infer V>
+                                  ? ZodRecord<ZodString, ToPartialSchema<V>>
+                                  : T extends ZodMap<infer K, infer V>
+                                    ? ZodMap<ToPartialSchema<K>, ToPartialSchema<V>>
+                                    : T extends ZodSet<infer V>
+                                      ? ZodSet<ToPartialSchema<V>>
+                                      : T extends ZodBranded<infer U, infer B>
+                                        ? ZodBranded<ToPartialSchema<U>, B>
+                                        : T extends ZodCatch<infer U>
+                                          ? ZodCatch<ToPartialSchema<U>>
+                                          : T extends ZodPipeline<infer I, any>
+                                            ? ToPartialSchema<I>
+                                            : T extends ZodLazy<infer U>
+                                              ? ZodLazy<ToPartialSchema<U>>
+                                              : T extends ZodType<Record<string, unknown>> // this case covers generic code over "object-like" ZodTypes
+                                                ? T
+                                                : ZodUnion<[T, ZodString]>;
 
 type ConvertUnionCases<T extends readonly ZodType[]> = T extends [infer U extends ZodType]
     ? [ToPartialSchema<U>]
     : T extends [infer U extends ZodType, ...infer V extends ZodType[]]
       ? [ToPartialSchema<U>, ...ConvertUnionCases<V>]
       : never;
+
+type ConvertTupleItems<T extends ZodTupleItems | []> = T extends [
+    infer U extends ZodType,
+    ...infer V extends ZodTupleItems | [],
+]
+    ? [ToPartialSchema<U>, ...ConvertTupleItems<V>]
+    : [];
+
+type ConvertDiscriminatedUnionCases<
+    D extends string,
+    T extends readonly ZodDiscriminatedUnionOption<D>[],
+> = T extends [
+    ZodObject<infer S extends ZodRawShape, infer U, infer C>,
+    ...infer V extends ZodDiscriminatedUnionOption<D>[],
+]
+    ? [
+          ZodObject<{ [K in keyof S]: K extends D ? S[K] : ToPartialSchema<S[K]> }, U, C>,
+          ...ConvertDiscriminatedUnionCases<D, V>,
+      ]
+    : [];
@@ -226,6 +226,52 @@ describe("url search params", () => {
         expect(roundtrip(schema, { t: "b" })).toStrictEqual({ t: "b" });
     });
 
+    it("should roundtrip native enums", () => {
+        enum Numeric {
+            A = 1,
+            B = 2,
+        }
+        enum Text {
+            A = "a",
+            B = "b",
+        }
+        const schema = z.object({ n: z.nativeEnum(Numeric), t: z.nativeEnum(Text) });
+        expect(roundtrip(schema, { n: Numeric.A, t: Text.B })).toStrictEqual({
+            n: Numeric.A,
+            t: Text.B,
+        });
+    });
+
+    it("should roundtrip tuples, records, sets, maps, and bigints", () => {
+        const schema = z.object({
+            t: z.tuple([z.number(), z.bigint()]),
+            r: z.record(z.boolean()),
+            s: z.set(z.string()),
+            m: z.map(z.number(), zLocalDate()),
+        });
+        const obj = {
+            t: [1, BigInt("18446744073709551616")] as [number, bigint],
+            r: { a: true, b: false },
+            s: new Set(["x", "y"]),
+            m: new Map([[1, LocalDate.of(2024, 1, 2)]]),
+        };
+
+        const params = toUrlSearchParams(obj);
+        expect(params).toBe(
+            "t.0=1&t.1=18446744073709551616&r.a=true&r.b=false&s.0=x&s.1=y&m.0.0=1&m.0.1=2024-01-02",
+        );
+        expect(parseUrlSearchParams(schema, params)).toStrictEqual(obj);
+    });
+
+    it("limits the sizes of sets and maps", () => {
+        expect(() =>
+            parseUrlSearchParams(z.object({ s: z.set(z.number()) }), "s.0=1&s.1000=2"),
+        ).toThrow("Data is not a set.");
+        expect(() =>
+            parseUrlSearchParams(z.object({ m: z.map(z.number(), z.number()) }), "m.1000.0=1"),
+        ).toThrow("Data is not a map.");
+    });
+
     it("protects against prototype poisoning", () => {
         const result = parseUrlSearchParams(
             z.object({ a: z.object({ b: z.string().optional() }) }),
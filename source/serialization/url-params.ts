@@ -5,8 +5,8 @@ import { pack, unpack } from "@/serialization/data-packing";
 /**
  * Parses the given URL search params using the given Zod schema. The schema must be an object
  * schema, and you should consider adding default values where necessary, so that missing properties
- * in the URL do not cause parsing errors. Some advanced Zod types are not fully supported, such as
- * unions.
+ * in the URL do not cause parsing errors. Some advanced Zod types are not supported, see
+ * `serialization.ts` for details.
  */
 export function parseUrlSearchParams<
     Output extends Record<string, unknown> | undefined,
@@ -22,20 +22,28 @@ export function parseUrlSearchParams<
             ? schema instanceof ZodDefault || schema instanceof ZodOptional
                 ? undefined
                 : {}
-            : parse(paramsString, {
-                  // Enable dot notation for properties, e.g., `a.b.c=d`.
-                  allowDots: true,
-                  // Parse values without `=` to `null`, e.g., for `a&b=`, `a` is `null` and `b` is `""`.
-                  strictNullHandling: true,
-                  // Ignore the leading `?`, if any.
-                  ignoreQueryPrefix: true,
-                  // Do not allow arrays with more than 100 elements so that noone can attempt a denial of
-                  // service attack by sending, e.g., `&a[10000000000]=0`.
-                  arrayLimit: 100,
-              }),
+            : parseRawUrlSearchParams(paramsString),
     );
 }
 
+/**
+ * Parses the given URL search params without any schema, i.e., the result consists of nested
+ * objects, arrays, and strings only.
+ */
+export function parseRawUrlSearchParams(paramsString: string) {
+    return parse(paramsString, {
+        // Enable dot notation for properties, e.g., `a.b.c=d`.
+        allowDots: true,
+        // Parse values without `=` to `null`, e.g., for `a&b=`, `a` is `null` and `b` is `""`.
+        strictNullHandling: true,
+        // Ignore the leading `?`, if any.
+        ignoreQueryPrefix: true,
+        // Do not allow arrays with more than 100 elements so that noone can attempt a denial of
+        // service attack by sending, e.g., `&a[10000000000]=0`.
+        arrayLimit: 100,
+    });
+}
+
 /** Converts the given object into an URL-encoded search params string. */
 export function toUrlSearchParams<T extends Record<string, unknown>>(
     obj: T | null | undefined,
@@ -2,7 +2,10 @@ import { createServer, type Server } from "node:http";
 import type { AddressInfo } from "node:net";
 import type { Page, Response as PlaywrightResponse } from "@playwright/test";
 import express, { type Express, text } from "express";
-import { createExpressMiddleware } from "@/routing/express-middleware";
+import {
+    createExpressMiddleware,
+    type ExpressMiddlewareOptions,
+} from "@/routing/express-middleware";
 import { getHrefs, type Href, type HrefCreator } from "@/routing/href";
 import { Router, type RoutesComponent } from "@/routing/router";
 
@@ -38,7 +41,10 @@ async function testApp<TReturn>(
 }
 
 /** Configures an express app that serves the given `routes`. */
-function createExpressApp<T extends RoutesComponent<any>>(routes: T) {
+function createExpressApp<T extends RoutesComponent<any>>(
+    routes: T,
+    options?: ExpressMiddlewareOptions,
+) {
     const app = express();
     app.set("query parser", (queryString: string) => queryString);
     app.use(text({ type: "application/x-www-form-urlencoded" }));
@@ -46,6 +52,7 @@ function createExpressApp<T extends RoutesComponent<any>>(routes: T) {
         createExpressMiddleware(
             <Router routes={routes} />,
             (error) => `fatal-error-callback: ${error}`,
+            options,
         ),
     );
 
@@ -60,24 +67,28 @@ export function runTestApp<T extends RoutesComponent<any>>(
     routes: T,
     useApp: (
         href: HrefCreator<T>,
-        fetch: (href: Href<any, any>, headers?: HeadersInit) => Promise<Response>,
+        fetch: (href: Href<any, any>, headers?: HeadersInit, body?: FormData) => Promise<Response>,
     ) => Promise<void>,
+    options?: ExpressMiddlewareOptions,
 ) {
-    const app = createExpressApp(routes);
+    const app = createExpressApp(routes, options);
 
     return testApp(app, (fetch) =>
-        useApp(getHrefs<typeof routes>(), (href, headers) =>
+        useApp(getHrefs<typeof routes>(), (href, headers, body) =>
             fetch(
                 href.url,
                 href.method === "GET"
                     ? { headers }
                     : {
-                          method: "POST",
-                          body: href.body,
+                          method: href.method,
+                          body: body ?? href.body,
                           headers: {
                               ...headers,
                               ...(headers ? {} : { "x-hy": "true" }),
-                              "content-type": "application/x-www-form-urlencoded",
+                              // For `FormData` bodies, `fetch` sets the multipart content type.
+                              ...(body
+                                  ? {}
+                                  : { "content-type": "application/x-www-form-urlencoded" }),
                           },
                       },
             ),